@@ -3,35 +3,56 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { CartProvider } from "@/hooks/use-cart";
 import Home from "./pages/Home";
 import Auth from "./pages/Auth";
 import Restaurant from "./pages/Restaurant";
 import HealthDashboard from "./pages/HealthDashboard";
 import MyOrders from "./pages/MyOrders";
 import RestaurantDashboard from "./pages/RestaurantDashboard";
+import RestaurantOrders from "./pages/RestaurantOrders";
+import RestaurantMenu from "./pages/RestaurantMenu";
+import RestaurantReviews from "./pages/RestaurantReviews";
+import RestaurantHours from "./pages/RestaurantHours";
+import RestaurantPricing from "./pages/RestaurantPricing";
+import RestaurantPromotions from "./pages/RestaurantPromotions";
+import RestaurantOnboarding from "./pages/RestaurantOnboarding";
 import Checkout from "./pages/Checkout";
+import NutritionProfile from "./pages/NutritionProfile";
+import AdminRefunds from "./pages/AdminRefunds";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Home />} />
-          <Route path="/login" element={<Auth />} />
-          <Route path="/restaurant/:id" element={<Restaurant />} />
-          <Route path="/checkout" element={<Checkout />} />
-          <Route path="/my-orders" element={<MyOrders />} />
-          <Route path="/my-nutrition" element={<HealthDashboard />} />
-          <Route path="/restaurant-dashboard" element={<RestaurantDashboard />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <CartProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Home />} />
+            <Route path="/login" element={<Auth />} />
+            <Route path="/restaurant/:id" element={<Restaurant />} />
+            <Route path="/checkout" element={<Checkout />} />
+            <Route path="/my-orders" element={<MyOrders />} />
+            <Route path="/my-nutrition" element={<HealthDashboard />} />
+            <Route path="/my-nutrition/goals" element={<NutritionProfile />} />
+            <Route path="/restaurant-dashboard" element={<RestaurantDashboard />} />
+            <Route path="/restaurant-dashboard/orders" element={<RestaurantOrders />} />
+            <Route path="/restaurant-dashboard/menu" element={<RestaurantMenu />} />
+            <Route path="/restaurant-dashboard/reviews" element={<RestaurantReviews />} />
+            <Route path="/restaurant-dashboard/hours" element={<RestaurantHours />} />
+            <Route path="/restaurant-dashboard/pricing" element={<RestaurantPricing />} />
+            <Route path="/restaurant-dashboard/promotions" element={<RestaurantPromotions />} />
+            <Route path="/restaurant-onboarding" element={<RestaurantOnboarding />} />
+            <Route path="/admin/refunds" element={<AdminRefunds />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </CartProvider>
   </QueryClientProvider>
 );
 
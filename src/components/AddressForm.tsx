@@ -0,0 +1,173 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ADDRESS_LABELS, PINCODE_PATTERN, type Address } from "@/lib/addresses";
+
+const addressSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(30),
+  line1: z.string().trim().min(1, "Address is required").max(200),
+  line2: z.string().trim().max(200).optional(),
+  landmark: z.string().trim().max(100).optional(),
+  city: z.string().trim().min(1, "City is required").max(100),
+  pincode: z.string().trim().regex(PINCODE_PATTERN, "Enter a valid 6-digit pincode"),
+  is_default: z.boolean(),
+});
+
+export type AddressFormValues = z.infer<typeof addressSchema>;
+
+interface AddressFormProps {
+  address?: Address | null;
+  submitLabel: string;
+  onSubmit: (values: AddressFormValues) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const AddressForm = ({ address, submitLabel, onSubmit, onCancel }: AddressFormProps) => {
+  const form = useForm<AddressFormValues>({
+    resolver: zodResolver(addressSchema),
+    defaultValues: {
+      label: address?.label ?? ADDRESS_LABELS[0],
+      line1: address?.line1 ?? "",
+      line2: address?.line2 ?? "",
+      landmark: address?.landmark ?? "",
+      city: address?.city ?? "",
+      pincode: address?.pincode ?? "",
+      is_default: address?.is_default ?? false,
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="label"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Label</FormLabel>
+              <div className="flex flex-wrap gap-2">
+                {ADDRESS_LABELS.map((label) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={field.value === label ? "default" : "outline"}
+                    onClick={() => field.onChange(label)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <FormControl>
+                <Input placeholder="e.g., Home" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="line1"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Flat / House No., Street</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., 12B, MG Road" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="line2"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Area / Locality (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Indiranagar" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="landmark"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Landmark (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Metro station" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="city"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>City</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Bengaluru" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="pincode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pincode</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" maxLength={6} placeholder="560038" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="is_default"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <FormLabel className="font-normal">Make this my default address</FormLabel>
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default AddressForm;
@@ -0,0 +1,23 @@
+import { formatAmount, getBillLines, type Bill } from "@/lib/pricing";
+import { cn } from "@/lib/utils";
+
+interface BillBreakdownProps {
+  bill: Bill;
+  couponCode?: string | null;
+  className?: string;
+}
+
+const BillBreakdown = ({ bill, couponCode, className }: BillBreakdownProps) => (
+  <div className={cn("space-y-2", className)}>
+    {getBillLines(bill, couponCode).map((line) => (
+      <div key={line.label} className="flex justify-between text-sm">
+        <span>{line.label}</span>
+        <span className={cn(line.free && "text-primary font-medium")}>
+          {line.free ? "FREE" : formatAmount(line.amount)}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default BillBreakdown;
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { cancelOrder, CancelOrderError } from "@/lib/orders";
+import { CANCELLATION_REASONS } from "@/lib/cancellation";
+
+export interface CancellingOrder {
+  id: string;
+  restaurantName: string;
+  /** Extra context such as the scheduled slot or cutoff. */
+  description?: string;
+}
+
+interface CancelOrderDialogProps {
+  order: CancellingOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onCancelled: () => void;
+}
+
+const CancelOrderDialog = ({ order, onOpenChange, onCancelled }: CancelOrderDialogProps) => {
+  const [reason, setReason] = useState(CANCELLATION_REASONS[0]);
+  const [details, setDetails] = useState("");
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setReason(CANCELLATION_REASONS[0]);
+      setDetails("");
+    }
+    onOpenChange(open);
+  };
+
+  const handleCancel = async () => {
+    if (!order) return;
+    const fullReason = reason === "Other" ? details.trim() : [reason, details.trim()].filter(Boolean).join(" - ");
+    if (!fullReason) {
+      toast.error("Please tell us why you are cancelling");
+      return;
+    }
+
+    setIsCancelling(true);
+    try {
+      await cancelOrder(order.id, fullReason);
+      toast.success("Order cancelled");
+      handleOpenChange(false);
+      onCancelled();
+    } catch (error) {
+      toast.error(error instanceof CancelOrderError ? error.message : "Failed to cancel order");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel your order from {order?.restaurantName}?</DialogTitle>
+          <DialogDescription>
+            {order?.description ?? "The restaurant will be notified straight away."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={setReason}>
+            {CANCELLATION_REASONS.map((option) => (
+              <div key={option} className="flex items-center space-x-2">
+                <RadioGroupItem value={option} id={`cancel-reason-${option}`} />
+                <Label htmlFor={`cancel-reason-${option}`} className="font-normal cursor-pointer">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-details">{reason === "Other" ? "Reason" : "Anything else? (Optional)"}</Label>
+            <Textarea
+              id="cancel-details"
+              rows={2}
+              maxLength={400}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Keep Order
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={isCancelling}>
+            {isCancelling ? "Cancelling..." : "Cancel Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelOrderDialog;
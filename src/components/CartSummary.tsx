@@ -0,0 +1,65 @@
+import { Button } from "@/components/ui/button";
+import NutrientSummary from "@/components/NutrientSummary";
+import DailyGoalRings from "@/components/DailyGoalRings";
+import { useCart } from "@/hooks/use-cart";
+import { useDailyGoals } from "@/hooks/use-daily-goals";
+
+interface CartSummaryProps {
+  currentRestaurantId?: string;
+  onCheckout: () => void;
+}
+
+const CartSummary = ({ currentRestaurantId, onCheckout }: CartSummaryProps) => {
+  const { restaurant, lines, totalAmount, totalCalories, totalNutrients } = useCart();
+  const { goals, intake } = useDailyGoals();
+
+  if (lines.length === 0) {
+    return <p className="text-muted-foreground text-center py-8">Your cart is empty</p>;
+  }
+
+  return (
+    <>
+      {restaurant && restaurant.id !== currentRestaurantId && (
+        <p className="text-sm text-muted-foreground mb-3">From: {restaurant.name}</p>
+      )}
+      <div className="space-y-3 mb-4">
+        {lines.map(({ item, quantity }) => (
+          <div key={item.id} className="flex justify-between items-start">
+            <div className="flex-1">
+              <p className="font-medium">{item.name}</p>
+              <p className="text-sm text-muted-foreground">₹{item.price} × {quantity}</p>
+            </div>
+            <p className="font-semibold">₹{(item.price * quantity).toFixed(2)}</p>
+          </div>
+        ))}
+      </div>
+      <div className="border-t pt-4 space-y-2">
+        <div className="flex justify-between text-sm">
+          <span>Total Calories</span>
+          <span className="font-semibold">{totalCalories} cal</span>
+        </div>
+        <NutrientSummary nutrients={totalNutrients} />
+        {goals && (
+          <div className="py-2">
+            <p className="text-xs text-muted-foreground mb-2">Today's intake with this cart</p>
+            <DailyGoalRings
+              goals={goals}
+              intake={intake}
+              added={{ calories: totalCalories, ...totalNutrients }}
+              compact
+            />
+          </div>
+        )}
+        <div className="flex justify-between text-lg font-bold">
+          <span>Total Amount</span>
+          <span>₹{totalAmount.toFixed(2)}</span>
+        </div>
+      </div>
+      <Button className="w-full mt-4" size="lg" onClick={onCheckout}>
+        Proceed to Checkout
+      </Button>
+    </>
+  );
+};
+
+export default CartSummary;
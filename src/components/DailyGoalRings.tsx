@@ -0,0 +1,103 @@
+import { cn } from "@/lib/utils";
+import type { DailyGoals, DailyIntake } from "@/lib/nutrition-goals";
+
+const RINGS = [
+  { key: "calories", label: "Calories", unit: "cal", color: "hsl(var(--primary))" },
+  { key: "protein_g", label: "Protein", unit: "g", color: "hsl(var(--secondary))" },
+  { key: "carbohydrates_g", label: "Carbs", unit: "g", color: "hsl(var(--accent))" },
+  { key: "fat_g", label: "Fat", unit: "g", color: "hsl(45, 93%, 47%)" },
+] as const;
+
+interface ProgressRingProps {
+  value: number;
+  added?: number;
+  goal: number;
+  color: string;
+  size: number;
+}
+
+// Eaten so far as a solid arc, with anything `added` as a faded arc after it
+const ProgressRing = ({ value, added = 0, goal, color, size }: ProgressRingProps) => {
+  const stroke = size / 9;
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const fraction = (amount: number) => Math.min(1, Math.max(0, goal > 0 ? amount / goal : 0));
+  const current = fraction(value);
+  const projected = fraction(value + added);
+  const over = value + added > goal;
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} className="-rotate-90">
+      <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="hsl(var(--muted))" strokeWidth={stroke} />
+      {added > 0 && (
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={over ? "hsl(var(--destructive))" : color}
+          strokeOpacity={0.4}
+          strokeWidth={stroke}
+          strokeLinecap="round"
+          strokeDasharray={`${projected * circumference} ${circumference}`}
+        />
+      )}
+      <circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        stroke={color}
+        strokeWidth={stroke}
+        strokeLinecap="round"
+        strokeDasharray={`${current * circumference} ${circumference}`}
+      />
+    </svg>
+  );
+};
+
+interface DailyGoalRingsProps {
+  goals: DailyGoals;
+  intake: DailyIntake;
+  /** Amounts that would be added on top of today's intake, e.g. the cart. */
+  added?: Partial<DailyIntake>;
+  compact?: boolean;
+  className?: string;
+}
+
+const DailyGoalRings = ({ goals, intake, added, compact = false, className }: DailyGoalRingsProps) => {
+  const size = compact ? 52 : 96;
+
+  return (
+    <div className={cn("grid grid-cols-4 gap-2 text-center", className)}>
+      {RINGS.map(({ key, label, unit, color }) => {
+        const value = intake[key];
+        const extra = added?.[key] ?? 0;
+        const total = Math.round(value + extra);
+        return (
+          <div key={key} className="flex flex-col items-center gap-1">
+            <div className="relative">
+              <ProgressRing value={value} added={extra} goal={goals[key]} color={color} size={size} />
+              <span
+                className={cn(
+                  "absolute inset-0 flex items-center justify-center font-semibold",
+                  compact ? "text-[10px]" : "text-sm",
+                  total > goals[key] && "text-destructive"
+                )}
+              >
+                {goals[key] > 0 ? Math.round((total / goals[key]) * 100) : 0}%
+              </span>
+            </div>
+            <p className={cn("font-medium", compact ? "text-xs" : "text-sm")}>{label}</p>
+            <p className="text-xs text-muted-foreground">
+              {total} / {goals[key]}
+              {compact ? "" : ` ${unit}`}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DailyGoalRings;
@@ -0,0 +1,139 @@
+import { useEffect, useMemo, useState } from "react";
+import { format, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { describeOpeningStatus, getOpeningStatus, type OpeningHoursSlot, type RestaurantHoliday } from "@/lib/opening-hours";
+import { getScheduleSlots, SCHEDULE_HORIZON_DAYS, SCHEDULE_LEAD_MINUTES } from "@/lib/scheduling";
+
+interface RestaurantSchedule {
+  time_zone: string;
+  restaurant_opening_hours: OpeningHoursSlot[];
+  restaurant_holidays: RestaurantHoliday[];
+}
+
+interface DeliveryTimePickerProps {
+  restaurantId: string;
+  /** ISO timestamp of the chosen slot, or null for as soon as possible. */
+  value: string | null;
+  onChange: (scheduledFor: string | null) => void;
+}
+
+/** Lets the customer choose immediate delivery or a slot within the restaurant's hours. */
+const DeliveryTimePicker = ({ restaurantId, value, onChange }: DeliveryTimePickerProps) => {
+  const [schedule, setSchedule] = useState<RestaurantSchedule | null>(null);
+  const [selectedDate, setSelectedDate] = useState("");
+
+  useEffect(() => {
+    supabase
+      .from("restaurants")
+      .select("time_zone, restaurant_opening_hours(day_of_week, opens_at, closes_at), restaurant_holidays(date)")
+      .eq("id", restaurantId)
+      .gte("restaurant_holidays.date", format(subDays(new Date(), 1), "yyyy-MM-dd"))
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching opening hours:", error);
+          return;
+        }
+        setSchedule(data);
+      });
+  }, [restaurantId]);
+
+  const openingStatus = useMemo(
+    () => schedule && getOpeningStatus(schedule.restaurant_opening_hours, schedule.restaurant_holidays, schedule.time_zone),
+    [schedule]
+  );
+  const days = useMemo(
+    () => (schedule ? getScheduleSlots(schedule.restaurant_opening_hours, schedule.restaurant_holidays, schedule.time_zone) : []),
+    [schedule]
+  );
+
+  const selectSlot = (date: string) => {
+    setSelectedDate(date);
+    onChange(days.find((day) => day.date === date)?.slots[0]?.value ?? null);
+  };
+
+  // A closed restaurant only takes scheduled orders, so preselect its first slot
+  useEffect(() => {
+    if (openingStatus && !openingStatus.isOpen && !value && days.length > 0) {
+      setSelectedDate(days[0].date);
+      onChange(days[0].slots[0].value);
+    }
+  }, [openingStatus, days]);
+
+  if (!schedule || !openingStatus) return null;
+
+  const activeDate = selectedDate || days[0]?.date || "";
+  const activeDay = days.find((day) => day.date === activeDate);
+
+  return (
+    <div className="space-y-4">
+      <RadioGroup
+        value={value ? "scheduled" : "asap"}
+        onValueChange={(mode) => (mode === "asap" ? onChange(null) : selectSlot(activeDate))}
+      >
+        <div className="flex items-center space-x-2 p-4 border rounded-lg cursor-pointer hover:bg-accent">
+          <RadioGroupItem value="asap" id="delivery-asap" disabled={!openingStatus.isOpen} />
+          <Label htmlFor="delivery-asap" className="cursor-pointer flex-1">
+            As soon as possible
+            {!openingStatus.isOpen && (
+              <span className="block text-xs font-normal text-muted-foreground">
+                Closed right now · {describeOpeningStatus(openingStatus)}
+              </span>
+            )}
+          </Label>
+        </div>
+        <div className="flex items-center space-x-2 p-4 border rounded-lg cursor-pointer hover:bg-accent">
+          <RadioGroupItem value="scheduled" id="delivery-scheduled" disabled={days.length === 0} />
+          <Label htmlFor="delivery-scheduled" className="cursor-pointer flex-1">
+            Schedule for later
+            <span className="block text-xs font-normal text-muted-foreground">
+              {days.length === 0
+                ? `No delivery slots in the next ${SCHEDULE_HORIZON_DAYS} days`
+                : `At least ${SCHEDULE_LEAD_MINUTES} minutes ahead, up to ${SCHEDULE_HORIZON_DAYS} days`}
+            </span>
+          </Label>
+        </div>
+      </RadioGroup>
+
+      {value && activeDay && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Day</Label>
+            <Select value={activeDate} onValueChange={selectSlot}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {days.map((day) => (
+                  <SelectItem key={day.date} value={day.date}>
+                    {day.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Time</Label>
+            <Select value={value} onValueChange={onChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a time" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeDay.slots.map((slot) => (
+                  <SelectItem key={slot.value} value={slot.value}>
+                    {slot.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryTimePicker;
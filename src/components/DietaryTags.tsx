@@ -0,0 +1,41 @@
+import { cn } from "@/lib/utils";
+import { ALLERGENS, DIETARY_TAGS, type Allergen, type DietaryTag } from "@/lib/dietary";
+
+interface DietaryTagsProps {
+  allergens?: Allergen[] | null;
+  dietaryTags?: DietaryTag[] | null;
+  className?: string;
+}
+
+/** Dietary labels as green chips followed by allergen icons, or a note that allergens are not declared. */
+const DietaryTags = ({ allergens, dietaryTags, className }: DietaryTagsProps) => {
+  const tags = DIETARY_TAGS.filter(({ key }) => dietaryTags?.includes(key));
+  const contains = ALLERGENS.filter(({ key }) => allergens?.includes(key));
+  const isUndeclared = allergens === null;
+
+  if (tags.length === 0 && contains.length === 0 && !isUndeclared) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1.5 text-xs", className)}>
+      {tags.map(({ key, label, icon: Icon }) => (
+        <span key={key} className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-0.5 text-primary">
+          <Icon className="w-3 h-3" />
+          {label}
+        </span>
+      ))}
+      {contains.map(({ key, label, icon: Icon }) => (
+        <span
+          key={key}
+          title={`Contains ${label.toLowerCase()}`}
+          aria-label={`Contains ${label.toLowerCase()}`}
+          className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-amber-500/15 text-amber-700"
+        >
+          <Icon className="w-3 h-3" />
+        </span>
+      ))}
+      {isUndeclared && <span className="text-muted-foreground">Allergens not declared</span>}
+    </div>
+  );
+};
+
+export default DietaryTags;
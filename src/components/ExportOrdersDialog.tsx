@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { format, isValid, parse } from "date-fns";
+import { FileJson, FileSpreadsheet } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { downloadFile } from "@/lib/download";
+import { fetchOrderHistory, toOrderHistoryCsv, toOrderHistoryJson } from "@/lib/order-export";
+
+type ExportFormat = "csv" | "json";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+interface ExportOrdersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: string;
+  /** The range the dialog starts with, e.g. the month being viewed. */
+  defaultFrom: Date;
+  defaultTo: Date;
+}
+
+const ExportOrdersDialog = ({ open, onOpenChange, customerId, defaultFrom, defaultTo }: ExportOrdersDialogProps) => {
+  const [from, setFrom] = useState(() => format(defaultFrom, DATE_FORMAT));
+  const [to, setTo] = useState(() => format(defaultTo, DATE_FORMAT));
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const fromDate = parse(from, DATE_FORMAT, new Date());
+    const toDate = parse(to, DATE_FORMAT, new Date());
+    if (!isValid(fromDate) || !isValid(toDate) || fromDate > toDate) {
+      toast.error("Choose a start date on or before the end date");
+      return;
+    }
+
+    setExporting(exportFormat);
+    try {
+      const orders = await fetchOrderHistory(customerId, fromDate, toDate);
+      if (orders.length === 0) {
+        toast.info("No orders in that period");
+        return;
+      }
+
+      const filename = `foodwise-orders-${from}-to-${to}.${exportFormat}`;
+      if (exportFormat === "csv") {
+        downloadFile(toOrderHistoryCsv(orders), filename, "text/csv;charset=utf-8");
+      } else {
+        downloadFile(toOrderHistoryJson(orders, fromDate, toDate), filename, "application/json");
+      }
+      toast.success(`Exported ${orders.length} ${orders.length === 1 ? "order" : "orders"}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error exporting orders:", error);
+      toast.error("Failed to export orders");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Order History</DialogTitle>
+          <DialogDescription>
+            CSV has one row per item for spreadsheets; JSON keeps each order with its items. Both include the
+            nutrition recorded when you ordered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-from">From</Label>
+            <Input id="export-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-to">To</Label>
+            <Input id="export-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" className="gap-2" onClick={() => handleExport("json")} disabled={!!exporting}>
+            <FileJson className="w-4 h-4" />
+            {exporting === "json" ? "Exporting..." : "Download JSON"}
+          </Button>
+          <Button className="gap-2" onClick={() => handleExport("csv")} disabled={!!exporting}>
+            <FileSpreadsheet className="w-4 h-4" />
+            {exporting === "csv" ? "Exporting..." : "Download CSV"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportOrdersDialog;
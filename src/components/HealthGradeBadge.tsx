@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+import { HEALTH_GRADE_LABELS, type HealthGrade } from "@/lib/health-score";
+
+const GRADE_STYLES: Record<HealthGrade, string> = {
+  A: "bg-green-700 text-white",
+  B: "bg-green-500 text-white",
+  C: "bg-yellow-400 text-yellow-950",
+  D: "bg-orange-500 text-white",
+  E: "bg-red-600 text-white",
+};
+
+interface HealthGradeBadgeProps {
+  grade: HealthGrade | null | undefined;
+  showLabel?: boolean;
+  className?: string;
+}
+
+const HealthGradeBadge = ({ grade, showLabel = false, className }: HealthGradeBadgeProps) => {
+  if (!grade) return null;
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1.5 text-xs font-medium", className)}
+      title={`Health grade ${grade}: ${HEALTH_GRADE_LABELS[grade]}`}
+    >
+      <span className={cn("inline-flex h-5 w-5 items-center justify-center rounded font-bold", GRADE_STYLES[grade])}>
+        {grade}
+      </span>
+      {showLabel && <span className="text-muted-foreground">{HEALTH_GRADE_LABELS[grade]}</span>}
+    </span>
+  );
+};
+
+export default HealthGradeBadge;
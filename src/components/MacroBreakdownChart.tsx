@@ -0,0 +1,59 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { formatNutrient, getMacroCalories, type Nutrients } from "@/lib/nutrition";
+
+const chartConfig = {
+  grams: { label: "Grams", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface MacroBreakdownChartProps {
+  nutrients: Nutrients;
+}
+
+const MacroBreakdownChart = ({ nutrients }: MacroBreakdownChartProps) => {
+  const data = [
+    { nutrient: "Protein", grams: Math.round(nutrients.protein_g) },
+    { nutrient: "Carbs", grams: Math.round(nutrients.carbohydrates_g) },
+    { nutrient: "Fat", grams: Math.round(nutrients.fat_g) },
+    { nutrient: "Fibre", grams: Math.round(nutrients.fibre_g) },
+    { nutrient: "Sugar", grams: Math.round(nutrients.sugar_g) },
+  ];
+
+  const macroCalories = getMacroCalories(nutrients);
+  const macroTotal = macroCalories.protein + macroCalories.carbohydrates + macroCalories.fat;
+  const share = (calories: number) => (macroTotal > 0 ? Math.round((calories / macroTotal) * 100) : 0);
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig} className="h-[250px] w-full aspect-auto">
+        <BarChart data={data}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="nutrient" tickLine={false} axisLine={false} />
+          <YAxis tickLine={false} axisLine={false} unit="g" width={48} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="grams" fill="var(--color-grams)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+        <div className="p-3 bg-primary/10 rounded-lg">
+          <p className="text-sm text-muted-foreground">Protein energy</p>
+          <p className="text-xl font-bold">{share(macroCalories.protein)}%</p>
+        </div>
+        <div className="p-3 bg-secondary/10 rounded-lg">
+          <p className="text-sm text-muted-foreground">Carb energy</p>
+          <p className="text-xl font-bold">{share(macroCalories.carbohydrates)}%</p>
+        </div>
+        <div className="p-3 bg-accent/10 rounded-lg">
+          <p className="text-sm text-muted-foreground">Fat energy</p>
+          <p className="text-xl font-bold">{share(macroCalories.fat)}%</p>
+        </div>
+        <div className="p-3 bg-muted rounded-lg">
+          <p className="text-sm text-muted-foreground">Sodium</p>
+          <p className="text-xl font-bold">{formatNutrient("sodium_mg", nutrients.sodium_mg)}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MacroBreakdownChart;
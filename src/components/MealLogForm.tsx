@@ -0,0 +1,164 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { getNutrient } from "@/lib/nutrition";
+import { MEAL_LOG_MACROS, type MealLog } from "@/lib/meal-logs";
+
+// datetime-local inputs are in the user's own time zone
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// Macros are optional; an empty input is stored as "not provided"
+const optionalMacro = z.preprocess(
+  (value) => (value === "" || value === null ? undefined : value),
+  z.coerce.number().nonnegative("Must be 0 or more").max(1000).optional()
+);
+
+const mealLogSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  calories: z.coerce.number().int("Calories must be a whole number").min(0, "Must be 0 or more").max(10000),
+  protein_g: optionalMacro,
+  carbohydrates_g: optionalMacro,
+  fat_g: optionalMacro,
+  is_healthy: z.boolean(),
+  eaten_at: z
+    .string()
+    .min(1, "When did you eat this?")
+    .refine((value) => new Date(value) <= new Date(), "Can't be in the future"),
+});
+
+export type MealLogFormValues = z.infer<typeof mealLogSchema>;
+
+interface MealLogFormProps {
+  log?: MealLog | null;
+  submitLabel: string;
+  onSubmit: (values: MealLogFormValues) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const MealLogForm = ({ log, submitLabel, onSubmit, onCancel }: MealLogFormProps) => {
+  const form = useForm<MealLogFormValues>({
+    resolver: zodResolver(mealLogSchema),
+    defaultValues: {
+      name: log?.name ?? "",
+      calories: log?.calories ?? ("" as unknown as number),
+      is_healthy: log?.is_healthy ?? false,
+      eaten_at: format(log ? new Date(log.eaten_at) : new Date(), DATETIME_LOCAL_FORMAT),
+      ...Object.fromEntries(MEAL_LOG_MACROS.map((key) => [key, log?.[key] ?? ""])),
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>What did you eat?</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Dal, rice and salad" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="calories"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Calories</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="eaten_at"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Eaten At</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" max={format(new Date(), DATETIME_LOCAL_FORMAT)} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          {MEAL_LOG_MACROS.map((key) => {
+            const nutrient = getNutrient(key);
+            return (
+              <FormField
+                key={key}
+                control={form.control}
+                name={key}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {nutrient?.label} ({nutrient?.unit})
+                    </FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.1" placeholder="Optional" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            );
+          })}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="is_healthy"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Healthy meal</FormLabel>
+                <FormDescription>Your own judgement, e.g. home-cooked with plenty of vegetables.</FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default MealLogForm;
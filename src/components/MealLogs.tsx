@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Leaf, NotebookPen, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import MealLogForm, { type MealLogFormValues } from "@/components/MealLogForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { formatNutrient, getNutrient } from "@/lib/nutrition";
+import { fetchMealLogs, MEAL_LOG_MACROS, toMealLogPayload, type MealLog } from "@/lib/meal-logs";
+
+interface MealLogsProps {
+  userId: string;
+  /** Called after a meal is logged, edited or deleted so totals can be refreshed. */
+  onChanged: () => void;
+}
+
+const MealLogs = ({ userId, onChanged }: MealLogsProps) => {
+  const [logs, setLogs] = useState<MealLog[]>([]);
+  const [editingLog, setEditingLog] = useState<MealLog | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingLog, setDeletingLog] = useState<MealLog | null>(null);
+
+  useEffect(() => {
+    loadLogs();
+  }, [userId]);
+
+  const loadLogs = async () => {
+    // Same 30 days as the rest of the dashboard
+    const thirtyDaysAgo = new Date();
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+    try {
+      setLogs(await fetchMealLogs(userId, thirtyDaysAgo));
+    } catch (error) {
+      console.error("Error fetching meal logs:", error);
+      toast.error("Failed to load logged meals");
+    }
+  };
+
+  const openForm = (log: MealLog | null) => {
+    setEditingLog(log);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (values: MealLogFormValues) => {
+    const payload = toMealLogPayload(values);
+
+    const { error } = editingLog
+      ? await supabase.from("meal_logs").update(payload).eq("id", editingLog.id)
+      : await supabase.from("meal_logs").insert([{ ...payload, user_id: userId }]);
+
+    if (error) {
+      toast.error(error.message || "Failed to save meal");
+      return;
+    }
+
+    toast.success(editingLog ? "Meal updated" : "Meal logged");
+    setIsFormOpen(false);
+    loadLogs();
+    onChanged();
+  };
+
+  const handleDelete = async () => {
+    if (!deletingLog) return;
+
+    const { error } = await supabase.from("meal_logs").delete().eq("id", deletingLog.id);
+
+    if (error) {
+      toast.error("Failed to delete meal");
+    } else {
+      toast.success("Meal deleted");
+      loadLogs();
+      onChanged();
+    }
+    setDeletingLog(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <NotebookPen className="w-5 h-5 text-primary" />
+            Logged Meals
+          </CardTitle>
+          <CardDescription>
+            Food you ate outside FoodWise. It counts towards your calories and macros, but not your orders or spending.
+          </CardDescription>
+        </div>
+        <Button size="sm" className="gap-2" onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4" />
+          Log a Meal
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {logs.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">
+            Nothing logged in the last 30 days. Log home-cooked meals and snacks for a complete picture.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {logs.map((log) => {
+              const macros = MEAL_LOG_MACROS.filter((key) => log[key] != null).map(
+                (key) => `${getNutrient(key)?.shortLabel} ${formatNutrient(key, log[key])}`
+              );
+              return (
+                <div key={log.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium truncate">{log.name}</span>
+                      <Badge variant="outline">Logged</Badge>
+                      {log.is_healthy && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Leaf className="w-3 h-3" />
+                          Healthy
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(log.eaten_at), "MMM d, h:mm a")} · {log.calories} cal
+                      {macros.length > 0 && ` · ${macros.join(" · ")}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button variant="ghost" size="icon" aria-label={`Edit ${log.name}`} onClick={() => openForm(log)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Delete ${log.name}`}
+                      onClick={() => setDeletingLog(log)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingLog ? `Edit ${editingLog.name}` : "Log a Meal"}</DialogTitle>
+            <DialogDescription>Only calories are required. Check the packet or a nutrition app for values.</DialogDescription>
+          </DialogHeader>
+          <MealLogForm
+            key={editingLog?.id ?? "new"}
+            log={editingLog}
+            submitLabel={editingLog ? "Save Changes" : "Log Meal"}
+            onSubmit={handleSave}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingLog} onOpenChange={(open) => !open && setDeletingLog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingLog?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will no longer count towards your calories, macros or daily goals.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default MealLogs;
@@ -0,0 +1,255 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import type { Tables } from "@/integrations/supabase/types";
+import HealthGradeBadge from "@/components/HealthGradeBadge";
+import { NUTRIENTS } from "@/lib/nutrition";
+import { ALLERGENS, DIETARY_TAGS, normaliseDietaryTags } from "@/lib/dietary";
+import { computeHealthScore } from "@/lib/health-score";
+import { menuItemSchema, type MenuItemFormValues } from "@/lib/menu";
+
+interface MenuItemFormProps {
+  item?: Tables<"menu_items"> | null;
+  categories: string[];
+  submitLabel: string;
+  onSubmit: (values: MenuItemFormValues) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const MenuItemForm = ({ item, categories, submitLabel, onSubmit, onCancel }: MenuItemFormProps) => {
+  const form = useForm<MenuItemFormValues>({
+    resolver: zodResolver(menuItemSchema),
+    defaultValues: {
+      name: item?.name ?? "",
+      description: item?.description ?? "",
+      category: item?.category ?? categories[0] ?? "",
+      price: item?.price ?? ("" as unknown as number),
+      calories: item?.calories ?? ("" as unknown as number),
+      image_url: item?.image_url ?? "",
+      allergens: item?.allergens ?? [],
+      dietary_tags: item?.dietary_tags ?? [],
+      ...Object.fromEntries(
+        NUTRIENTS.map(({ key }) => [key, item?.[key] ?? ""])
+      ),
+    },
+  });
+
+  const values = form.watch();
+  const toNumber = (value: unknown) => (value === "" || value == null ? null : Number(value));
+  const healthScore = computeHealthScore({
+    calories: toNumber(values.calories),
+    sugar_g: toNumber(values.sugar_g),
+    sodium_mg: toNumber(values.sodium_mg),
+    fat_g: toNumber(values.fat_g),
+    protein_g: toNumber(values.protein_g),
+    fibre_g: toNumber(values.fibre_g),
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Grilled Paneer Salad" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={2} placeholder="What's in this dish?" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <FormControl>
+                <Input list="menu-categories" placeholder="e.g., Mains" {...field} />
+              </FormControl>
+              <datalist id="menu-categories">
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Price (₹)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="calories"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Calories</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div>
+          <p className="text-sm font-medium mb-2">Nutrition per serving (Optional)</p>
+          <div className="grid grid-cols-3 gap-4">
+            {NUTRIENTS.map((nutrient) => (
+              <FormField
+                key={nutrient.key}
+                control={form.control}
+                name={nutrient.key}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">
+                      {nutrient.label} ({nutrient.unit})
+                    </FormLabel>
+                    <FormControl>
+                      <Input type="number" step={nutrient.unit === "mg" ? "1" : "0.1"} min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </div>
+        <FormField
+          control={form.control}
+          name="image_url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Image URL</FormLabel>
+              <FormControl>
+                <Input type="url" placeholder="https://..." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="dietary_tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Dietary labels</FormLabel>
+              <div className="flex flex-wrap gap-4">
+                {DIETARY_TAGS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value.includes(key)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          normaliseDietaryTags(
+                            checked ? [...field.value, key] : field.value.filter((tag) => tag !== key)
+                          )
+                        )
+                      }
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="allergens"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Contains allergens</FormLabel>
+              {item && !item.allergens && (
+                <FormDescription>
+                  Allergens have not been declared for this dish yet. Tick every allergen it contains; saving declares
+                  the rest as absent.
+                </FormDescription>
+              )}
+              <div className="grid grid-cols-3 gap-2">
+                {ALLERGENS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value.includes(key)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked ? [...field.value, key] : field.value.filter((allergen) => allergen !== key)
+                        )
+                      }
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex items-center justify-between gap-3 rounded-lg border p-4">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Health grade</p>
+            <p className="text-sm text-muted-foreground">
+              {healthScore
+                ? "Calculated from calories, sugar, sodium, fat, protein and fibre per serving"
+                : "Enter calories, sugar, sodium and fat to grade this dish. Ungraded dishes are not shown as healthy."}
+            </p>
+          </div>
+          <HealthGradeBadge grade={healthScore?.grade} showLabel />
+        </div>
+        <div className="flex justify-end gap-2 pt-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default MenuItemForm;
@@ -1,6 +1,6 @@
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Utensils, User, LogOut, LayoutDashboard, Heart, ShoppingBag } from "lucide-react";
+import { Utensils, User, LogOut, LayoutDashboard, Heart, ShoppingBag, Store } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import {
@@ -73,11 +73,16 @@ const Navbar = ({ user, isRestaurantOwner }: NavbarProps) => {
                       {user.email}
                     </div>
                     <DropdownMenuSeparator />
-                    {isRestaurantOwner && (
+                    {isRestaurantOwner ? (
                       <DropdownMenuItem onClick={() => navigate("/restaurant-dashboard")}>
                         <LayoutDashboard className="w-4 h-4 mr-2" />
                         Restaurant Dashboard
                       </DropdownMenuItem>
+                    ) : (
+                      <DropdownMenuItem onClick={() => navigate("/restaurant-onboarding")}>
+                        <Store className="w-4 h-4 mr-2" />
+                        Register Your Restaurant
+                      </DropdownMenuItem>
                     )}
                     <DropdownMenuItem onClick={handleSignOut} className="text-destructive">
                       <LogOut className="w-4 h-4 mr-2" />
@@ -0,0 +1,41 @@
+import { MACRO_KEYS, NUTRIENTS, formatNutrient, type NutrientValues } from "@/lib/nutrition";
+import { cn } from "@/lib/utils";
+
+interface NutrientSummaryProps {
+  nutrients: NutrientValues;
+  compact?: boolean;
+  className?: string;
+}
+
+/** Inline macro line for menu cards (`compact`) or a nutrient grid for totals. */
+const NutrientSummary = ({ nutrients, compact, className }: NutrientSummaryProps) => {
+  if (compact) {
+    const macros = NUTRIENTS.filter(
+      ({ key }) => MACRO_KEYS.includes(key) && nutrients[key] !== null && nutrients[key] !== undefined
+    );
+    if (macros.length === 0) return null;
+
+    return (
+      <div className={cn("flex items-center gap-3 text-xs text-muted-foreground", className)}>
+        {macros.map(({ key, label }) => (
+          <span key={key}>
+            {label} <span className="font-medium text-foreground">{formatNutrient(key, nutrients[key])}</span>
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("grid grid-cols-3 gap-2 text-xs", className)}>
+      {NUTRIENTS.map(({ key, label }) => (
+        <div key={key} className="rounded-md bg-muted/60 px-2 py-1 text-center">
+          <p className="text-muted-foreground">{label}</p>
+          <p className="font-semibold">{formatNutrient(key, nutrients[key])}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NutrientSummary;
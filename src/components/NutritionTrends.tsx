@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowDownRight, ArrowUpRight, CalendarIcon, Minus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  fetchNutritionTrends,
+  fetchWeekOverWeek,
+  formatPeriod,
+  getRangeForDays,
+  percentChange,
+  TREND_BUCKETS,
+  TREND_RANGES,
+  type NutritionTotals,
+  type TrendBucket,
+  type TrendPoint,
+  type TrendRangeKey,
+} from "@/lib/nutrition-trends";
+
+const chartConfig = {
+  calories: { label: "Total", color: "hsl(var(--secondary))" },
+  logged_calories: { label: "Logged meals", color: "hsl(var(--muted-foreground))" },
+  order_count: { label: "Orders", color: "hsl(var(--primary))" },
+  healthy_spend: { label: "Healthy", color: "hsl(158, 64%, 52%)" },
+  junk_spend: { label: "Junk", color: "hsl(0, 84%, 60%)" },
+} satisfies ChartConfig;
+
+// Which direction counts as an improvement for each comparison
+const COMPARISONS: { key: keyof NutritionTotals; label: string; format: (value: number) => string; better?: "up" | "down" }[] = [
+  { key: "order_count", label: "Orders", format: (value) => value.toString() },
+  { key: "calories", label: "Calories", format: (value) => value.toLocaleString(), better: "down" },
+  { key: "healthy_spend", label: "Healthy spend", format: (value) => `₹${value.toFixed(2)}`, better: "up" },
+  { key: "junk_spend", label: "Junk spend", format: (value) => `₹${value.toFixed(2)}`, better: "down" },
+];
+
+interface NutritionTrendsProps {
+  /** Change to reload the charts, e.g. after a meal is logged. */
+  refreshKey?: number;
+}
+
+const NutritionTrends = ({ refreshKey = 0 }: NutritionTrendsProps) => {
+  const [rangeKey, setRangeKey] = useState<TrendRangeKey>("30");
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [bucket, setBucket] = useState<TrendBucket>("day");
+  const [points, setPoints] = useState<TrendPoint[]>([]);
+  const [weekOverWeek, setWeekOverWeek] = useState<{ current: NutritionTotals; previous: NutritionTotals } | null>(null);
+
+  const preset = TREND_RANGES.find(({ key }) => key === rangeKey);
+  const range = preset?.days ? getRangeForDays(preset.days) : customRange;
+  const fromKey = range?.from ? format(range.from, "yyyy-MM-dd") : null;
+  const toKey = range?.to ? format(range.to, "yyyy-MM-dd") : null;
+
+  useEffect(() => {
+    fetchWeekOverWeek()
+      .then(setWeekOverWeek)
+      .catch((error) => console.error("Error loading weekly comparison:", error));
+  }, [refreshKey]);
+
+  useEffect(() => {
+    if (!fromKey || !toKey) return;
+
+    let cancelled = false;
+    fetchNutritionTrends({ from: new Date(`${fromKey}T00:00:00`), to: new Date(`${toKey}T00:00:00`), bucket })
+      .then((data) => {
+        if (!cancelled) setPoints(data);
+      })
+      .catch((error) => {
+        console.error("Error loading trends:", error);
+        toast.error(error.message || "Failed to load trends");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fromKey, toKey, bucket, refreshKey]);
+
+  const data = points.map((point) => ({ ...point, label: formatPeriod(point.period_start, bucket) }));
+
+  return (
+    <div className="space-y-6">
+      {weekOverWeek && (
+        <Card>
+          <CardHeader>
+            <CardTitle>This Week vs Last Week</CardTitle>
+            <CardDescription>The last 7 days compared with the 7 days before</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {COMPARISONS.map(({ key, label, format: formatValue, better }) => {
+              const current = weekOverWeek.current[key];
+              const change = percentChange(current, weekOverWeek.previous[key]);
+              const improved = change !== null && better && (better === "up" ? change > 0 : change < 0);
+              const worse = change !== null && better && (better === "up" ? change < 0 : change > 0);
+              const Icon = change === null || change === 0 ? Minus : change > 0 ? ArrowUpRight : ArrowDownRight;
+              return (
+                <div key={key} className="p-3 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-2xl font-bold">{formatValue(current)}</p>
+                  <p
+                    className={cn(
+                      "text-xs flex items-center gap-1 text-muted-foreground",
+                      improved && "text-primary",
+                      worse && "text-destructive"
+                    )}
+                  >
+                    <Icon className="w-3 h-3" />
+                    {change === null ? "No data last week" : `${Math.abs(change).toFixed(0)}% vs last week`}
+                  </p>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Trends</CardTitle>
+            <CardDescription>
+              How your calories, spending and orders change over time. Calories include meals you logged yourself.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={rangeKey} onValueChange={(value) => setRangeKey(value as TrendRangeKey)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TREND_RANGES.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {rangeKey === "custom" && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="gap-2 font-normal">
+                    <CalendarIcon className="w-4 h-4" />
+                    {customRange?.from
+                      ? `${format(customRange.from, "MMM d, yyyy")} – ${
+                          customRange.to ? format(customRange.to, "MMM d, yyyy") : "…"
+                        }`
+                      : "Pick dates"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={customRange}
+                    onSelect={setCustomRange}
+                    disabled={{ after: new Date() }}
+                    numberOfMonths={2}
+                  />
+                </PopoverContent>
+              </Popover>
+            )}
+            <Select value={bucket} onValueChange={(value) => setBucket(value as TrendBucket)}>
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TREND_BUCKETS.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          {!range?.from || !range?.to ? (
+            <p className="text-center text-muted-foreground py-12">Pick a start and end date to see your trends</p>
+          ) : (
+            <>
+              <div className="grid lg:grid-cols-2 gap-6">
+                <div>
+                  <h4 className="font-semibold mb-2">Calories</h4>
+                  <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+                    <LineChart data={data}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis tickLine={false} axisLine={false} width={48} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line dataKey="calories" type="monotone" stroke="var(--color-calories)" strokeWidth={2} dot={false} />
+                      <Line
+                        dataKey="logged_calories"
+                        type="monotone"
+                        stroke="var(--color-logged_calories)"
+                        strokeWidth={2}
+                        strokeDasharray="4 4"
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+                <div>
+                  <h4 className="font-semibold mb-2">Orders</h4>
+                  <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+                    <LineChart data={data}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line
+                        dataKey="order_count"
+                        type="monotone"
+                        stroke="var(--color-order_count)"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              </div>
+              <div>
+                <h4 className="font-semibold mb-2">Healthy vs Junk Spending</h4>
+                <ChartContainer config={chartConfig} className="h-[260px] w-full aspect-auto">
+                  <BarChart data={data}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={56} unit="₹" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="healthy_spend" stackId="spend" fill="var(--color-healthy_spend)" />
+                    <Bar dataKey="junk_spend" stackId="spend" fill="var(--color-junk_spend)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default NutritionTrends;
@@ -0,0 +1,22 @@
+import { cn } from "@/lib/utils";
+import { describeOpeningStatus, type OpeningStatus } from "@/lib/opening-hours";
+
+interface OpeningStatusBadgeProps {
+  status: OpeningStatus;
+  className?: string;
+}
+
+const OpeningStatusBadge = ({ status, className }: OpeningStatusBadgeProps) => (
+  <span
+    className={cn(
+      "inline-flex items-center gap-1.5 text-xs font-medium",
+      status.isOpen ? "text-primary" : "text-destructive",
+      className
+    )}
+  >
+    <span className={cn("h-2 w-2 rounded-full", status.isOpen ? "bg-primary" : "bg-destructive")} />
+    {describeOpeningStatus(status)}
+  </span>
+);
+
+export default OpeningStatusBadge;
@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { CalendarClock, Clock, CreditCard, MapPin } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { getStatusColor, ORDER_STATUS_LABELS, updateOrderStatus, type OrderStatus } from "@/lib/order-status";
+import { formatScheduledFor, isUpcomingScheduledOrder } from "@/lib/scheduling";
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from "@/lib/payments";
+
+interface BoardOrderItem {
+  id: string;
+  quantity: number;
+  menu_items: {
+    name: string;
+  };
+}
+
+interface BoardOrder {
+  id: string;
+  created_at: string;
+  status: OrderStatus;
+  total_amount: number;
+  delivery_address: string;
+  delivery_instructions: string | null;
+  scheduled_for: string | null;
+  payment_method: PaymentMethod;
+  order_items: BoardOrderItem[];
+}
+
+interface BoardAction {
+  to: OrderStatus;
+  label: string;
+  variant?: "default" | "destructive" | "outline";
+}
+
+const BOARD_COLUMNS: { status: OrderStatus; title: string }[] = [
+  { status: "pending", title: "New" },
+  { status: "confirmed", title: "Accepted" },
+  { status: "preparing", title: "Preparing" },
+  { status: "on_the_way", title: "Out for Delivery" },
+];
+
+const BOARD_ACTIONS: Partial<Record<OrderStatus, BoardAction[]>> = {
+  pending: [
+    { to: "confirmed", label: "Accept" },
+    { to: "cancelled", label: "Reject", variant: "destructive" },
+  ],
+  confirmed: [{ to: "preparing", label: "Start Preparing" }],
+  preparing: [{ to: "on_the_way", label: "Hand Off" }],
+  on_the_way: [{ to: "delivered", label: "Mark Delivered", variant: "outline" }],
+};
+
+interface OrderBoardProps {
+  restaurantId: string;
+}
+
+const OrderBoard = ({ restaurantId }: OrderBoardProps) => {
+  const [orders, setOrders] = useState<BoardOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  const fetchOrders = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("orders")
+      .select(`
+        id,
+        created_at,
+        status,
+        total_amount,
+        delivery_address,
+        delivery_instructions,
+        scheduled_for,
+        payment_method,
+        order_items (
+          id,
+          quantity,
+          menu_items (
+            name
+          )
+        )
+      `)
+      .eq("restaurant_id", restaurantId)
+      .in("status", BOARD_COLUMNS.map((column) => column.status))
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching orders:", error);
+      toast.error("Failed to load orders");
+    } else {
+      setOrders(data as BoardOrder[]);
+    }
+    setLoading(false);
+  }, [restaurantId]);
+
+  useEffect(() => {
+    fetchOrders();
+
+    // Nested order items are not part of the change payload, so refetch on every change
+    const channel = supabase
+      .channel(`restaurant-orders-${restaurantId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "orders", filter: `restaurant_id=eq.${restaurantId}` },
+        (payload) => {
+          // Card and UPI orders arrive once their payment is captured
+          if (
+            (payload.eventType === "INSERT" && payload.new.status === "pending") ||
+            (payload.eventType === "UPDATE" && payload.new.status === "pending" && payload.old.status === "awaiting_payment")
+          ) {
+            toast.success("New order received!");
+          }
+          if (
+            payload.eventType === "UPDATE" &&
+            payload.new.status === "cancelled" &&
+            !["cancelled", "awaiting_payment"].includes(payload.old.status) &&
+            payload.new.cancelled_by === "customer"
+          ) {
+            toast.error(`Order #${payload.new.id.slice(0, 8)} was cancelled by the customer`, {
+              description: payload.new.cancellation_reason ?? undefined,
+            });
+          }
+          fetchOrders();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [restaurantId, fetchOrders]);
+
+  // Scheduled orders move onto the board once they fall due
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleAction = async (order: BoardOrder, to: OrderStatus) => {
+    setUpdatingOrderId(order.id);
+    try {
+      await updateOrderStatus(order.id, order.status, to);
+      toast.success(`Order marked as ${ORDER_STATUS_LABELS[to].toLowerCase()}`);
+      await fetchOrders();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update order");
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  const renderOrderCard = (order: BoardOrder) => (
+    <Card key={order.id}>
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-sm flex justify-between">
+          <span>#{order.id.slice(0, 8)}</span>
+          <span>₹{Number(order.total_amount).toFixed(2)}</span>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          {format(new Date(order.created_at), "hh:mm a")}
+        </p>
+        {order.scheduled_for && (
+          <p className="text-xs font-medium text-primary flex items-center gap-1">
+            <CalendarClock className="w-3 h-3" />
+            Deliver {formatScheduledFor(order.scheduled_for)}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2 text-sm">
+        <ul className="space-y-1">
+          {order.order_items.map((item) => (
+            <li key={item.id} className="flex justify-between">
+              <span>{item.menu_items.name}</span>
+              <span className="font-semibold">× {item.quantity}</span>
+            </li>
+          ))}
+        </ul>
+        <Separator />
+        <p className="flex items-center gap-1 text-muted-foreground">
+          <CreditCard className="w-4 h-4 flex-shrink-0" />
+          {order.payment_method === "cod" ? "Collect cash on delivery" : `Paid by ${PAYMENT_METHOD_LABELS[order.payment_method]}`}
+        </p>
+        <p className="flex items-start gap-1 text-muted-foreground">
+          <MapPin className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          {order.delivery_address}
+        </p>
+        {order.delivery_instructions && (
+          <p className="text-muted-foreground">
+            <span className="font-medium">Note:</span> {order.delivery_instructions}
+          </p>
+        )}
+        <div className="flex gap-2 pt-2">
+          {BOARD_ACTIONS[order.status]?.map((action) => (
+            <Button
+              key={action.to}
+              size="sm"
+              variant={action.variant}
+              className="flex-1"
+              disabled={updatingOrderId === order.id}
+              onClick={() => handleAction(order, action.to)}
+            >
+              {action.label}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  if (loading) {
+    return <p className="text-muted-foreground text-center py-12">Loading orders...</p>;
+  }
+
+  const scheduledOrders = orders
+    .filter((order) => isUpcomingScheduledOrder(order, now))
+    .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for));
+  const liveOrders = orders.filter((order) => !isUpcomingScheduledOrder(order, now));
+
+  return (
+    <div className="space-y-6">
+      {scheduledOrders.length > 0 && (
+        <div className="bg-muted/40 rounded-lg p-3">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold flex items-center gap-2">
+              <CalendarClock className="w-4 h-4" />
+              Scheduled
+            </h3>
+            <Badge variant="secondary">{scheduledOrders.length}</Badge>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3">
+            {scheduledOrders.map(renderOrderCard)}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {BOARD_COLUMNS.map(({ status, title }) => {
+          const columnOrders = liveOrders.filter((order) => order.status === status);
+          return (
+            <div key={status} className="bg-muted/40 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${getStatusColor(status)}`} />
+                  {title}
+                </h3>
+                <Badge variant="secondary">{columnOrders.length}</Badge>
+              </div>
+              <div className="space-y-3">
+                {columnOrders.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No orders</p>
+                ) : (
+                  columnOrders.map(renderOrderCard)
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OrderBoard;
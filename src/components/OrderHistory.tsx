@@ -0,0 +1,367 @@
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import { ChevronLeft, ChevronRight, History, RotateCcw, Search, Send } from "lucide-react";
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import RefundDialog, { type RefundingOrder } from "@/components/RefundDialog";
+import { getStatusColor, ORDER_STATUS_LABELS, type OrderStatus } from "@/lib/order-status";
+import { getIdPrefixRange } from "@/lib/orders";
+import { PAYMENT_METHOD_LABELS, type PaymentStatus } from "@/lib/payments";
+import { getKeptQuantity, getRefundableAmount, REFUND_STATUS_LABELS, sendRefund, type RefundStatus } from "@/lib/refunds";
+
+interface HistoryOrder extends RefundingOrder {
+  created_at: string;
+  status: OrderStatus;
+  restaurants: { name: string } | null;
+  payments: { status: PaymentStatus }[];
+  refunds: {
+    id: string;
+    amount: number;
+    reason: string;
+    status: RefundStatus;
+    created_at: string;
+    payments: { provider_reference: string | null } | null;
+  }[];
+}
+
+type HistoryRefund = HistoryOrder["refunds"][number];
+
+const PAGE_SIZE = 20;
+
+// Radix selects cannot have an empty value
+const ALL_RESTAURANTS = "all";
+
+interface HistoryFilters {
+  orderId: string;
+  restaurantId: string;
+  /** yyyy-MM-dd, inclusive; empty for no limit. */
+  from: string;
+  to: string;
+}
+
+const NO_FILTERS: HistoryFilters = { orderId: "", restaurantId: ALL_RESTAURANTS, from: "", to: "" };
+
+/** Whether money was taken for the order, so there is something to refund. */
+const isPaid = (order: HistoryOrder) =>
+  order.payment_method === "cod"
+    ? order.status === "delivered"
+    : order.payments.some((payment) => payment.status === "captured" || payment.status === "refunded");
+
+interface OrderHistoryProps {
+  /** Limits the list to one restaurant; admins see every restaurant's orders. */
+  restaurantId?: string;
+}
+
+/** Completed and cancelled orders, newest first and a page at a time, with refunds. */
+const OrderHistory = ({ restaurantId }: OrderHistoryProps) => {
+  const [orders, setOrders] = useState<HistoryOrder[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [draft, setDraft] = useState<HistoryFilters>(NO_FILTERS);
+  const [filters, setFilters] = useState<HistoryFilters>(NO_FILTERS);
+  const [restaurants, setRestaurants] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refunding, setRefunding] = useState<RefundingOrder | null>(null);
+  const [sendingRefundId, setSendingRefundId] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    const idRange = filters.orderId ? getIdPrefixRange(filters.orderId) : null;
+    if (filters.orderId && !idRange) {
+      setOrders([]);
+      setTotalCount(0);
+      setLoading(false);
+      return;
+    }
+
+    let query = supabase
+      .from("orders")
+      .select(`
+        id,
+        created_at,
+        status,
+        total_amount,
+        refunded_amount,
+        payment_method,
+        restaurants (name),
+        payments (status),
+        refunds (id, amount, reason, status, created_at, payments (provider_reference)),
+        order_items (
+          id,
+          quantity,
+          refunded_quantity,
+          price_at_time,
+          menu_items (name)
+        )
+      `, { count: "exact" })
+      .in("status", ["delivered", "cancelled"])
+      .order("created_at", { ascending: false })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    const restaurantFilter = restaurantId ?? (filters.restaurantId !== ALL_RESTAURANTS ? filters.restaurantId : null);
+    if (restaurantFilter) query = query.eq("restaurant_id", restaurantFilter);
+    if (idRange) query = query.gte("id", idRange.from).lte("id", idRange.to);
+    if (filters.from) query = query.gte("created_at", startOfDay(parseISO(filters.from)).toISOString());
+    if (filters.to) query = query.lte("created_at", endOfDay(parseISO(filters.to)).toISOString());
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      console.error("Error fetching order history:", error);
+      toast.error("Failed to load past orders");
+    } else {
+      setOrders(data as HistoryOrder[]);
+      setTotalCount(count ?? 0);
+    }
+    setLoading(false);
+  }, [restaurantId, filters, page]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Admins can narrow the list to any restaurant
+  useEffect(() => {
+    if (restaurantId) return;
+
+    supabase
+      .from("restaurants")
+      .select("id, name")
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) console.error("Error fetching restaurants:", error);
+        else setRestaurants(data);
+      });
+  }, [restaurantId]);
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    if (draft.orderId && !getIdPrefixRange(draft.orderId)) {
+      toast.error("Enter an order number like #1a2b3c4d");
+      return;
+    }
+    if (draft.from && draft.to && draft.from > draft.to) {
+      toast.error("Choose a start date on or before the end date");
+      return;
+    }
+    setPage(0);
+    setFilters(draft);
+  };
+
+  const clearFilters = () => {
+    setDraft(NO_FILTERS);
+    setFilters(NO_FILTERS);
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(NO_FILTERS);
+
+  // Pending refunds are opened automatically when a paid order is cancelled
+  const handleSendRefund = async (refund: HistoryRefund) => {
+    setSendingRefundId(refund.id);
+    try {
+      await sendRefund({ id: refund.id, amount: Number(refund.amount) }, refund.payments?.provider_reference ?? "");
+      toast.success(`Refunded ₹${Number(refund.amount).toFixed(2)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send refund");
+    } finally {
+      setSendingRefundId(null);
+      fetchOrders();
+    }
+  };
+
+  return (
+    <div className="mt-10">
+      <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
+        <History className="w-6 h-6" />
+        Past Orders
+      </h2>
+
+      <form onSubmit={applyFilters} className="mb-4 flex flex-wrap items-end gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="history-order-id">Order Number</Label>
+          <Input
+            id="history-order-id"
+            className="w-[160px]"
+            placeholder="#1a2b3c4d"
+            value={draft.orderId}
+            onChange={(e) => setDraft({ ...draft, orderId: e.target.value })}
+          />
+        </div>
+        {!restaurantId && (
+          <div className="space-y-2">
+            <Label>Restaurant</Label>
+            <Select value={draft.restaurantId} onValueChange={(value) => setDraft({ ...draft, restaurantId: value })}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_RESTAURANTS}>All restaurants</SelectItem>
+                {restaurants.map((restaurant) => (
+                  <SelectItem key={restaurant.id} value={restaurant.id}>
+                    {restaurant.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="history-from">From</Label>
+          <Input
+            id="history-from"
+            type="date"
+            value={draft.from}
+            max={draft.to || undefined}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="history-to">To</Label>
+          <Input
+            id="history-to"
+            type="date"
+            value={draft.to}
+            min={draft.from || undefined}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+          />
+        </div>
+        <Button type="submit" className="gap-2">
+          <Search className="w-4 h-4" />
+          Search
+        </Button>
+        {isFiltered && (
+          <Button type="button" variant="ghost" onClick={clearFilters}>
+            Clear
+          </Button>
+        )}
+      </form>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading past orders...</p>
+      ) : orders.length === 0 ? (
+        <p className="text-muted-foreground">
+          {isFiltered ? "No orders match these filters." : "No completed or cancelled orders yet."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => {
+            const hasPendingRefund = order.refunds.some((refund) => refund.status === "pending");
+            const refundable = isPaid(order) && getRefundableAmount(order) > 0 && !hasPendingRefund;
+            return (
+              <Card key={order.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <CardTitle className="text-base">
+                        #{order.id.slice(0, 8)}
+                        {!restaurantId && order.restaurants && ` · ${order.restaurants.name}`}
+                      </CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(order.created_at), "PPp")} · {PAYMENT_METHOD_LABELS[order.payment_method]}
+                      </p>
+                    </div>
+                    <Badge className={getStatusColor(order.status)}>{ORDER_STATUS_LABELS[order.status]}</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="text-sm space-y-1">
+                    {order.order_items.map((item) => (
+                      <li key={item.id} className="flex justify-between">
+                        <span>
+                          {item.quantity}x {item.menu_items?.name ?? "Item"}
+                          {item.refunded_quantity > 0 && (
+                            <span className="text-muted-foreground"> (refunded {item.quantity - getKeptQuantity(item)})</span>
+                          )}
+                        </span>
+                        <span>₹{(Number(item.price_at_time) * item.quantity).toFixed(2)}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {order.refunds.length > 0 && (
+                    <ul className="text-sm space-y-1 border-t pt-2">
+                      {order.refunds.map((refund) => (
+                        <li key={refund.id} className="flex items-center justify-between gap-3 text-muted-foreground">
+                          <span>
+                            {REFUND_STATUS_LABELS[refund.status]}: {refund.reason}
+                          </span>
+                          <span className="flex items-center gap-2">
+                            -₹{Number(refund.amount).toFixed(2)}
+                            {refund.status === "pending" && refund.payments && (
+                              <Button
+                                size="sm"
+                                className="gap-2"
+                                disabled={sendingRefundId === refund.id}
+                                onClick={() => handleSendRefund(refund)}
+                              >
+                                <Send className="w-4 h-4" />
+                                {sendingRefundId === refund.id ? "Sending..." : "Send Refund"}
+                              </Button>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="flex items-center justify-between border-t pt-2">
+                    <span className="font-semibold">
+                      ₹{Number(order.total_amount).toFixed(2)}
+                      {Number(order.refunded_amount) > 0 && (
+                        <span className="text-sm font-normal text-muted-foreground">
+                          {" "}
+                          (₹{Number(order.refunded_amount).toFixed(2)} refunded)
+                        </span>
+                      )}
+                    </span>
+                    {refundable && (
+                      <Button variant="outline" size="sm" className="gap-2" onClick={() => setRefunding(order)}>
+                        <RotateCcw className="w-4 h-4" />
+                        Issue Refund
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {totalCount > PAGE_SIZE && (
+        <div className="mt-4 flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, totalCount)} of {totalCount} orders
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="gap-1" disabled={page === 0} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="w-4 h-4" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              disabled={page + 1 >= pageCount}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <RefundDialog order={refunding} onOpenChange={(open) => !open && setRefunding(null)} onRefunded={fetchOrders} />
+    </div>
+  );
+};
+
+export default OrderHistory;
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { AlertCircle, CreditCard, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  getPaymentProvider,
+  PAYMENT_METHOD_LABELS,
+  PaymentError,
+  processPayment,
+  type PaymentMethod,
+} from "@/lib/payments";
+import { MOCK_PAYMENT_OUTCOMES, mockPaymentProvider, type MockPaymentOutcome } from "@/lib/mock-payment-provider";
+
+export interface PayingOrder {
+  id: string;
+  amount: number;
+  method: PaymentMethod;
+  restaurantName: string;
+}
+
+interface PaymentDialogProps {
+  order: PayingOrder | null;
+  onPaid: () => void;
+  /** Closing without paying leaves the order awaiting payment. */
+  onClose: () => void;
+}
+
+type PaymentState = "ready" | "authorising" | "capturing" | "failed";
+
+const PaymentDialog = ({ order, onPaid, onClose }: PaymentDialogProps) => {
+  const [state, setState] = useState<PaymentState>("ready");
+  const [failure, setFailure] = useState<string | null>(null);
+  const [mockOutcome, setMockOutcome] = useState<MockPaymentOutcome>(mockPaymentProvider.outcome);
+  const provider = getPaymentProvider();
+  const isProcessing = state === "authorising" || state === "capturing";
+
+  useEffect(() => {
+    if (order) {
+      setState("ready");
+      setFailure(null);
+    }
+  }, [order]);
+
+  const handlePay = async () => {
+    if (!order) return;
+    mockPaymentProvider.outcome = mockOutcome;
+    setFailure(null);
+    setState("authorising");
+
+    try {
+      await processPayment(order.id, { provider, onStep: setState });
+      onPaid();
+    } catch (error) {
+      setFailure(error instanceof PaymentError ? error.message : "Payment failed");
+      setState("failed");
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && !isProcessing && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CreditCard className="w-5 h-5" />
+            Pay ₹{order?.amount.toFixed(2)}
+          </DialogTitle>
+          <DialogDescription>
+            {order && `${PAYMENT_METHOD_LABELS[order.method]} payment to ${order.restaurantName}. `}
+            Your order is sent to the restaurant once the payment goes through.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isProcessing ? (
+          <div className="flex flex-col items-center gap-3 py-6 text-muted-foreground">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            <p>{state === "authorising" ? "Waiting for approval..." : "Completing payment..."}</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {failure && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <span>{failure}. You have not been charged; you can try again.</span>
+              </div>
+            )}
+            {provider === mockPaymentProvider && (
+              <div className="space-y-2">
+                <Label>Simulated outcome</Label>
+                <Select value={mockOutcome} onValueChange={(value) => setMockOutcome(value as MockPaymentOutcome)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MOCK_PAYMENT_OUTCOMES.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">No real payment is made.</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isProcessing}>
+            Pay Later
+          </Button>
+          <Button onClick={handlePay} disabled={isProcessing}>
+            {state === "failed" ? "Retry Payment" : "Pay Now"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentDialog;
@@ -0,0 +1,255 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Constants } from "@/integrations/supabase/types";
+import { PROMOTION_CODE_PATTERN } from "@/lib/promotions";
+
+const optionalAmount = z.preprocess(
+  (value) => (value === "" || value === null ? undefined : value),
+  z.coerce.number().positive("Must be greater than 0").optional()
+);
+
+// datetime-local values, in the owner's own time zone
+const optionalDateTime = z.string().optional();
+
+const promotionSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(PROMOTION_CODE_PATTERN, "Use 4-20 letters or digits, e.g. HEALTHY20"),
+  description: z.string().trim().max(120).optional(),
+  discount_type: z.enum(Constants.public.Enums.discount_type),
+  discount_value: z.coerce.number().positive("Must be greater than 0"),
+  max_discount: optionalAmount,
+  min_order_value: z.coerce.number().min(0, "Must be 0 or more"),
+  per_user_limit: z.coerce.number().int("Must be a whole number").min(1, "Must be at least 1"),
+  healthy_only: z.boolean(),
+  starts_at: optionalDateTime,
+  ends_at: optionalDateTime,
+}).superRefine((values, ctx) => {
+  if (values.discount_type === "percent" && values.discount_value > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["discount_value"], message: "Cannot be more than 100%" });
+  }
+  if (values.starts_at && values.ends_at && new Date(values.ends_at) <= new Date(values.starts_at)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ends_at"], message: "Must be after the start" });
+  }
+});
+
+export type PromotionFormValues = z.infer<typeof promotionSchema>;
+
+interface PromotionFormProps {
+  onSubmit: (values: PromotionFormValues) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const PromotionForm = ({ onSubmit, onCancel }: PromotionFormProps) => {
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: {
+      code: "",
+      description: "",
+      discount_type: "percent",
+      discount_value: "" as unknown as number,
+      max_discount: undefined,
+      min_order_value: 0,
+      per_user_limit: 1,
+      healthy_only: false,
+      starts_at: "",
+      ends_at: "",
+    },
+  });
+
+  const discountType = form.watch("discount_type");
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Code</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="e.g., HEALTHY20"
+                    maxLength={20}
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="discount_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Discount</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="flat">Flat amount</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="Shown to customers when they apply the code" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="discount_value"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{discountType === "percent" ? "Percent Off" : "Amount Off (₹)"}</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {discountType === "percent" && (
+            <FormField
+              control={form.control}
+              name="max_discount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Up to (₹)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" min="0" placeholder="No cap" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="min_order_value"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Minimum Item Total (₹)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="per_user_limit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Uses per Customer</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" min="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="starts_at"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} />
+                </FormControl>
+                <FormDescription>Leave empty to start now</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="ends_at"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} />
+                </FormControl>
+                <FormDescription>Leave empty to run until switched off</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="healthy_only"
+          render={({ field }) => (
+            <FormItem className="flex items-start gap-3 space-y-0 rounded-lg border p-4">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <div className="space-y-1">
+                <FormLabel>Healthy items only</FormLabel>
+                <FormDescription>
+                  The discount only applies to items graded A or B, and the cart must contain at least one.
+                </FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end gap-2 pt-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Saving..." : "Create Promotion"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default PromotionForm;
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from "@/lib/payments";
+import {
+  estimateRefund,
+  getKeptQuantity,
+  getRefundableAmount,
+  issueRefund,
+  REFUND_REASONS,
+  RefundError,
+  type RefundLine,
+} from "@/lib/refunds";
+
+export interface RefundingOrder {
+  id: string;
+  total_amount: number;
+  refunded_amount: number;
+  payment_method: PaymentMethod;
+  order_items: {
+    id: string;
+    quantity: number;
+    refunded_quantity: number;
+    price_at_time: number;
+    menu_items: { name: string } | null;
+  }[];
+}
+
+interface RefundDialogProps {
+  order: RefundingOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onRefunded: () => void;
+}
+
+type RefundScope = "full" | "items";
+
+const RefundDialog = ({ order, onOpenChange, onRefunded }: RefundDialogProps) => {
+  const [scope, setScope] = useState<RefundScope>("full");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState(REFUND_REASONS[0]);
+  const [details, setDetails] = useState("");
+  const [isRefunding, setIsRefunding] = useState(false);
+
+  useEffect(() => {
+    if (order) {
+      setScope("full");
+      setQuantities({});
+      setReason(REFUND_REASONS[0]);
+      setDetails("");
+    }
+  }, [order]);
+
+  const refundableAmount = order ? getRefundableAmount(order) : 0;
+  const lines: RefundLine[] = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+  const amount = scope === "full" ? refundableAmount : estimateRefund(order?.order_items ?? [], lines, refundableAmount);
+
+  const setQuantity = (itemId: string, value: string, max: number) => {
+    const quantity = Math.min(max, Math.max(0, Math.floor(Number(value) || 0)));
+    setQuantities((current) => ({ ...current, [itemId]: quantity }));
+  };
+
+  const handleRefund = async () => {
+    if (!order) return;
+    const fullReason = reason === "Other" ? details.trim() : [reason, details.trim()].filter(Boolean).join(" - ");
+    if (!fullReason) {
+      toast.error("Please give a reason for the refund");
+      return;
+    }
+    if (scope === "items" && lines.length === 0) {
+      toast.error("Choose at least one item to refund");
+      return;
+    }
+
+    setIsRefunding(true);
+    try {
+      const refund = await issueRefund(order.id, fullReason, scope === "full" ? null : lines);
+      toast.success(`Refunded ₹${refund.amount.toFixed(2)}`);
+      onOpenChange(false);
+      onRefunded();
+    } catch (error) {
+      toast.error(error instanceof RefundError ? error.message : "Failed to issue refund");
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !isRefunding && onOpenChange(open)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund order #{order?.id.slice(0, 8)}</DialogTitle>
+          <DialogDescription>
+            {order?.payment_method === "cod"
+              ? "Paid in cash: hand the refund back to the customer yourself, it is recorded here."
+              : order && `The refund goes back to the customer's ${PAYMENT_METHOD_LABELS[order.payment_method]}.`}{" "}
+            ₹{refundableAmount.toFixed(2)} can still be refunded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as RefundScope)}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="full" id="refund-full" />
+              <Label htmlFor="refund-full" className="font-normal cursor-pointer">
+                Refund the whole order
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="items" id="refund-items" />
+              <Label htmlFor="refund-items" className="font-normal cursor-pointer">
+                Refund some items
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {scope === "items" && (
+            <div className="space-y-2 rounded-lg border p-3">
+              {order?.order_items.map((item) => {
+                const kept = getKeptQuantity(item);
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className={kept === 0 ? "text-muted-foreground line-through" : ""}>
+                      {item.menu_items?.name ?? "Item"} (₹{Number(item.price_at_time).toFixed(2)} × {kept})
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={kept}
+                      disabled={kept === 0}
+                      className="w-20"
+                      value={quantities[item.id] ?? 0}
+                      onChange={(e) => setQuantity(item.id, e.target.value, kept)}
+                      aria-label={`Quantity of ${item.menu_items?.name ?? "item"} to refund`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REFUND_REASONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-details">{reason === "Other" ? "Describe the reason" : "Details (Optional)"}</Label>
+            <Textarea
+              id="refund-details"
+              rows={2}
+              maxLength={400}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isRefunding}>
+            Close
+          </Button>
+          <Button variant="destructive" onClick={handleRefund} disabled={isRefunding || amount <= 0}>
+            {isRefunding ? "Refunding..." : `Refund ₹${amount.toFixed(2)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
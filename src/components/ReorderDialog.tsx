@@ -0,0 +1,112 @@
+import { AlertTriangle, ArrowRight, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { useCart } from "@/hooks/use-cart";
+import type { ReorderPlan } from "@/lib/reorder";
+
+interface ReorderDialogProps {
+  restaurantName: string;
+  plan: ReorderPlan | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+/** Shows how a past order differs from today's menu before it replaces the cart. */
+const ReorderDialog = ({ restaurantName, plan, onOpenChange, onConfirm }: ReorderDialogProps) => {
+  const cart = useCart();
+
+  if (!plan) return null;
+
+  const priceChanges = plan.changes.filter((change) => change.type === "price_changed");
+  const unavailable = plan.changes.filter((change) => change.type === "unavailable");
+  const replacesCart = cart.lines.length > 0;
+
+  return (
+    <Dialog open={!!plan} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reorder from {restaurantName}</DialogTitle>
+          <DialogDescription>
+            {!plan.restaurant
+              ? `${restaurantName} is not taking orders right now.`
+              : plan.changes.length === 0
+                ? "Everything from this order is available at the same price."
+                : "Some things have changed since you last ordered."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {plan.restaurant && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {plan.lines.map(({ item, quantity }) => (
+                <div key={item.id} className="flex justify-between text-sm">
+                  <span>
+                    {item.name} × {quantity}
+                  </span>
+                  <span>₹{(Number(item.price) * quantity).toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+
+            {priceChanges.length > 0 && (
+              <div className="rounded-lg border border-yellow-500/40 bg-yellow-500/10 p-3 text-sm space-y-1">
+                <p className="font-medium flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                  Price changes
+                </p>
+                {priceChanges.map((change) =>
+                  change.type === "price_changed" ? (
+                    <p key={change.name} className="flex items-center gap-1 text-muted-foreground">
+                      {change.name}: ₹{change.oldPrice.toFixed(2)}
+                      <ArrowRight className="w-3 h-3" />
+                      <span className={change.newPrice > change.oldPrice ? "text-destructive" : "text-primary"}>
+                        ₹{change.newPrice.toFixed(2)}
+                      </span>
+                    </p>
+                  ) : null
+                )}
+              </div>
+            )}
+
+            {unavailable.length > 0 && (
+              <div className="rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-sm space-y-1">
+                <p className="font-medium flex items-center gap-2">
+                  <XCircle className="w-4 h-4 text-destructive" />
+                  No longer available
+                </p>
+                {unavailable.map((change) => (
+                  <p key={change.name} className="text-muted-foreground line-through">
+                    {change.name} × {change.quantity}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Originally paid</span>
+              <span>₹{plan.originalTotal.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>New total</span>
+              <span>₹{plan.newTotal.toFixed(2)}</span>
+            </div>
+            {replacesCart && plan.lines.length > 0 && (
+              <p className="text-sm text-muted-foreground">This will replace the items currently in your cart.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {plan.restaurant && plan.lines.length > 0 ? "Cancel" : "Close"}
+          </Button>
+          {plan.restaurant && plan.lines.length > 0 && <Button onClick={onConfirm}>Continue to Checkout</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReorderDialog;
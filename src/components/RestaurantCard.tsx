@@ -3,6 +3,9 @@ import { Badge } from "@/components/ui/badge";
 import { Clock, Star } from "lucide-react";
 import { Link } from "react-router-dom";
 import restaurantPlaceholder from "@/assets/restaurant-placeholder.png";
+import OpeningStatusBadge from "@/components/OpeningStatusBadge";
+import type { OpeningStatus } from "@/lib/opening-hours";
+import { cn } from "@/lib/utils";
 
 interface RestaurantCardProps {
   id: string;
@@ -11,7 +14,9 @@ interface RestaurantCardProps {
   imageUrl?: string;
   cuisineType: string;
   rating: number;
+  reviewCount?: number;
   deliveryTime: number;
+  openingStatus?: OpeningStatus;
 }
 
 const RestaurantCard = ({
@@ -21,7 +26,9 @@ const RestaurantCard = ({
   imageUrl,
   cuisineType,
   rating,
+  reviewCount = 0,
   deliveryTime,
+  openingStatus,
 }: RestaurantCardProps) => {
   return (
     <Link to={`/restaurant/${id}`}>
@@ -30,7 +37,10 @@ const RestaurantCard = ({
           <img
             src={imageUrl || restaurantPlaceholder}
             alt={name}
-            className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+            className={cn(
+              "w-full h-full object-cover group-hover:scale-105 transition-transform duration-300",
+              openingStatus && !openingStatus.isOpen && "grayscale"
+            )}
           />
         </div>
         <CardContent className="p-4">
@@ -38,6 +48,7 @@ const RestaurantCard = ({
             <div className="flex-1">
               <h3 className="font-semibold text-lg line-clamp-1">{name}</h3>
               <p className="text-sm text-muted-foreground line-clamp-2">{description}</p>
+              {openingStatus && <OpeningStatusBadge status={openingStatus} className="mt-1" />}
             </div>
           </div>
           <div className="flex items-center gap-4 text-sm">
@@ -45,6 +56,7 @@ const RestaurantCard = ({
             <div className="flex items-center gap-1 text-muted-foreground">
               <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
               <span>{rating.toFixed(1)}</span>
+              {reviewCount > 0 && <span className="text-xs">({reviewCount})</span>}
             </div>
             <div className="flex items-center gap-1 text-muted-foreground">
               <Clock className="w-4 h-4" />
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import StarRating from "@/components/StarRating";
+import { submitReview, ReviewError } from "@/lib/reviews";
+import { cn } from "@/lib/utils";
+
+export interface ReviewableOrder {
+  id: string;
+  restaurantName: string;
+  dishes: { menuItemId: string; name: string }[];
+}
+
+interface ReviewDialogProps {
+  order: ReviewableOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+const ReviewDialog = ({ order, onOpenChange, onSubmitted }: ReviewDialogProps) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [thumbs, setThumbs] = useState<Record<string, boolean>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setRating(0);
+      setComment("");
+      setThumbs({});
+    }
+    onOpenChange(open);
+  };
+
+  // Clicking the selected thumb again clears it
+  const toggleThumb = (menuItemId: string, thumbsUp: boolean) => {
+    setThumbs((current) => {
+      const next = { ...current };
+      if (next[menuItemId] === thumbsUp) delete next[menuItemId];
+      else next[menuItemId] = thumbsUp;
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!order) return;
+    if (rating === 0) {
+      toast.error("Choose a star rating first");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await submitReview({
+        orderId: order.id,
+        rating,
+        comment: comment.trim(),
+        dishRatings: Object.entries(thumbs).map(([menuItemId, thumbsUp]) => ({ menuItemId, thumbsUp })),
+      });
+      toast.success("Thanks for your review!");
+      handleOpenChange(false);
+      onSubmitted();
+    } catch (error) {
+      toast.error(error instanceof ReviewError ? error.message : "Failed to submit review");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rate {order?.restaurantName}</DialogTitle>
+          <DialogDescription>How was your order? Your review is shown on the restaurant page.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex justify-center">
+            <StarRating value={rating} onChange={setRating} size="lg" />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Review (Optional)</Label>
+            <Textarea
+              id="review-comment"
+              rows={3}
+              maxLength={1000}
+              placeholder="What did you like? What could be better?"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+
+          {order && order.dishes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Rate the dishes (Optional)</Label>
+              <div className="divide-y rounded-lg border">
+                {order.dishes.map(({ menuItemId, name }) => (
+                  <div key={menuItemId} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <span className="text-sm">{name}</span>
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        className={cn(thumbs[menuItemId] === true && "bg-primary/10 text-primary")}
+                        onClick={() => toggleThumb(menuItemId, true)}
+                        aria-pressed={thumbs[menuItemId] === true}
+                        aria-label={`Liked ${name}`}
+                      >
+                        <ThumbsUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        className={cn(thumbs[menuItemId] === false && "bg-destructive/10 text-destructive")}
+                        onClick={() => toggleThumb(menuItemId, false)}
+                        aria-pressed={thumbs[menuItemId] === false}
+                        aria-label={`Did not like ${name}`}
+                      >
+                        <ThumbsDown className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Submitting..." : "Submit Review"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
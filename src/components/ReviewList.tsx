@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { MessageSquare, Store } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import StarRating from "@/components/StarRating";
+
+const PAGE_SIZE = 10;
+
+type Review = Tables<"restaurant_reviews">;
+
+interface ReviewListProps {
+  restaurantId: string;
+  rating: number;
+  reviewCount: number;
+}
+
+/** Customer reviews and owner replies shown on the restaurant page. */
+const ReviewList = ({ restaurantId, rating, reviewCount }: ReviewListProps) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    supabase
+      .from("restaurant_reviews")
+      .select("*")
+      .eq("restaurant_id", restaurantId)
+      .order("created_at", { ascending: false })
+      .limit(limit)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching reviews:", error);
+          return;
+        }
+        setReviews(data || []);
+      });
+  }, [restaurantId, limit]);
+
+  return (
+    <section className="mt-4">
+      <div className="flex items-center gap-3 mb-4">
+        <h2 className="text-2xl font-bold">Reviews</h2>
+        {reviewCount > 0 && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <StarRating value={Math.round(rating)} />
+            <span>
+              {rating.toFixed(1)} · {reviewCount} review{reviewCount !== 1 ? "s" : ""}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {reviews.length === 0 ? (
+        <p className="text-muted-foreground flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" />
+          No reviews yet. Order and be the first to review!
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <div key={review.id} className="border rounded-lg p-4">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="font-medium">{review.reviewer_name || "Customer"}</span>
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(review.created_at), "MMM dd, yyyy")}
+                </span>
+              </div>
+              <StarRating value={review.rating} className="mb-2" />
+              {review.comment && <p className="text-sm">{review.comment}</p>}
+              {review.owner_reply && (
+                <div className="mt-3 ml-4 pl-3 border-l-2 border-primary/40 text-sm">
+                  <p className="font-medium flex items-center gap-1 mb-1">
+                    <Store className="w-3 h-3" />
+                    Reply from the restaurant
+                  </p>
+                  <p className="text-muted-foreground">{review.owner_reply}</p>
+                </div>
+              )}
+            </div>
+          ))}
+          {reviews.length < reviewCount && (
+            <button
+              type="button"
+              className="text-sm font-medium text-primary hover:underline"
+              onClick={() => setLimit((current) => current + PAGE_SIZE)}
+            >
+              Show more reviews
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ReviewList;
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useState } from "react";
+import { CalendarClock, MapPin } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import CancelOrderDialog, { type CancellingOrder } from "@/components/CancelOrderDialog";
+import { getStatusColor, ORDER_STATUS_LABELS, type OrderStatus } from "@/lib/order-status";
+import {
+  canCancelScheduledOrder,
+  formatScheduledFor,
+  isUpcomingScheduledOrder,
+  SCHEDULED_CANCEL_CUTOFF_MINUTES,
+} from "@/lib/scheduling";
+
+interface ScheduledOrder {
+  id: string;
+  status: OrderStatus;
+  scheduled_for: string;
+  total_amount: number;
+  delivery_address: string;
+  restaurants: { name: string };
+  order_items: { id: string; quantity: number; menu_items: { name: string } }[];
+}
+
+interface ScheduledOrdersProps {
+  customerId: string;
+  onCancelled: () => void;
+}
+
+/** The customer's upcoming scheduled orders, shown above their order history. */
+const ScheduledOrders = ({ customerId, onCancelled }: ScheduledOrdersProps) => {
+  const [orders, setOrders] = useState<ScheduledOrder[]>([]);
+  const [cancelling, setCancelling] = useState<CancellingOrder | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("orders")
+      .select(`
+        id,
+        status,
+        scheduled_for,
+        total_amount,
+        delivery_address,
+        restaurants (name),
+        order_items (
+          id,
+          quantity,
+          menu_items (name)
+        )
+      `)
+      .eq("customer_id", customerId)
+      .in("status", ["pending", "confirmed"])
+      .gt("scheduled_for", new Date().toISOString())
+      .order("scheduled_for", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching scheduled orders:", error);
+      return;
+    }
+
+    setOrders((data as ScheduledOrder[]).filter((order) => isUpcomingScheduledOrder(order)));
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  if (orders.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
+        <CalendarClock className="w-6 h-6" />
+        Scheduled
+      </h2>
+      <div className="space-y-4">
+        {orders.map((order) => (
+          <Card key={order.id} className="border-primary/40">
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle>{order.restaurants.name}</CardTitle>
+                  <CardDescription className="flex flex-wrap items-center gap-4 mt-2">
+                    <span className="flex items-center gap-1 font-medium text-foreground">
+                      <CalendarClock className="w-4 h-4" />
+                      {formatScheduledFor(order.scheduled_for)}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <MapPin className="w-4 h-4" />
+                      {order.delivery_address}
+                    </span>
+                  </CardDescription>
+                </div>
+                <Badge className={getStatusColor(order.status)}>
+                  {ORDER_STATUS_LABELS[order.status].toUpperCase()}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="flex flex-wrap items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {order.order_items.map((item) => `${item.menu_items.name} × ${item.quantity}`).join(", ")}
+              </p>
+              <div className="flex items-center gap-4">
+                <span className="font-bold">₹{Number(order.total_amount).toFixed(2)}</span>
+                {canCancelScheduledOrder(order) ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setCancelling({
+                        id: order.id,
+                        restaurantName: order.restaurants.name,
+                        description: `Scheduled for ${formatScheduledFor(order.scheduled_for)}. Scheduled orders can be cancelled up to ${SCHEDULED_CANCEL_CUTOFF_MINUTES} minutes before delivery.`,
+                      })
+                    }
+                  >
+                    Cancel Order
+                  </Button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Too close to delivery to cancel</span>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <CancelOrderDialog
+        order={cancelling}
+        onOpenChange={(open) => !open && setCancelling(null)}
+        onCancelled={() => {
+          fetchOrders();
+          onCancelled();
+        }}
+      />
+    </div>
+  );
+};
+
+export default ScheduledOrders;
@@ -0,0 +1,43 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  value: number;
+  /** Makes the stars clickable. */
+  onChange?: (value: number) => void;
+  size?: "sm" | "lg";
+  className?: string;
+}
+
+const StarRating = ({ value, onChange, size = "sm", className }: StarRatingProps) => {
+  const iconClass = size === "lg" ? "w-8 h-8" : "w-4 h-4";
+
+  return (
+    <div className={cn("flex items-center gap-0.5", className)} role={onChange ? "radiogroup" : "img"} aria-label={`${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={cn(iconClass, star <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40")}
+          />
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={star === value}
+            aria-label={`${star} star${star !== 1 ? "s" : ""}`}
+            onClick={() => onChange(star)}
+            className="p-0.5 transition-transform hover:scale-110"
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
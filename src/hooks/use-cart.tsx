@@ -0,0 +1,208 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { sumNutrients, type Nutrients } from "@/lib/nutrition";
+
+const STORAGE_KEY = "foodwise-cart";
+const REMOTE_SYNC_DELAY = 500;
+
+export type CartMenuItem = Tables<"menu_items">;
+export type CartRestaurant = Pick<Tables<"restaurants">, "id" | "name">;
+
+export interface CartLine {
+  item: CartMenuItem;
+  quantity: number;
+}
+
+interface CartState {
+  restaurant: CartRestaurant | null;
+  lines: CartLine[];
+}
+
+interface CartContextValue extends CartState {
+  itemCount: number;
+  totalAmount: number;
+  totalCalories: number;
+  totalNutrients: Nutrients;
+  getQuantity: (menuItemId: string) => number;
+  /** Adds one of `item`. Adding from another restaurant replaces the cart. */
+  addItem: (restaurant: CartRestaurant, item: CartMenuItem) => void;
+  updateQuantity: (menuItemId: string, change: number) => void;
+  replaceCart: (restaurant: CartRestaurant, lines: CartLine[]) => void;
+  clearCart: () => void;
+}
+
+const EMPTY_CART: CartState = { restaurant: null, lines: [] };
+
+const CartContext = createContext<CartContextValue | null>(null);
+
+const readStoredCart = (): CartState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_CART;
+    const parsed = JSON.parse(raw) as CartState;
+    if (!Array.isArray(parsed?.lines)) return EMPTY_CART;
+    return parsed.lines.length > 0 ? parsed : EMPTY_CART;
+  } catch {
+    return EMPTY_CART;
+  }
+};
+
+const fetchRemoteCart = async (userId: string): Promise<CartState | null> => {
+  const { data: row, error } = await supabase
+    .from("carts")
+    .select("restaurant_id, items")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!row?.restaurant_id || !Array.isArray(row.items) || row.items.length === 0) return null;
+
+  const quantities = new Map<string, number>();
+  (row.items as { menu_item_id: string; quantity: number }[]).forEach(({ menu_item_id, quantity }) => {
+    quantities.set(menu_item_id, quantity);
+  });
+
+  const [{ data: restaurant }, { data: menuItems }] = await Promise.all([
+    supabase.from("restaurants").select("id, name").eq("id", row.restaurant_id).maybeSingle(),
+    supabase
+      .from("menu_items")
+      .select("*")
+      .in("id", Array.from(quantities.keys()))
+      .eq("is_available", true),
+  ]);
+
+  if (!restaurant || !menuItems?.length) return null;
+
+  return {
+    restaurant,
+    lines: menuItems.map((item) => ({ item, quantity: quantities.get(item.id) ?? 1 })),
+  };
+};
+
+const saveRemoteCart = async (userId: string, cart: CartState) => {
+  const { error } =
+    cart.lines.length === 0
+      ? await supabase.from("carts").delete().eq("user_id", userId)
+      : await supabase.from("carts").upsert({
+          user_id: userId,
+          restaurant_id: cart.restaurant?.id ?? null,
+          items: cart.lines.map(({ item, quantity }) => ({ menu_item_id: item.id, quantity })),
+        });
+
+  if (error) throw error;
+};
+
+export const CartProvider = ({ children }: { children: ReactNode }) => {
+  const [cart, setCart] = useState<CartState>(readStoredCart);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [remoteReady, setRemoteReady] = useState(false);
+  const cartRef = useRef(cart);
+  cartRef.current = cart;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cart));
+  }, [cart]);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_OUT") setCart(EMPTY_CART);
+      setUserId(session?.user.id ?? null);
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Adopt the saved server cart on sign-in unless there is already a local one
+  useEffect(() => {
+    setRemoteReady(false);
+    if (!userId) return;
+
+    let cancelled = false;
+    fetchRemoteCart(userId)
+      .then((remote) => {
+        if (cancelled) return;
+        if (remote && cartRef.current.lines.length === 0) setCart(remote);
+      })
+      .catch((error) => console.error("Error loading cart:", error))
+      .finally(() => {
+        if (!cancelled) setRemoteReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !remoteReady) return;
+
+    const timeout = setTimeout(() => {
+      saveRemoteCart(userId, cart).catch((error) => console.error("Error saving cart:", error));
+    }, REMOTE_SYNC_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [cart, userId, remoteReady]);
+
+  const addItem = useCallback((restaurant: CartRestaurant, item: CartMenuItem) => {
+    setCart((current) => {
+      if (current.restaurant?.id !== restaurant.id) {
+        return { restaurant, lines: [{ item, quantity: 1 }] };
+      }
+      const existing = current.lines.find((line) => line.item.id === item.id);
+      return {
+        restaurant,
+        lines: existing
+          ? current.lines.map((line) =>
+              line.item.id === item.id ? { item, quantity: line.quantity + 1 } : line
+            )
+          : [...current.lines, { item, quantity: 1 }],
+      };
+    });
+  }, []);
+
+  const updateQuantity = useCallback((menuItemId: string, change: number) => {
+    setCart((current) => {
+      const lines = current.lines
+        .map((line) => (line.item.id === menuItemId ? { ...line, quantity: line.quantity + change } : line))
+        .filter((line) => line.quantity > 0);
+      return lines.length > 0 ? { ...current, lines } : EMPTY_CART;
+    });
+  }, []);
+
+  const replaceCart = useCallback((restaurant: CartRestaurant, lines: CartLine[]) => {
+    setCart(lines.length > 0 ? { restaurant, lines } : EMPTY_CART);
+  }, []);
+
+  const clearCart = useCallback(() => setCart(EMPTY_CART), []);
+
+  const value = useMemo<CartContextValue>(() => {
+    const quantities = new Map(cart.lines.map(({ item, quantity }) => [item.id, quantity]));
+    return {
+      ...cart,
+      itemCount: cart.lines.length,
+      totalAmount: cart.lines.reduce((sum, { item, quantity }) => sum + Number(item.price) * quantity, 0),
+      totalCalories: cart.lines.reduce((sum, { item, quantity }) => sum + item.calories * quantity, 0),
+      totalNutrients: sumNutrients(cart.lines.map(({ item, quantity }) => ({ nutrients: item, quantity }))),
+      getQuantity: (menuItemId) => quantities.get(menuItemId) ?? 0,
+      addItem,
+      updateQuantity,
+      replaceCart,
+      clearCart,
+    };
+  }, [cart, addItem, updateQuantity, replaceCart, clearCart]);
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+};
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { EMPTY_NUTRIENTS } from "@/lib/nutrition";
+import {
+  fetchNutritionProfile,
+  fetchTodayIntake,
+  getDailyGoals,
+  type DailyGoals,
+  type DailyIntake,
+} from "@/lib/nutrition-goals";
+
+const EMPTY_INTAKE: DailyIntake = { calories: 0, ...EMPTY_NUTRIENTS };
+
+/** The signed-in user's daily goals (null without a nutrition profile) and today's intake so far. */
+export const useDailyGoals = () => {
+  const [goals, setGoals] = useState<DailyGoals | null>(null);
+  const [intake, setIntake] = useState<DailyIntake>(EMPTY_INTAKE);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const [profile, todayIntake] = await Promise.all([
+        fetchNutritionProfile(session.user.id),
+        fetchTodayIntake(session.user.id),
+      ]);
+      if (cancelled) return;
+      setGoals(profile ? getDailyGoals(profile) : null);
+      setIntake(todayIntake);
+    };
+
+    load()
+      .catch((error) => console.error("Error loading daily goals:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  return { goals, intake, isLoading, refresh: () => setVersion((current) => current + 1) };
+};
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+
+export type AppRole = Enums<"app_role">;
+
+const ROLE_LABELS: Record<AppRole, string> = {
+  customer: "Customer",
+  restaurant_owner: "Restaurant owner",
+  admin: "Admin",
+};
+
+/**
+ * The signed-in user once they are known to have `role`, otherwise null.
+ * Signed-out visitors are sent to the login page and everyone else home.
+ */
+export const useRequireRole = (role: AppRole) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [hasRole, setHasRole] = useState(false);
+  const navigate = useNavigate();
+  const userId = user?.id;
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", userId)
+      .eq("role", role)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (cancelled) return;
+        if (!data) {
+          toast.error(`Access denied. ${ROLE_LABELS[role]} role required.`);
+          navigate("/");
+          return;
+        }
+        setHasRole(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, role, navigate]);
+
+  return hasRole ? user : null;
+};
@@ -14,47 +14,201 @@ export type Database = {
   }
   public: {
     Tables: {
+      addresses: {
+        Row: {
+          city: string
+          created_at: string
+          id: string
+          is_default: boolean
+          label: string
+          landmark: string | null
+          line1: string
+          line2: string | null
+          pincode: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          city: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          label: string
+          landmark?: string | null
+          line1: string
+          line2?: string | null
+          pincode: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          city?: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          label?: string
+          landmark?: string | null
+          line1?: string
+          line2?: string | null
+          pincode?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "addresses_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      carts: {
+        Row: {
+          created_at: string
+          items: Json
+          restaurant_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          items?: Json
+          restaurant_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          items?: Json
+          restaurant_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "carts_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_logs: {
+        Row: {
+          calories: number
+          carbohydrates_g: number | null
+          created_at: string
+          eaten_at: string
+          fat_g: number | null
+          id: string
+          is_healthy: boolean
+          name: string
+          protein_g: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calories: number
+          carbohydrates_g?: number | null
+          created_at?: string
+          eaten_at?: string
+          fat_g?: number | null
+          id?: string
+          is_healthy?: boolean
+          name: string
+          protein_g?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          calories?: number
+          carbohydrates_g?: number | null
+          created_at?: string
+          eaten_at?: string
+          fat_g?: number | null
+          id?: string
+          is_healthy?: boolean
+          name?: string
+          protein_g?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       menu_items: {
         Row: {
+          allergens: Database["public"]["Enums"]["allergen"][] | null
           calories: number
+          carbohydrates_g: number | null
           category: string
           created_at: string
           description: string | null
+          dietary_tags: Database["public"]["Enums"]["dietary_tag"][]
+          fat_g: number | null
+          fibre_g: number | null
+          health_grade: Database["public"]["Enums"]["health_grade"] | null
+          health_score: number | null
           id: string
           image_url: string | null
           is_available: boolean | null
           is_healthy: boolean
           name: string
           price: number
+          protein_g: number | null
           restaurant_id: string
+          sodium_mg: number | null
+          sugar_g: number | null
           updated_at: string
         }
         Insert: {
+          allergens?: Database["public"]["Enums"]["allergen"][] | null
           calories: number
+          carbohydrates_g?: number | null
           category: string
           created_at?: string
           description?: string | null
+          dietary_tags?: Database["public"]["Enums"]["dietary_tag"][]
+          fat_g?: number | null
+          fibre_g?: number | null
+          health_grade?: Database["public"]["Enums"]["health_grade"] | null
+          health_score?: number | null
           id?: string
           image_url?: string | null
           is_available?: boolean | null
           is_healthy?: boolean
           name: string
           price: number
+          protein_g?: number | null
           restaurant_id: string
+          sodium_mg?: number | null
+          sugar_g?: number | null
           updated_at?: string
         }
         Update: {
+          allergens?: Database["public"]["Enums"]["allergen"][] | null
           calories?: number
+          carbohydrates_g?: number | null
           category?: string
           created_at?: string
           description?: string | null
+          dietary_tags?: Database["public"]["Enums"]["dietary_tag"][]
+          fat_g?: number | null
+          fibre_g?: number | null
+          health_grade?: Database["public"]["Enums"]["health_grade"] | null
+          health_score?: number | null
           id?: string
           image_url?: string | null
           is_available?: boolean | null
           is_healthy?: boolean
           name?: string
           price?: number
+          protein_g?: number | null
           restaurant_id?: string
+          sodium_mg?: number | null
+          sugar_g?: number | null
           updated_at?: string
         }
         Relationships: [
@@ -67,36 +221,116 @@ export type Database = {
           },
         ]
       }
+      nutrition_profiles: {
+        Row: {
+          activity_level: Database["public"]["Enums"]["activity_level"]
+          age: number
+          calorie_goal: number
+          carbohydrates_goal_g: number
+          created_at: string
+          fat_goal_g: number
+          goal: Database["public"]["Enums"]["nutrition_goal"]
+          height_cm: number
+          protein_goal_g: number
+          sex: Database["public"]["Enums"]["biological_sex"]
+          updated_at: string
+          user_id: string
+          weight_kg: number
+        }
+        Insert: {
+          activity_level?: Database["public"]["Enums"]["activity_level"]
+          age: number
+          calorie_goal: number
+          carbohydrates_goal_g: number
+          created_at?: string
+          fat_goal_g: number
+          goal?: Database["public"]["Enums"]["nutrition_goal"]
+          height_cm: number
+          protein_goal_g: number
+          sex: Database["public"]["Enums"]["biological_sex"]
+          updated_at?: string
+          user_id: string
+          weight_kg: number
+        }
+        Update: {
+          activity_level?: Database["public"]["Enums"]["activity_level"]
+          age?: number
+          calorie_goal?: number
+          carbohydrates_goal_g?: number
+          created_at?: string
+          fat_goal_g?: number
+          goal?: Database["public"]["Enums"]["nutrition_goal"]
+          height_cm?: number
+          protein_goal_g?: number
+          sex?: Database["public"]["Enums"]["biological_sex"]
+          updated_at?: string
+          user_id?: string
+          weight_kg?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "nutrition_profiles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           calories_at_time: number
+          carbohydrates_g_at_time: number | null
           created_at: string
+          fat_g_at_time: number | null
+          fibre_g_at_time: number | null
+          health_grade_at_time: Database["public"]["Enums"]["health_grade"] | null
           id: string
           is_healthy_at_time: boolean
           menu_item_id: string
           order_id: string
           price_at_time: number
+          protein_g_at_time: number | null
           quantity: number
+          refunded_quantity: number
+          sodium_mg_at_time: number | null
+          sugar_g_at_time: number | null
         }
         Insert: {
           calories_at_time: number
+          carbohydrates_g_at_time?: number | null
           created_at?: string
+          fat_g_at_time?: number | null
+          fibre_g_at_time?: number | null
+          health_grade_at_time?: Database["public"]["Enums"]["health_grade"] | null
           id?: string
           is_healthy_at_time: boolean
           menu_item_id: string
           order_id: string
           price_at_time: number
+          protein_g_at_time?: number | null
           quantity: number
+          refunded_quantity?: number
+          sodium_mg_at_time?: number | null
+          sugar_g_at_time?: number | null
         }
         Update: {
           calories_at_time?: number
+          carbohydrates_g_at_time?: number | null
           created_at?: string
+          fat_g_at_time?: number | null
+          fibre_g_at_time?: number | null
+          health_grade_at_time?: Database["public"]["Enums"]["health_grade"] | null
           id?: string
           is_healthy_at_time?: boolean
           menu_item_id?: string
           order_id?: string
           price_at_time?: number
+          protein_g_at_time?: number | null
           quantity?: number
+          refunded_quantity?: number
+          sodium_mg_at_time?: number | null
+          sugar_g_at_time?: number | null
         }
         Relationships: [
           {
@@ -115,41 +349,159 @@ export type Database = {
           },
         ]
       }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["order_status"]
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["order_status"]
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["order_status"]
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: []
+      }
       orders: {
         Row: {
+          address_id: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          coupon_code: string | null
           created_at: string
           customer_id: string
           delivery_address: string
+          delivery_address_snapshot: Json | null
+          delivery_fee: number
           delivery_instructions: string | null
+          discount_amount: number
           id: string
+          invoice_number: number | null
+          packaging_charge: number
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          promotion_id: string | null
+          refunded_amount: number
           restaurant_id: string
-          status: string
+          rounding_adjustment: number
+          scheduled_for: string | null
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal_amount: number
+          tax_amount: number
+          tip_amount: number
           total_amount: number
           updated_at: string
         }
         Insert: {
+          address_id?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          coupon_code?: string | null
           created_at?: string
           customer_id: string
           delivery_address: string
+          delivery_address_snapshot?: Json | null
+          delivery_fee?: number
           delivery_instructions?: string | null
+          discount_amount?: number
           id?: string
+          invoice_number?: number | null
+          packaging_charge?: number
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          promotion_id?: string | null
+          refunded_amount?: number
           restaurant_id: string
-          status?: string
+          rounding_adjustment?: number
+          scheduled_for?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal_amount?: number
+          tax_amount?: number
+          tip_amount?: number
           total_amount: number
           updated_at?: string
         }
         Update: {
+          address_id?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          coupon_code?: string | null
           created_at?: string
           customer_id?: string
           delivery_address?: string
+          delivery_address_snapshot?: Json | null
+          delivery_fee?: number
           delivery_instructions?: string | null
+          discount_amount?: number
           id?: string
+          invoice_number?: number | null
+          packaging_charge?: number
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          promotion_id?: string | null
+          refunded_amount?: number
           restaurant_id?: string
-          status?: string
+          rounding_adjustment?: number
+          scheduled_for?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal_amount?: number
+          tax_amount?: number
+          tip_amount?: number
           total_amount?: number
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "orders_address_id_fkey"
+            columns: ["address_id"]
+            isOneToOne: false
+            referencedRelation: "addresses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "orders_restaurant_id_fkey"
             columns: ["restaurant_id"]
@@ -159,6 +511,59 @@ export type Database = {
           },
         ]
       }
+      payments: {
+        Row: {
+          amount: number
+          authorised_at: string | null
+          captured_at: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          order_id: string
+          provider: string
+          provider_reference: string | null
+          status: Database["public"]["Enums"]["payment_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          authorised_at?: string | null
+          captured_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          method: Database["public"]["Enums"]["payment_method"]
+          order_id: string
+          provider: string
+          provider_reference?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          authorised_at?: string | null
+          captured_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          order_id?: string
+          provider?: string
+          provider_reference?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -186,48 +591,400 @@ export type Database = {
         }
         Relationships: []
       }
+      promotions: {
+        Row: {
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: Database["public"]["Enums"]["discount_type"]
+          discount_value: number
+          ends_at: string | null
+          healthy_only: boolean
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          min_order_value: number
+          per_user_limit: number
+          restaurant_id: string | null
+          starts_at: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: Database["public"]["Enums"]["discount_type"]
+          discount_value: number
+          ends_at?: string | null
+          healthy_only?: boolean
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_order_value?: number
+          per_user_limit?: number
+          restaurant_id?: string | null
+          starts_at?: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: Database["public"]["Enums"]["discount_type"]
+          discount_value?: number
+          ends_at?: string | null
+          healthy_only?: boolean
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_order_value?: number
+          per_user_limit?: number
+          restaurant_id?: string | null
+          starts_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refund_items: {
+        Row: {
+          id: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
+        }
+        Insert: {
+          id?: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
+        }
+        Update: {
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          refund_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refund_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          failure_reason: string | null
+          id: string
+          is_full: boolean
+          issued_by: string | null
+          order_id: string
+          payment_id: string | null
+          processed_at: string | null
+          provider_reference: string | null
+          reason: string
+          status: Database["public"]["Enums"]["refund_status"]
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          is_full: boolean
+          issued_by?: string | null
+          order_id: string
+          payment_id?: string | null
+          processed_at?: string | null
+          provider_reference?: string | null
+          reason: string
+          status?: Database["public"]["Enums"]["refund_status"]
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          is_full?: boolean
+          issued_by?: string | null
+          order_id?: string
+          payment_id?: string | null
+          processed_at?: string | null
+          provider_reference?: string | null
+          reason?: string
+          status?: Database["public"]["Enums"]["refund_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurant_holidays: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          reason: string | null
+          restaurant_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          reason?: string | null
+          restaurant_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          reason?: string | null
+          restaurant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_holidays_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurant_opening_hours: {
+        Row: {
+          closes_at: string
+          created_at: string
+          day_of_week: number
+          id: string
+          opens_at: string
+          restaurant_id: string
+        }
+        Insert: {
+          closes_at: string
+          created_at?: string
+          day_of_week: number
+          id?: string
+          opens_at: string
+          restaurant_id: string
+        }
+        Update: {
+          closes_at?: string
+          created_at?: string
+          day_of_week?: number
+          id?: string
+          opens_at?: string
+          restaurant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_opening_hours_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restaurants: {
         Row: {
+          address: string | null
+          cancellation_grace_minutes: number
           created_at: string
           cuisine_type: string
+          delivery_fee: number
           delivery_time_minutes: number
           description: string | null
+          free_delivery_threshold: number | null
+          gstin: string | null
           id: string
           image_url: string | null
           is_active: boolean | null
+          menu_category_order: string[]
           name: string
           owner_id: string
+          packaging_charge: number
           rating: number | null
+          review_count: number
+          time_zone: string
           updated_at: string
         }
         Insert: {
+          address?: string | null
+          cancellation_grace_minutes?: number
           created_at?: string
           cuisine_type: string
+          delivery_fee?: number
           delivery_time_minutes: number
           description?: string | null
+          free_delivery_threshold?: number | null
+          gstin?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean | null
+          menu_category_order?: string[]
           name: string
           owner_id: string
+          packaging_charge?: number
           rating?: number | null
+          review_count?: number
+          time_zone?: string
           updated_at?: string
         }
         Update: {
+          address?: string | null
+          cancellation_grace_minutes?: number
           created_at?: string
           cuisine_type?: string
+          delivery_fee?: number
           delivery_time_minutes?: number
           description?: string | null
+          free_delivery_threshold?: number | null
+          gstin?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean | null
+          menu_category_order?: string[]
           name?: string
           owner_id?: string
+          packaging_charge?: number
           rating?: number | null
+          review_count?: number
+          time_zone?: string
           updated_at?: string
         }
         Relationships: []
       }
+      review_dish_ratings: {
+        Row: {
+          created_at: string
+          id: string
+          menu_item_id: string
+          review_id: string
+          thumbs_up: boolean
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          menu_item_id: string
+          review_id: string
+          thumbs_up: boolean
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          menu_item_id?: string
+          review_id?: string
+          thumbs_up?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_dish_ratings_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_dish_ratings_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          customer_id: string
+          id: string
+          order_id: string
+          owner_replied_at: string | null
+          owner_reply: string | null
+          rating: number
+          restaurant_id: string
+          updated_at: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          customer_id: string
+          id?: string
+          order_id: string
+          owner_replied_at?: string | null
+          owner_reply?: string | null
+          rating: number
+          restaurant_id: string
+          updated_at?: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          customer_id?: string
+          id?: string
+          order_id?: string
+          owner_replied_at?: string | null
+          owner_reply?: string | null
+          rating?: number
+          restaurant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -251,9 +1008,124 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      customer_order_lines: {
+        Row: {
+          amount: number | null
+          calories: number | null
+          created_at: string | null
+          customer_id: string | null
+          is_healthy: boolean | null
+          order_id: string | null
+          quantity: number | null
+          status: Database["public"]["Enums"]["order_status"] | null
+        }
+        Relationships: []
+      }
+      menu_item_dish_ratings: {
+        Row: {
+          menu_item_id: string | null
+          thumbs_down: number | null
+          thumbs_up: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_dish_ratings_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurant_reviews: {
+        Row: {
+          comment: string | null
+          created_at: string | null
+          id: string | null
+          owner_replied_at: string | null
+          owner_reply: string | null
+          rating: number | null
+          restaurant_id: string | null
+          reviewer_name: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      calculate_order_charges: {
+        Args: {
+          _discount_amount?: number
+          _restaurant_id: string
+          _subtotal: number
+          _tip_amount: number
+        }
+        Returns: {
+          delivery_fee: number
+          packaging_charge: number
+          rounding_adjustment: number
+          tax_amount: number
+          tip_amount: number
+          total_amount: number
+        }[]
+      }
+      cancel_order: {
+        Args: {
+          _order_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      complete_refund: {
+        Args: {
+          _failure_reason?: string
+          _provider_reference?: string
+          _refund_id: string
+          _succeeded: boolean
+        }
+        Returns: undefined
+      }
+      complete_restaurant_onboarding: {
+        Args: {
+          _restaurant_id: string
+        }
+        Returns: undefined
+      }
+      compute_health_score: {
+        Args: {
+          _calories: number
+          _fat_g: number
+          _fibre_g: number
+          _protein_g: number
+          _sodium_mg: number
+          _sugar_g: number
+        }
+        Returns: number
+      }
+      create_refund: {
+        Args: {
+          _items?: Json
+          _order_id: string
+          _reason: string
+        }
+        Returns: {
+          amount: number
+          payment_reference: string
+          refund_id: string
+          status: Database["public"]["Enums"]["refund_status"]
+        }[]
+      }
+      gst_rate: {
+        Args: never
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -261,9 +1133,189 @@ export type Database = {
         }
         Returns: boolean
       }
+      health_grade_for_score: {
+        Args: {
+          _score: number
+        }
+        Returns: Database["public"]["Enums"]["health_grade"]
+      }
+      health_points: {
+        Args: {
+          _thresholds: number[]
+          _value: number
+        }
+        Returns: number
+      }
+      is_restaurant_open: {
+        Args: {
+          _at?: string
+          _restaurant_id: string
+        }
+        Returns: boolean
+      }
+      max_tip_amount: {
+        Args: never
+        Returns: number
+      }
+      nutrition_totals: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          calories: number
+          healthy_spend: number
+          junk_spend: number
+          logged_calories: number
+          order_count: number
+        }[]
+      }
+      nutrition_trends: {
+        Args: {
+          _bucket?: string
+          _from: string
+          _time_zone?: string
+          _to: string
+        }
+        Returns: {
+          calories: number
+          healthy_spend: number
+          junk_spend: number
+          logged_calories: number
+          order_count: number
+          period_start: string
+        }[]
+      }
+      place_order: {
+        Args: {
+          _address_id: string
+          _coupon_code?: string
+          _delivery_instructions?: string
+          _items: Json
+          _payment_method?: Database["public"]["Enums"]["payment_method"]
+          _restaurant_id: string
+          _scheduled_for?: string
+          _tip_amount?: number
+        }
+        Returns: string
+      }
+      preview_coupon: {
+        Args: {
+          _code: string
+          _items: Json
+          _restaurant_id: string
+        }
+        Returns: {
+          code: string
+          description: string
+          discount_amount: number
+        }[]
+      }
+      record_payment_event: {
+        Args: {
+          _failure_reason?: string
+          _payment_id: string
+          _provider_reference?: string
+          _status: Database["public"]["Enums"]["payment_status"]
+        }
+        Returns: undefined
+      }
+      register_restaurant: {
+        Args: {
+          _cuisine_type: string
+          _delivery_time_minutes: number
+          _description?: string
+          _image_url?: string
+          _name: string
+        }
+        Returns: string
+      }
+      reply_to_review: {
+        Args: {
+          _reply: string
+          _review_id: string
+        }
+        Returns: undefined
+      }
+      schedule_horizon: {
+        Args: never
+        Returns: unknown
+      }
+      schedule_lead_time: {
+        Args: never
+        Returns: unknown
+      }
+      scheduled_cancel_cutoff: {
+        Args: never
+        Returns: unknown
+      }
+      set_opening_hours: {
+        Args: {
+          _restaurant_id: string
+          _slots: Json
+        }
+        Returns: undefined
+      }
+      start_payment: {
+        Args: {
+          _order_id: string
+        }
+        Returns: {
+          amount: number
+          method: Database["public"]["Enums"]["payment_method"]
+          payment_id: string
+          provider: string
+        }[]
+      }
+      submit_review: {
+        Args: {
+          _comment?: string
+          _dish_ratings?: Json
+          _order_id: string
+          _rating: number
+        }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "customer" | "restaurant_owner"
+      activity_level:
+        | "sedentary"
+        | "light"
+        | "moderate"
+        | "active"
+        | "very_active"
+      allergen:
+        | "gluten"
+        | "dairy"
+        | "nuts"
+        | "peanuts"
+        | "egg"
+        | "soy"
+        | "fish"
+        | "shellfish"
+        | "sesame"
+      app_role: "customer" | "restaurant_owner" | "admin"
+      biological_sex: "female" | "male"
+      dietary_tag: "vegetarian" | "vegan" | "jain" | "halal"
+      discount_type: "percent" | "flat"
+      health_grade: "A" | "B" | "C" | "D" | "E"
+      nutrition_goal: "lose" | "maintain" | "gain"
+      order_status:
+        | "awaiting_payment"
+        | "pending"
+        | "confirmed"
+        | "preparing"
+        | "on_the_way"
+        | "delivered"
+        | "cancelled"
+      payment_method: "cod" | "card" | "upi"
+      payment_status:
+        | "initiated"
+        | "authorised"
+        | "captured"
+        | "failed"
+        | "refunded"
+      refund_status: "pending" | "processed" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -391,7 +1443,48 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["customer", "restaurant_owner"],
+      activity_level: [
+        "sedentary",
+        "light",
+        "moderate",
+        "active",
+        "very_active",
+      ],
+      allergen: [
+        "gluten",
+        "dairy",
+        "nuts",
+        "peanuts",
+        "egg",
+        "soy",
+        "fish",
+        "shellfish",
+        "sesame",
+      ],
+      app_role: ["customer", "restaurant_owner", "admin"],
+      biological_sex: ["female", "male"],
+      dietary_tag: ["vegetarian", "vegan", "jain", "halal"],
+      discount_type: ["percent", "flat"],
+      health_grade: ["A", "B", "C", "D", "E"],
+      nutrition_goal: ["lose", "maintain", "gain"],
+      order_status: [
+        "awaiting_payment",
+        "pending",
+        "confirmed",
+        "preparing",
+        "on_the_way",
+        "delivered",
+        "cancelled",
+      ],
+      payment_method: ["cod", "card", "upi"],
+      payment_status: [
+        "initiated",
+        "authorised",
+        "captured",
+        "failed",
+        "refunded",
+      ],
+      refund_status: ["pending", "processed", "failed"],
     },
   },
 } as const
@@ -0,0 +1,39 @@
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type Address = Tables<"addresses">;
+
+/** The address fields copied onto an order when it is placed. */
+export type AddressSnapshot = Pick<Address, "label" | "line1" | "line2" | "landmark" | "city" | "pincode">;
+
+export const ADDRESS_LABELS = ["Home", "Work", "Other"];
+
+/** Six-digit Indian PIN code; mirrors the check constraint on `addresses.pincode`. */
+export const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+
+/** Single-line form, matching `public.format_address` in the database. */
+export const formatAddress = (address: AddressSnapshot) =>
+  [
+    address.line1.trim(),
+    address.line2?.trim() || null,
+    address.landmark?.trim() ? `Near ${address.landmark.trim()}` : null,
+    `${address.city.trim()} - ${address.pincode}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+/** Reads `orders.delivery_address_snapshot`, which is null for orders placed before the address book. */
+export const parseAddressSnapshot = (snapshot: Json | null): AddressSnapshot | null => {
+  if (!snapshot || typeof snapshot !== "object" || Array.isArray(snapshot)) return null;
+  const { label, line1, line2, landmark, city, pincode } = snapshot as Record<string, Json | undefined>;
+  if (typeof label !== "string" || typeof line1 !== "string" || typeof city !== "string" || typeof pincode !== "string") {
+    return null;
+  }
+  return {
+    label,
+    line1,
+    line2: typeof line2 === "string" ? line2 : null,
+    landmark: typeof landmark === "string" ? landmark : null,
+    city,
+    pincode,
+  };
+};
@@ -0,0 +1,35 @@
+import type { OrderStatus } from "@/lib/order-status";
+import { canCancelScheduledOrder } from "@/lib/scheduling";
+
+export const CANCELLATION_REASONS = [
+  "Ordered by mistake",
+  "Want to change items or address",
+  "Delivery is taking too long",
+  "Found a better option",
+  "Other",
+];
+
+export type CancelledBy = "customer" | "restaurant";
+
+interface CancellableOrder {
+  status: OrderStatus;
+  created_at: string;
+  scheduled_for: string | null;
+}
+
+/**
+ * Mirrors `public.cancel_order`: unpaid orders can always be cancelled,
+ * scheduled orders until the cutoff before their slot, other orders while
+ * pending or within the restaurant's grace window after being placed.
+ */
+export const canCancelOrder = (order: CancellableOrder, graceMinutes: number, now: Date = new Date()) => {
+  if (order.status === "awaiting_payment") return true;
+  if (order.scheduled_for) return canCancelScheduledOrder(order, now);
+  if (order.status === "pending") return true;
+  return order.status === "confirmed" && now.getTime() <= new Date(order.created_at).getTime() + graceMinutes * 60 * 1000;
+};
+
+export const describeCancellation = (cancelledBy: string | null, reason: string | null) => {
+  const who = cancelledBy === "customer" ? "Cancelled by you" : "Cancelled by the restaurant";
+  return reason ? `${who}: ${reason}` : who;
+};
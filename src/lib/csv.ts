@@ -0,0 +1,18 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: CsvCell) => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with a header row. Empty cells stand for missing values, and
+ * text that a spreadsheet would evaluate as a formula is prefixed with a quote.
+ */
+export const toCsv = (header: string[], rows: CsvCell[][]) =>
+  [header, ...rows].map((row) => row.map(toCsvCell).join(",")).join("\r\n") + "\r\n";
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { containsAllergen } from "@/lib/dietary";
+
+describe("containsAllergen", () => {
+  it("matches any declared allergen that is excluded", () => {
+    expect(containsAllergen({ allergens: ["dairy", "nuts"] }, ["nuts"])).toBe(true);
+    expect(containsAllergen({ allergens: ["dairy"] }, ["nuts", "egg"])).toBe(false);
+  });
+
+  it("lets a dish declared free of allergens through every filter", () => {
+    expect(containsAllergen({ allergens: [] }, ["gluten", "sesame"])).toBe(false);
+  });
+
+  it("treats undeclared allergens as possibly containing any of them", () => {
+    expect(containsAllergen({ allergens: null }, ["peanuts"])).toBe(true);
+    expect(containsAllergen({}, ["peanuts"])).toBe(true);
+  });
+
+  it("hides nothing when no allergen is excluded", () => {
+    expect(containsAllergen({ allergens: null }, [])).toBe(false);
+    expect(containsAllergen({ allergens: ["fish"] }, [])).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { Bean, Egg, Fish, Flower, Leaf, Milk, Moon, Nut, Shell, Sprout, Vegan, Wheat, type LucideIcon } from "lucide-react";
+import type { Enums } from "@/integrations/supabase/types";
+
+export type Allergen = Enums<"allergen">;
+export type DietaryTag = Enums<"dietary_tag">;
+
+interface TagInfo<T extends string> {
+  key: T;
+  label: string;
+  icon: LucideIcon;
+}
+
+export const ALLERGENS: TagInfo<Allergen>[] = [
+  { key: "gluten", label: "Gluten", icon: Wheat },
+  { key: "dairy", label: "Dairy", icon: Milk },
+  { key: "nuts", label: "Tree nuts", icon: Nut },
+  { key: "peanuts", label: "Peanuts", icon: Bean },
+  { key: "egg", label: "Egg", icon: Egg },
+  { key: "soy", label: "Soy", icon: Sprout },
+  { key: "fish", label: "Fish", icon: Fish },
+  { key: "shellfish", label: "Shellfish", icon: Shell },
+  { key: "sesame", label: "Sesame", icon: Flower },
+];
+
+export const DIETARY_TAGS: TagInfo<DietaryTag>[] = [
+  { key: "vegetarian", label: "Vegetarian", icon: Leaf },
+  { key: "vegan", label: "Vegan", icon: Vegan },
+  { key: "jain", label: "Jain", icon: Sprout },
+  { key: "halal", label: "Halal", icon: Moon },
+];
+
+export const ALLERGEN_LABELS = Object.fromEntries(ALLERGENS.map(({ key, label }) => [key, label])) as Record<
+  Allergen,
+  string
+>;
+
+export const DIETARY_TAG_LABELS = Object.fromEntries(DIETARY_TAGS.map(({ key, label }) => [key, label])) as Record<
+  DietaryTag,
+  string
+>;
+
+// Mirrors the menu_items CHECK constraints
+const EXCLUDED_ALLERGENS: Partial<Record<DietaryTag, Allergen[]>> = {
+  vegetarian: ["fish", "shellfish"],
+  vegan: ["fish", "shellfish", "dairy", "egg"],
+  jain: ["fish", "shellfish"],
+};
+
+/** Vegan and Jain dishes are always vegetarian. */
+export const normaliseDietaryTags = (tags: DietaryTag[]): DietaryTag[] => {
+  const result = new Set(tags);
+  if (result.has("vegan") || result.has("jain")) result.add("vegetarian");
+  return DIETARY_TAGS.map(({ key }) => key).filter((key) => result.has(key));
+};
+
+/** Returns a message for the first dietary tag that conflicts with the allergens, if any. */
+export const findDietaryConflict = (tags: DietaryTag[], allergens: Allergen[]) => {
+  for (const tag of normaliseDietaryTags(tags)) {
+    const conflict = EXCLUDED_ALLERGENS[tag]?.find((allergen) => allergens.includes(allergen));
+    if (conflict) {
+      return `${DIETARY_TAG_LABELS[tag]} dishes cannot contain ${ALLERGEN_LABELS[conflict].toLowerCase()}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Whether a dish may contain any of the excluded allergens. A dish whose
+ * allergens were never declared (null) may contain any of them.
+ */
+export const containsAllergen = (item: { allergens?: Allergen[] | null }, excluded: Allergen[]) =>
+  excluded.length > 0 && (!item.allergens || item.allergens.some((allergen) => excluded.includes(allergen)));
@@ -0,0 +1,9 @@
+/** Saves content generated in the browser, e.g. an invoice or export, as a file. */
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
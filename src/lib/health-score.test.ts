@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeHealthScore,
+  gradeForScore,
+  NEGATIVE_THRESHOLDS,
+  POSITIVE_THRESHOLDS,
+  PROTEIN_CAP_NEGATIVE_POINTS,
+} from "@/lib/health-score";
+
+// A dish that scores no points either way
+const BASE = { calories: 0, sugar_g: 0, sodium_mg: 0, fat_g: 0, protein_g: 0, fibre_g: 0 };
+
+describe("computeHealthScore", () => {
+  describe.each(Object.entries(NEGATIVE_THRESHOLDS))("negative points for %s", (key, thresholds) => {
+    it.each(thresholds.map((threshold, index) => [threshold, index]))(
+      "adds a point only above %d",
+      (threshold, index) => {
+        expect(computeHealthScore({ ...BASE, [key]: threshold }).negativePoints).toBe(index);
+        expect(computeHealthScore({ ...BASE, [key]: threshold + 0.1 }).negativePoints).toBe(index + 1);
+      }
+    );
+
+    it("stops at one point per threshold", () => {
+      expect(computeHealthScore({ ...BASE, [key]: 1_000_000 }).negativePoints).toBe(thresholds.length);
+    });
+  });
+
+  describe.each(Object.entries(POSITIVE_THRESHOLDS))("positive points for %s", (key, thresholds) => {
+    it.each(thresholds.map((threshold, index) => [threshold, index]))(
+      "adds a point only above %d",
+      (threshold, index) => {
+        expect(computeHealthScore({ ...BASE, [key]: threshold }).positivePoints).toBe(index);
+        expect(computeHealthScore({ ...BASE, [key]: threshold + 0.1 }).positivePoints).toBe(index + 1);
+      }
+    );
+
+    it("stops at one point per threshold", () => {
+      expect(computeHealthScore({ ...BASE, [key]: 1_000_000 }).positivePoints).toBe(thresholds.length);
+    });
+  });
+
+  it.each(["calories", "sugar_g", "sodium_mg", "fat_g"])("leaves a dish without %s ungraded", (key) => {
+    expect(computeHealthScore({ ...BASE, [key]: null })).toBeNull();
+    expect(computeHealthScore({ ...BASE, [key]: undefined })).toBeNull();
+  });
+
+  it("does not grade a dish on calories alone", () => {
+    expect(computeHealthScore({ calories: 600 })).toBeNull();
+  });
+
+  it("scores missing protein and fibre as no points", () => {
+    expect(computeHealthScore({ ...BASE, calories: 250, protein_g: null, fibre_g: undefined })).toEqual({
+      negativePoints: 1,
+      positivePoints: 0,
+      score: 1,
+      grade: "B",
+    });
+  });
+
+  describe("protein cap", () => {
+    // 1100+ kcal gives 10 negative points; sugar adds the rest
+    const withNegativePoints = (negativePoints: number) => ({
+      ...BASE,
+      calories: 1200,
+      sugar_g: negativePoints > 10 ? NEGATIVE_THRESHOLDS.sugar_g[negativePoints - 11] + 1 : 0,
+      protein_g: 30,
+    });
+
+    it("counts protein just below the cap", () => {
+      const result = computeHealthScore(withNegativePoints(PROTEIN_CAP_NEGATIVE_POINTS - 1));
+      expect(result.negativePoints).toBe(PROTEIN_CAP_NEGATIVE_POINTS - 1);
+      expect(result.positivePoints).toBe(5);
+    });
+
+    it("ignores protein at the cap", () => {
+      const result = computeHealthScore(withNegativePoints(PROTEIN_CAP_NEGATIVE_POINTS));
+      expect(result.negativePoints).toBe(PROTEIN_CAP_NEGATIVE_POINTS);
+      expect(result.positivePoints).toBe(0);
+    });
+
+    it("still counts fibre at the cap", () => {
+      const result = computeHealthScore({ ...withNegativePoints(PROTEIN_CAP_NEGATIVE_POINTS), fibre_g: 11 });
+      expect(result.positivePoints).toBe(5);
+      expect(result.score).toBe(PROTEIN_CAP_NEGATIVE_POINTS - 5);
+    });
+  });
+
+  describe("score range", () => {
+    it("bottoms out at -10 for a light dish rich in protein and fibre", () => {
+      const result = computeHealthScore({ ...BASE, protein_g: 100, fibre_g: 100 });
+      expect(result.score).toBe(-10);
+      expect(result.grade).toBe("A");
+    });
+
+    it("tops out at 40 however much of everything a dish has", () => {
+      const result = computeHealthScore({
+        calories: 5000,
+        sugar_g: 500,
+        sodium_mg: 20000,
+        fat_g: 500,
+        protein_g: 500,
+        fibre_g: 0,
+      });
+      expect(result.score).toBe(40);
+      expect(result.grade).toBe("E");
+    });
+  });
+});
+
+describe("gradeForScore", () => {
+  it.each([
+    [0, "A"],
+    [1, "B"],
+    [5, "B"],
+    [6, "C"],
+    [11, "C"],
+    [12, "D"],
+    [17, "D"],
+    [18, "E"],
+  ])("grades a score of %d as %s", (score, grade) => {
+    expect(gradeForScore(score)).toBe(grade);
+  });
+
+  it("keeps out-of-range scores at the outer grades", () => {
+    expect(gradeForScore(-100)).toBe("A");
+    expect(gradeForScore(100)).toBe("E");
+  });
+});
@@ -0,0 +1,93 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+// Nutri-Score-style health score per serving. The database computes the stored
+// grade with the same rules (compute_health_score / health_grade_for_score),
+// so keep both in sync. Dishes missing sugar, sodium or fat are not graded;
+// missing protein or fibre simply scores no points.
+
+export type HealthGrade = Enums<"health_grade">;
+
+export const HEALTH_GRADES: HealthGrade[] = ["A", "B", "C", "D", "E"];
+
+export interface HealthScoreInput {
+  calories: number | null;
+  sugar_g?: number | null;
+  sodium_mg?: number | null;
+  fat_g?: number | null;
+  protein_g?: number | null;
+  fibre_g?: number | null;
+}
+
+export interface HealthScore {
+  negativePoints: number;
+  positivePoints: number;
+  score: number;
+  grade: HealthGrade;
+}
+
+// One point for every threshold the value exceeds
+export const NEGATIVE_THRESHOLDS = {
+  calories: [200, 300, 400, 500, 600, 700, 800, 900, 1000, 1100],
+  sugar_g: [5, 10, 15, 20, 25, 30, 35, 40, 45, 50],
+  sodium_mg: [200, 400, 600, 800, 1000, 1200, 1400, 1600, 1800, 2000],
+  fat_g: [5, 10, 15, 20, 25, 30, 35, 40, 45, 50],
+};
+
+export const POSITIVE_THRESHOLDS = {
+  protein_g: [5, 10, 15, 20, 25],
+  fibre_g: [2, 4, 6, 8, 10],
+};
+
+// Protein stops counting once a dish has this many negative points
+export const PROTEIN_CAP_NEGATIVE_POINTS = 11;
+
+// Highest score (inclusive) for each grade; anything above D is E
+const GRADE_LIMITS: [HealthGrade, number][] = [
+  ["A", 0],
+  ["B", 5],
+  ["C", 11],
+  ["D", 17],
+];
+
+export const HEALTHY_GRADES: HealthGrade[] = ["A", "B"];
+
+export const HEALTH_GRADE_LABELS: Record<HealthGrade, string> = {
+  A: "Excellent choice",
+  B: "Good choice",
+  C: "Enjoy in moderation",
+  D: "Occasional treat",
+  E: "Indulgent",
+};
+
+export const points = (value: number, thresholds: number[]) =>
+  thresholds.filter((threshold) => value > threshold).length;
+
+export const gradeForScore = (score: number): HealthGrade =>
+  GRADE_LIMITS.find(([, limit]) => score <= limit)?.[0] ?? "E";
+
+/** The dish's score and grade, or null when it lacks the nutrients to be graded. */
+export const computeHealthScore = (input: HealthScoreInput): HealthScore | null => {
+  const { calories, sugar_g, sodium_mg, fat_g } = input;
+  if (calories == null || sugar_g == null || sodium_mg == null || fat_g == null) return null;
+
+  const negativePoints =
+    points(calories, NEGATIVE_THRESHOLDS.calories) +
+    points(sugar_g, NEGATIVE_THRESHOLDS.sugar_g) +
+    points(sodium_mg, NEGATIVE_THRESHOLDS.sodium_mg) +
+    points(fat_g, NEGATIVE_THRESHOLDS.fat_g);
+
+  const proteinPoints =
+    negativePoints >= PROTEIN_CAP_NEGATIVE_POINTS ? 0 : points(input.protein_g ?? 0, POSITIVE_THRESHOLDS.protein_g);
+  const positivePoints = proteinPoints + points(input.fibre_g ?? 0, POSITIVE_THRESHOLDS.fibre_g);
+
+  const score = negativePoints - positivePoints;
+  return { negativePoints, positivePoints, score, grade: gradeForScore(score) };
+};
+
+export const isHealthyGrade = (grade: HealthGrade) => HEALTHY_GRADES.includes(grade);
+
+/** Healthy flag for an order line, falling back to the old flag for orders placed before grading. */
+export const isHealthyOrderItem = (item: {
+  health_grade_at_time?: HealthGrade | null;
+  is_healthy_at_time: boolean;
+}) => (item.health_grade_at_time ? isHealthyGrade(item.health_grade_at_time) : item.is_healthy_at_time);
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  canIssueInvoice,
+  getInvoiceNumber,
+  renderMonthlyStatementPdf,
+  renderOrderInvoice,
+  renderOrderInvoicePdf,
+  type InvoiceOrder,
+} from "@/lib/invoices";
+
+// The client needs browser storage; these tests only cover the document renderers
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const order = (overrides: Partial<InvoiceOrder> = {}): InvoiceOrder => ({
+  id: "11111111-1111-4111-8111-111111111111",
+  invoice_number: 42,
+  created_at: new Date(2025, 11, 5, 13, 30).toISOString(),
+  scheduled_for: null,
+  cancelled_at: null,
+  delivery_address: "12 MG Road, Bengaluru",
+  coupon_code: null,
+  refunded_amount: 0,
+  subtotal_amount: 400,
+  discount_amount: 0,
+  delivery_fee: 30,
+  packaging_charge: 0,
+  tax_amount: 20,
+  tip_amount: 0,
+  rounding_adjustment: 0,
+  total_amount: 450,
+  status: "delivered",
+  payment_method: "upi",
+  restaurants: { name: "Green Bowl", cuisine_type: "Salads", gstin: "29ABCDE1234F1Z5", address: "5 Church Street" },
+  order_items: [
+    {
+      id: "22222222-2222-4222-8222-222222222222",
+      quantity: 2,
+      refunded_quantity: 0,
+      price_at_time: 200,
+      calories_at_time: 350,
+      menu_items: { name: "Quinoa Salad" },
+    },
+  ],
+  refunds: [],
+  ...overrides,
+});
+
+describe("getInvoiceNumber", () => {
+  it("formats the database serial", () => {
+    expect(getInvoiceNumber({ invoice_number: 42 })).toBe("FW-000042");
+    expect(getInvoiceNumber({ invoice_number: 1234567 })).toBe("FW-1234567");
+  });
+});
+
+describe("canIssueInvoice", () => {
+  it("only issues invoices for numbered orders", () => {
+    expect(canIssueInvoice({ invoice_number: 1 })).toBe(true);
+    expect(canIssueInvoice({ invoice_number: null })).toBe(false);
+  });
+});
+
+describe("renderOrderInvoice", () => {
+  it("titles the invoice with its serial", () => {
+    expect(renderOrderInvoice(order(), "eater@example.com")).toContain("<title>Tax Invoice FW-000042</title>");
+  });
+});
+
+describe("renderOrderInvoicePdf", () => {
+  it("produces a PDF with the invoice details", () => {
+    const pdf = renderOrderInvoicePdf(order(), "eater@example.com").output();
+
+    expect(pdf.startsWith("%PDF-")).toBe(true);
+    expect(pdf).toContain("Tax Invoice");
+    expect(pdf).toContain("No. FW-000042");
+    expect(pdf).toContain("Quinoa Salad");
+    expect(pdf).toContain("Rs. 450.00");
+  });
+});
+
+describe("renderMonthlyStatementPdf", () => {
+  it("leaves out cancelled and unnumbered orders", () => {
+    const pdf = renderMonthlyStatementPdf(
+      [
+        order(),
+        order({ id: "33333333-3333-4333-8333-333333333333", invoice_number: 43, status: "cancelled" }),
+        order({ id: "44444444-4444-4444-8444-444444444444", invoice_number: null, status: "awaiting_payment" }),
+      ],
+      new Date(2025, 11, 1),
+      "eater@example.com"
+    ).output();
+
+    expect(pdf).toContain("December 2025");
+    expect(pdf).toContain("1 order");
+    expect(pdf).toContain("FW-000042");
+    expect(pdf).not.toContain("FW-000043");
+  });
+});
@@ -0,0 +1,554 @@
+import { format } from "date-fns";
+import { jsPDF } from "jspdf";
+import autoTable, { type CellInput, type RowInput } from "jspdf-autotable";
+import { ORDER_STATUS_LABELS, type OrderStatus } from "@/lib/order-status";
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from "@/lib/payments";
+import { formatAmount, getBillLines, getOrderBill, type Bill } from "@/lib/pricing";
+import { getKeptQuantity, REFUND_STATUS_LABELS, type RefundStatus } from "@/lib/refunds";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Same check as restaurants_gstin_check
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export interface InvoiceOrder
+  extends Pick<
+    Tables<"orders">,
+    | "id"
+    | "created_at"
+    | "scheduled_for"
+    | "cancelled_at"
+    | "delivery_address"
+    | "coupon_code"
+    | "refunded_amount"
+    | "subtotal_amount"
+    | "discount_amount"
+    | "delivery_fee"
+    | "packaging_charge"
+    | "tax_amount"
+    | "tip_amount"
+    | "rounding_adjustment"
+    | "total_amount"
+    | "invoice_number"
+  > {
+  status: OrderStatus;
+  payment_method: PaymentMethod;
+  restaurants: { name: string; cuisine_type: string; gstin: string | null; address: string | null };
+  order_items: {
+    id: string;
+    quantity: number;
+    refunded_quantity: number;
+    price_at_time: number;
+    calories_at_time: number;
+    menu_items: { name: string };
+  }[];
+  refunds: { id: string; amount: number; reason: string; status: RefundStatus; created_at: string }[];
+}
+
+/**
+ * Invoices are only issued for orders that were paid for or will be on
+ * delivery, which is when the database numbers them.
+ */
+export const canIssueInvoice = (order: { invoice_number: number | null }) => order.invoice_number != null;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char] ?? char);
+
+const formatTimestamp = (value: string) => format(new Date(value), "dd MMM yyyy, hh:mm a");
+
+/** The order's serial from invoice_number_seq, e.g. FW-000042. */
+export const getInvoiceNumber = (order: { invoice_number: number | null }) =>
+  `FW-${String(order.invoice_number).padStart(6, "0")}`;
+
+const getOrderCalories = (order: InvoiceOrder) =>
+  order.order_items.reduce((sum, item) => sum + item.calories_at_time * getKeptQuantity(item), 0);
+
+const getNetAmount = (order: InvoiceOrder) => Number(order.total_amount) - Number(order.refunded_amount);
+
+const getInvoiceTitle = (order: InvoiceOrder) => (order.restaurants.gstin ? "Tax Invoice" : "Receipt");
+
+const getOrderTimestamps = (order: InvoiceOrder) =>
+  [
+    `Placed: ${formatTimestamp(order.created_at)}`,
+    order.scheduled_for && `Scheduled for: ${formatTimestamp(order.scheduled_for)}`,
+    order.cancelled_at && `Cancelled: ${formatTimestamp(order.cancelled_at)}`,
+  ].filter(Boolean) as string[];
+
+const getInvoiceNote = (order: InvoiceOrder) =>
+  `Total energy: ${getOrderCalories(order)} kcal${
+    order.refunds.length > 0 ? " (excluding refunded items)" : ""
+  }. GST is charged on food and packaging; delivery and tips are not taxed.`;
+
+// Unpaid and cancelled orders are left out of statements
+const getBilledOrders = (orders: InvoiceOrder[]) =>
+  orders
+    .filter((order) => canIssueInvoice(order) && order.status !== "cancelled")
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+const getStatementNote = (calories: number) =>
+  `Total energy: ${calories.toLocaleString("en-IN")} kcal. Download each order's invoice from My Orders for its itemised GST details.`;
+
+const getFooterNote = () =>
+  `Generated on ${formatTimestamp(new Date().toISOString())} by FoodWise. This is a computer-generated document and needs no signature.`;
+
+const STYLES = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2937; font-size: 13px; margin: 0; padding: 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  .muted { color: #6b7280; }
+  .header { display: flex; justify-content: space-between; gap: 24px; border-bottom: 2px solid #16a34a; padding-bottom: 12px; }
+  .parties { display: flex; justify-content: space-between; gap: 24px; margin-top: 16px; }
+  .parties div { flex: 1; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; font-weight: 600; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { margin-left: auto; width: 320px; margin-top: 12px; }
+  .totals td { border: none; padding: 3px 8px; }
+  .grand td { border-top: 2px solid #1f2937; font-weight: 700; font-size: 15px; }
+  .footer { margin-top: 32px; font-size: 11px; }
+  @media print { body { padding: 0; } }
+`;
+
+const renderDocument = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+<p class="footer muted">${escapeHtml(getFooterNote())}</p>
+</body>
+</html>
+`;
+
+const renderBillRows = (bill: Bill, couponCode: string | null) =>
+  getBillLines(bill, couponCode)
+    .map(
+      (line) =>
+        `<tr><td>${escapeHtml(line.label)}</td><td class="num">${line.free ? "FREE" : escapeHtml(formatAmount(line.amount))}</td></tr>`
+    )
+    .join("");
+
+const renderItemRows = (order: InvoiceOrder) =>
+  order.order_items
+    .map((item) => {
+      const refunded = item.quantity - getKeptQuantity(item);
+      return `<tr>
+  <td>${escapeHtml(item.menu_items.name)}${refunded > 0 ? ` <span class="muted">(${refunded} refunded)</span>` : ""}</td>
+  <td class="num">${item.quantity}</td>
+  <td class="num">${escapeHtml(formatAmount(Number(item.price_at_time)))}</td>
+  <td class="num">${item.calories_at_time * item.quantity}</td>
+  <td class="num">${escapeHtml(formatAmount(Number(item.price_at_time) * item.quantity))}</td>
+</tr>`;
+    })
+    .join("");
+
+const renderRefundRows = (order: InvoiceOrder) =>
+  order.refunds
+    .map(
+      (refund) => `<tr>
+  <td>${escapeHtml(formatTimestamp(refund.created_at))}</td>
+  <td>${escapeHtml(refund.reason)}</td>
+  <td>${escapeHtml(REFUND_STATUS_LABELS[refund.status])}</td>
+  <td class="num">${escapeHtml(formatAmount(-Number(refund.amount)))}</td>
+</tr>`
+    )
+    .join("");
+
+/**
+ * A printable invoice for one order: the restaurant and customer, each item at
+ * the price it was ordered for, the stored charges and any refunds. It is a
+ * "Tax Invoice" when the restaurant has a GSTIN, otherwise a receipt.
+ */
+export const renderOrderInvoice = (order: InvoiceOrder, customerEmail: string) => {
+  const restaurant = order.restaurants;
+  const title = getInvoiceTitle(order);
+  const netAmount = getNetAmount(order);
+  const timestamps = getOrderTimestamps(order);
+
+  const body = `
+<div class="header">
+  <div>
+    <h1>${title}</h1>
+    <div class="muted">No. ${escapeHtml(getInvoiceNumber(order))}</div>
+    <div class="muted">Order ID: ${escapeHtml(order.id)}</div>
+  </div>
+  <div class="num">
+    ${timestamps.map((line) => `<div>${escapeHtml(line)}</div>`).join("")}
+    <div>Status: ${escapeHtml(ORDER_STATUS_LABELS[order.status])}</div>
+    <div>Payment: ${escapeHtml(PAYMENT_METHOD_LABELS[order.payment_method])}</div>
+  </div>
+</div>
+
+<div class="parties">
+  <div>
+    <strong>Sold by</strong>
+    <div>${escapeHtml(restaurant.name)} <span class="muted">(${escapeHtml(restaurant.cuisine_type)})</span></div>
+    ${restaurant.address ? `<div>${escapeHtml(restaurant.address)}</div>` : ""}
+    ${restaurant.gstin ? `<div>GSTIN: ${escapeHtml(restaurant.gstin)}</div>` : ""}
+  </div>
+  <div>
+    <strong>Billed to</strong>
+    <div>${escapeHtml(customerEmail)}</div>
+    <div>${escapeHtml(order.delivery_address)}</div>
+  </div>
+</div>
+
+<h2>Items</h2>
+<table>
+  <thead><tr><th>Item</th><th class="num">Qty</th><th class="num">Rate</th><th class="num">Calories</th><th class="num">Amount</th></tr></thead>
+  <tbody>${renderItemRows(order)}</tbody>
+</table>
+
+<table class="totals">
+  <tbody>
+    ${renderBillRows(getOrderBill(order), order.coupon_code)}
+    <tr class="grand"><td>Total</td><td class="num">${escapeHtml(formatAmount(Number(order.total_amount)))}</td></tr>
+    ${
+      Number(order.refunded_amount) > 0
+        ? `<tr><td>Refunded</td><td class="num">${escapeHtml(formatAmount(-Number(order.refunded_amount)))}</td></tr>
+    <tr class="grand"><td>Net Paid</td><td class="num">${escapeHtml(formatAmount(netAmount))}</td></tr>`
+        : ""
+    }
+  </tbody>
+</table>
+
+<p class="muted">${escapeHtml(getInvoiceNote(order))}</p>
+
+${
+  order.refunds.length > 0
+    ? `<h2>Refunds</h2>
+<table>
+  <thead><tr><th>Date</th><th>Reason</th><th>Status</th><th class="num">Amount</th></tr></thead>
+  <tbody>${renderRefundRows(order)}</tbody>
+</table>`
+    : ""
+}`;
+
+  return renderDocument(`${title} ${getInvoiceNumber(order)}`, body);
+};
+
+/**
+ * One statement for all of a month's orders: a summary line per order and the
+ * month's totals, net of refunds. Unpaid and cancelled orders are left out.
+ */
+export const renderMonthlyStatement = (orders: InvoiceOrder[], month: Date, customerEmail: string) => {
+  const billed = getBilledOrders(orders);
+  const sum = (pick: (order: InvoiceOrder) => number) => billed.reduce((total, order) => total + pick(order), 0);
+  const monthLabel = format(month, "MMMM yyyy");
+
+  const rows = billed
+    .map(
+      (order) => `<tr>
+  <td>${escapeHtml(format(new Date(order.created_at), "dd MMM yyyy"))}</td>
+  <td>${escapeHtml(getInvoiceNumber(order))}</td>
+  <td>${escapeHtml(order.restaurants.name)}${order.restaurants.gstin ? `<div class="muted">GSTIN: ${escapeHtml(order.restaurants.gstin)}</div>` : ""}</td>
+  <td class="num">${getOrderCalories(order)}</td>
+  <td class="num">${escapeHtml(formatAmount(Number(order.tax_amount)))}</td>
+  <td class="num">${escapeHtml(formatAmount(Number(order.total_amount)))}</td>
+  <td class="num">${Number(order.refunded_amount) > 0 ? escapeHtml(formatAmount(-Number(order.refunded_amount))) : "-"}</td>
+  <td class="num">${escapeHtml(formatAmount(getNetAmount(order)))}</td>
+</tr>`
+    )
+    .join("");
+
+  const body = `
+<div class="header">
+  <div>
+    <h1>Monthly Statement</h1>
+    <div class="muted">${escapeHtml(monthLabel)}</div>
+  </div>
+  <div class="num">
+    <div>${escapeHtml(customerEmail)}</div>
+    <div>${billed.length} ${billed.length === 1 ? "order" : "orders"}</div>
+  </div>
+</div>
+
+${
+  billed.length === 0
+    ? `<p>No orders in ${escapeHtml(monthLabel)}.</p>`
+    : `<table>
+  <thead><tr><th>Date</th><th>Invoice No.</th><th>Restaurant</th><th class="num">Calories</th><th class="num">GST</th><th class="num">Total</th><th class="num">Refunded</th><th class="num">Net</th></tr></thead>
+  <tbody>${rows}</tbody>
+</table>
+
+<table class="totals">
+  <tbody>
+    <tr><td>Orders</td><td class="num">${escapeHtml(formatAmount(sum((order) => Number(order.total_amount))))}</td></tr>
+    <tr><td>of which GST</td><td class="num">${escapeHtml(formatAmount(sum((order) => Number(order.tax_amount))))}</td></tr>
+    <tr><td>Refunds</td><td class="num">${escapeHtml(formatAmount(-sum((order) => Number(order.refunded_amount))))}</td></tr>
+    <tr class="grand"><td>Net Spent</td><td class="num">${escapeHtml(formatAmount(sum(getNetAmount)))}</td></tr>
+  </tbody>
+</table>
+
+<p class="muted">${escapeHtml(getStatementNote(sum(getOrderCalories)))}</p>`
+}`;
+
+  return renderDocument(`Statement ${monthLabel}`, body);
+};
+
+// The PDFs follow the HTML documents' layout on A4, in millimetres
+const PDF_MARGIN = 16;
+const PDF_LINE_HEIGHT = 5;
+const PDF_TEXT: [number, number, number] = [31, 41, 55];
+const PDF_MUTED: [number, number, number] = [107, 114, 128];
+const PDF_ACCENT: [number, number, number] = [22, 163, 74];
+
+// The standard PDF fonts have no rupee sign
+const formatPdfAmount = (amount: number) => formatAmount(amount).replace("₹", "Rs. ");
+
+const createPdf = () => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(...PDF_TEXT);
+  return doc;
+};
+
+const getPdfWidth = (doc: jsPDF) => doc.internal.pageSize.getWidth();
+
+const getLastTableY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+/** Starts a new page when fewer than `height` mm are left, returning where to continue. */
+const ensurePdfSpace = (doc: jsPDF, y: number, height: number) => {
+  if (y + height <= doc.internal.pageSize.getHeight() - PDF_MARGIN) return y;
+  doc.addPage();
+  return PDF_MARGIN;
+};
+
+/** The title and its details on the left, other details on the right, ruled off underneath. */
+const drawPdfHeader = (doc: jsPDF, title: string, leftLines: string[], rightLines: string[]) => {
+  const right = getPdfWidth(doc) - PDF_MARGIN;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(title, PDF_MARGIN, PDF_MARGIN + 4);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(...PDF_MUTED);
+  leftLines.forEach((line, index) => doc.text(line, PDF_MARGIN, PDF_MARGIN + 10 + index * PDF_LINE_HEIGHT));
+  doc.setTextColor(...PDF_TEXT);
+  rightLines.forEach((line, index) =>
+    doc.text(line, right, PDF_MARGIN + 4 + index * PDF_LINE_HEIGHT, { align: "right" })
+  );
+
+  const bottom = Math.max(PDF_MARGIN + 10 + leftLines.length * PDF_LINE_HEIGHT, PDF_MARGIN + 4 + rightLines.length * PDF_LINE_HEIGHT);
+  doc.setDrawColor(...PDF_ACCENT);
+  doc.setLineWidth(0.6);
+  doc.line(PDF_MARGIN, bottom, right, bottom);
+  return bottom + 8;
+};
+
+const drawPdfHeading = (doc: jsPDF, y: number, text: string) => {
+  const top = ensurePdfSpace(doc, y, 20);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text(text, PDF_MARGIN, top);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  return top + 2;
+};
+
+/** A bordered table; columns listed in `numeric` are right-aligned like `.num` cells. */
+const drawPdfTable = (doc: jsPDF, y: number, head: string[], body: RowInput[], numeric: number[]) => {
+  autoTable(doc, {
+    startY: y,
+    head: [
+      head.map((content, column): CellInput => (numeric.includes(column) ? { content, styles: { halign: "right" } } : content)),
+    ],
+    body,
+    theme: "plain",
+    margin: { left: PDF_MARGIN, right: PDF_MARGIN },
+    styles: { fontSize: 9, cellPadding: 2, textColor: PDF_TEXT, lineColor: [229, 231, 235], lineWidth: { bottom: 0.2 } },
+    headStyles: { fillColor: [243, 244, 246], fontStyle: "bold" },
+    columnStyles: Object.fromEntries(numeric.map((column) => [column, { halign: "right" }])),
+  });
+  return getLastTableY(doc) + 6;
+};
+
+/** The right-hand label/amount block under a table, with grand totals in bold. */
+const drawPdfTotals = (doc: jsPDF, y: number, rows: { label: string; value: string; grand?: boolean }[]) => {
+  const width = 85;
+  const cell = (content: string, grand: boolean | undefined, halign: "left" | "right"): CellInput => ({
+    content,
+    styles: grand ? { fontStyle: "bold", fontSize: 11, halign } : { halign },
+  });
+  autoTable(doc, {
+    startY: y,
+    body: rows.map(({ label, value, grand }) => [cell(label, grand, "left"), cell(value, grand, "right")]),
+    theme: "plain",
+    tableWidth: width,
+    margin: { left: getPdfWidth(doc) - PDF_MARGIN - width, right: PDF_MARGIN },
+    styles: { fontSize: 10, cellPadding: 1.2, textColor: PDF_TEXT },
+    rowPageBreak: "avoid",
+  });
+  return getLastTableY(doc) + 6;
+};
+
+const drawPdfParagraph = (doc: jsPDF, y: number, text: string, fontSize = 9) => {
+  doc.setFontSize(fontSize);
+  const lines: string[] = doc.splitTextToSize(text, getPdfWidth(doc) - 2 * PDF_MARGIN);
+  const top = ensurePdfSpace(doc, y, lines.length * PDF_LINE_HEIGHT);
+  doc.setTextColor(...PDF_MUTED);
+  doc.text(lines, PDF_MARGIN, top);
+  doc.setTextColor(...PDF_TEXT);
+  doc.setFontSize(10);
+  return top + lines.length * PDF_LINE_HEIGHT + 2;
+};
+
+/** The PDF counterpart of renderOrderInvoice, ready to be saved with `doc.save()`. */
+export const renderOrderInvoicePdf = (order: InvoiceOrder, customerEmail: string) => {
+  const doc = createPdf();
+  const restaurant = order.restaurants;
+  let y = drawPdfHeader(
+    doc,
+    getInvoiceTitle(order),
+    [`No. ${getInvoiceNumber(order)}`, `Order ID: ${order.id}`],
+    [
+      ...getOrderTimestamps(order),
+      `Status: ${ORDER_STATUS_LABELS[order.status]}`,
+      `Payment: ${PAYMENT_METHOD_LABELS[order.payment_method]}`,
+    ]
+  );
+
+  const columnWidth = (getPdfWidth(doc) - 2 * PDF_MARGIN - 8) / 2;
+  const parties = [
+    {
+      heading: "Sold by",
+      lines: [
+        `${restaurant.name} (${restaurant.cuisine_type})`,
+        restaurant.address,
+        restaurant.gstin && `GSTIN: ${restaurant.gstin}`,
+      ],
+    },
+    { heading: "Billed to", lines: [customerEmail, order.delivery_address] },
+  ].map(({ heading, lines }) => ({
+    heading,
+    lines: (lines.filter(Boolean) as string[]).flatMap((line) => doc.splitTextToSize(line, columnWidth) as string[]),
+  }));
+  parties.forEach(({ heading, lines }, index) => {
+    const x = PDF_MARGIN + index * (columnWidth + 8);
+    doc.setFont("helvetica", "bold");
+    doc.text(heading, x, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(lines, x, y + PDF_LINE_HEIGHT);
+  });
+  y += (Math.max(...parties.map(({ lines }) => lines.length)) + 1) * PDF_LINE_HEIGHT + 6;
+
+  y = drawPdfHeading(doc, y, "Items");
+  y = drawPdfTable(
+    doc,
+    y,
+    ["Item", "Qty", "Rate", "Calories", "Amount"],
+    order.order_items.map((item) => {
+      const refunded = item.quantity - getKeptQuantity(item);
+      return [
+        `${item.menu_items.name}${refunded > 0 ? ` (${refunded} refunded)` : ""}`,
+        item.quantity,
+        formatPdfAmount(Number(item.price_at_time)),
+        item.calories_at_time * item.quantity,
+        formatPdfAmount(Number(item.price_at_time) * item.quantity),
+      ];
+    }),
+    [1, 2, 3, 4]
+  );
+
+  y = drawPdfTotals(doc, y - 4, [
+    ...getBillLines(getOrderBill(order), order.coupon_code).map((line) => ({
+      label: line.label,
+      value: line.free ? "FREE" : formatPdfAmount(line.amount),
+    })),
+    { label: "Total", value: formatPdfAmount(Number(order.total_amount)), grand: true },
+    ...(Number(order.refunded_amount) > 0
+      ? [
+          { label: "Refunded", value: formatPdfAmount(-Number(order.refunded_amount)) },
+          { label: "Net Paid", value: formatPdfAmount(getNetAmount(order)), grand: true },
+        ]
+      : []),
+  ]);
+
+  y = drawPdfParagraph(doc, y, getInvoiceNote(order));
+
+  if (order.refunds.length > 0) {
+    y = drawPdfHeading(doc, y + 4, "Refunds");
+    y = drawPdfTable(
+      doc,
+      y,
+      ["Date", "Reason", "Status", "Amount"],
+      order.refunds.map((refund) => [
+        formatTimestamp(refund.created_at),
+        refund.reason,
+        REFUND_STATUS_LABELS[refund.status],
+        formatPdfAmount(-Number(refund.amount)),
+      ]),
+      [3]
+    );
+  }
+
+  drawPdfParagraph(doc, y + 6, getFooterNote(), 8);
+  return doc;
+};
+
+/** The PDF counterpart of renderMonthlyStatement. */
+export const renderMonthlyStatementPdf = (orders: InvoiceOrder[], month: Date, customerEmail: string) => {
+  const doc = createPdf();
+  const billed = getBilledOrders(orders);
+  const sum = (pick: (order: InvoiceOrder) => number) => billed.reduce((total, order) => total + pick(order), 0);
+  const monthLabel = format(month, "MMMM yyyy");
+  let y = drawPdfHeader(doc, "Monthly Statement", [monthLabel], [
+    customerEmail,
+    `${billed.length} ${billed.length === 1 ? "order" : "orders"}`,
+  ]);
+
+  if (billed.length === 0) {
+    y = drawPdfParagraph(doc, y, `No orders in ${monthLabel}.`, 10);
+  } else {
+    y = drawPdfTable(
+      doc,
+      y,
+      ["Date", "Invoice No.", "Restaurant", "Calories", "GST", "Total", "Refunded", "Net"],
+      billed.map((order) => [
+        format(new Date(order.created_at), "dd MMM yyyy"),
+        getInvoiceNumber(order),
+        order.restaurants.gstin ? `${order.restaurants.name}\nGSTIN: ${order.restaurants.gstin}` : order.restaurants.name,
+        getOrderCalories(order),
+        formatPdfAmount(Number(order.tax_amount)),
+        formatPdfAmount(Number(order.total_amount)),
+        Number(order.refunded_amount) > 0 ? formatPdfAmount(-Number(order.refunded_amount)) : "-",
+        formatPdfAmount(getNetAmount(order)),
+      ]),
+      [3, 4, 5, 6, 7]
+    );
+
+    y = drawPdfTotals(doc, y - 4, [
+      { label: "Orders", value: formatPdfAmount(sum((order) => Number(order.total_amount))) },
+      { label: "of which GST", value: formatPdfAmount(sum((order) => Number(order.tax_amount))) },
+      { label: "Refunds", value: formatPdfAmount(-sum((order) => Number(order.refunded_amount))) },
+      { label: "Net Spent", value: formatPdfAmount(sum(getNetAmount)), grand: true },
+    ]);
+
+    y = drawPdfParagraph(doc, y, getStatementNote(sum(getOrderCalories)));
+  }
+
+  drawPdfParagraph(doc, y + 6, getFooterNote(), 8);
+  return doc;
+};
+
+/**
+ * Opens an HTML document in a new window and brings up the print dialog.
+ * Returns false if the popup was blocked.
+ */
+export const printHtml = (html: string) => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the new window a moment to lay out before printing
+  printWindow.setTimeout(() => printWindow.print(), 250);
+  return true;
+};
@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { MealLogFormValues } from "@/components/MealLogForm";
+import type { NutrientValues } from "@/lib/nutrition";
+import { fetchAllRows } from "@/lib/pagination";
+
+export type MealLog = Tables<"meal_logs">;
+
+// Logged meals only record the macros; other nutrients count as not provided
+export const MEAL_LOG_MACROS = ["protein_g", "carbohydrates_g", "fat_g"] as const;
+
+/** Maps meal log form values to `meal_logs` columns. */
+export const toMealLogPayload = (values: MealLogFormValues) => ({
+  name: values.name,
+  calories: values.calories,
+  is_healthy: values.is_healthy,
+  eaten_at: new Date(values.eaten_at).toISOString(),
+  ...Object.fromEntries(MEAL_LOG_MACROS.map((key) => [key, values[key] ?? null])),
+});
+
+export const fromMealLog = (log: Pick<MealLog, (typeof MEAL_LOG_MACROS)[number]>): NutrientValues => ({
+  protein_g: log.protein_g,
+  carbohydrates_g: log.carbohydrates_g,
+  fat_g: log.fat_g,
+});
+
+/** The user's meals logged as eaten since a date, newest first. */
+export const fetchMealLogs = (userId: string, since: Date) =>
+  fetchAllRows((from, to) =>
+    supabase
+      .from("meal_logs")
+      .select("*")
+      .eq("user_id", userId)
+      .gte("eaten_at", since.toISOString())
+      .order("eaten_at", { ascending: false })
+      .order("id")
+      .range(from, to)
+  );
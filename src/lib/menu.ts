@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { Constants } from "@/integrations/supabase/types";
+import { findDietaryConflict } from "@/lib/dietary";
+import { NUTRIENTS } from "@/lib/nutrition";
+
+// Nutrients are optional; an empty input is stored as "not provided"
+const optionalNutrient = z.preprocess(
+  (value) => (value === "" || value === null ? undefined : value),
+  z.coerce.number().nonnegative("Must be 0 or more").optional()
+);
+
+/** Validates the menu item editor, including dietary tags that contradict the allergens. */
+export const menuItemSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+  category: z.string().trim().min(1, "Category is required").max(50),
+  price: z.coerce.number().positive("Price must be greater than 0"),
+  calories: z.coerce.number().int("Calories must be a whole number").positive("Calories must be greater than 0"),
+  image_url: z.string().trim().url("Enter a valid image URL").or(z.literal("")).optional(),
+  protein_g: optionalNutrient,
+  carbohydrates_g: optionalNutrient,
+  fat_g: optionalNutrient,
+  fibre_g: optionalNutrient,
+  sugar_g: optionalNutrient,
+  sodium_mg: optionalNutrient,
+  allergens: z.array(z.enum(Constants.public.Enums.allergen)),
+  dietary_tags: z.array(z.enum(Constants.public.Enums.dietary_tag)),
+}).superRefine((values, ctx) => {
+  const conflict = findDietaryConflict(values.dietary_tags, values.allergens);
+  if (conflict) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["dietary_tags"], message: conflict });
+});
+
+export type MenuItemFormValues = z.infer<typeof menuItemSchema>;
+
+/** Maps menu item form values to `menu_items` columns. */
+export const toMenuItemPayload = (values: MenuItemFormValues) => ({
+  name: values.name,
+  description: values.description || null,
+  category: values.category,
+  price: values.price,
+  calories: values.calories,
+  image_url: values.image_url || null,
+  allergens: values.allergens,
+  dietary_tags: values.dietary_tags,
+  ...Object.fromEntries(NUTRIENTS.map(({ key }) => [key, values[key] ?? null])),
+});
+
+/**
+ * Orders categories by the restaurant's saved `menu_category_order`. Categories
+ * that have not been placed yet follow in alphabetical order.
+ */
+export const sortCategories = (categories: string[], categoryOrder: string[] = []) => {
+  const position = (category: string) => {
+    const index = categoryOrder.indexOf(category);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+  return Array.from(new Set(categories)).sort(
+    (a, b) => position(a) - position(b) || a.localeCompare(b)
+  );
+};
+
+export const groupMenuItems = <T extends { category: string }>(items: T[], categoryOrder: string[] = []) => {
+  const groups = items.reduce((acc, item) => {
+    if (!acc[item.category]) acc[item.category] = [];
+    acc[item.category].push(item);
+    return acc;
+  }, {} as Record<string, T[]>);
+
+  return sortCategories(Object.keys(groups), categoryOrder).map(
+    (category) => [category, groups[category]] as [string, T[]]
+  );
+};
@@ -0,0 +1,47 @@
+import type { PaymentProvider } from "@/lib/payments";
+
+export type MockPaymentOutcome = "succeed" | "decline" | "timeout";
+
+export const MOCK_PAYMENT_OUTCOMES: { value: MockPaymentOutcome; label: string }[] = [
+  { value: "succeed", label: "Approve" },
+  { value: "decline", label: "Decline" },
+  { value: "timeout", label: "Time out" },
+];
+
+// Roughly how long a real gateway takes to answer
+const MOCK_LATENCY_MS = 800;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface MockPaymentProvider extends PaymentProvider {
+  /** How the next authorisation will end; set from the checkout UI. */
+  outcome: MockPaymentOutcome;
+}
+
+/**
+ * Local stand-in for a payment gateway. No money moves; the outcome of each
+ * authorisation is whatever `outcome` is set to, and refunds always succeed.
+ * Its server side, which captures, lives in the capture-payment function.
+ */
+export const mockPaymentProvider: MockPaymentProvider = {
+  name: "mock",
+  outcome: "succeed",
+
+  async authorise(request) {
+    if (this.outcome === "timeout") {
+      // Never answers, so the caller's timeout fires
+      return new Promise<string>(() => undefined);
+    }
+
+    await delay(MOCK_LATENCY_MS);
+    if (this.outcome === "decline") {
+      throw new Error(request.method === "upi" ? "UPI request declined (simulated)" : "Card declined by issuer (simulated)");
+    }
+    return `mock_${request.paymentId.slice(0, 8)}_${Date.now()}`;
+  },
+
+  async refund(reference) {
+    await delay(MOCK_LATENCY_MS);
+    return `${reference}_refund_${Date.now()}`;
+  },
+};
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+import { EMPTY_NUTRIENTS, NUTRIENTS } from "@/lib/nutrition";
+import { getDailyTotals, toFhirBundle, toNutritionCsv, type MealEntry } from "@/lib/nutrition-export";
+
+// The client needs browser storage; these tests only cover the pure formatters
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+// Local times, so the day each meal falls on does not depend on the machine's time zone
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 11, day, hour, minute).toISOString();
+
+const meal = (id: string, eatenAt: string, calories: number, protein_g: number, isLogged = false): MealEntry => ({
+  id,
+  eatenAt,
+  source: isLogged ? "Logged meal" : "Green Bowl",
+  isLogged,
+  items: [
+    {
+      name: "Salad",
+      quantity: 2,
+      isHealthy: true,
+      calories,
+      nutrients: { ...EMPTY_NUTRIENTS, protein_g },
+    },
+  ],
+  calories,
+  nutrients: { ...EMPTY_NUTRIENTS, protein_g },
+});
+
+const MEALS = [
+  meal("11111111-1111-4111-8111-111111111111", at(1, 8), 300, 10),
+  meal("22222222-2222-4222-8222-222222222222", at(1, 23, 30), 500, 20.25),
+  meal("33333333-3333-4333-8333-333333333333", at(2, 0, 15), 400, 5, true),
+];
+
+const PATIENT = { id: "99999999-9999-4999-8999-999999999999", email: "eater@example.com" };
+
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+describe("getDailyTotals", () => {
+  it("buckets meals by local calendar day, oldest first", () => {
+    const days = getDailyTotals([MEALS[2], MEALS[0], MEALS[1]]);
+
+    expect(days.map((day) => day.date)).toEqual(["2025-12-01", "2025-12-02"]);
+    expect(days[0]).toMatchObject({ meals: 2, calories: 800, nutrients: { protein_g: 30.25 } });
+    expect(days[1]).toMatchObject({ meals: 1, calories: 400, nutrients: { protein_g: 5 } });
+  });
+
+  it("returns nothing for no meals", () => {
+    expect(getDailyTotals([])).toEqual([]);
+  });
+});
+
+describe("toFhirBundle", () => {
+  const bundle = toFhirBundle(MEALS, PATIENT);
+  const resources = bundle.entry.map((entry) => entry.resource);
+  const ofType = (resourceType: string) => resources.filter((resource) => resource.resourceType === resourceType);
+  // Narrowed by shape, so their fields type-check; resourceType is checked in the tests
+  const intakes = resources.flatMap((resource) => ("occurrenceDateTime" in resource ? [resource] : []));
+  const observations = resources.flatMap((resource) => ("component" in resource ? [resource] : []));
+
+  it("is a timestamped collection Bundle", () => {
+    expect(bundle.resourceType).toBe("Bundle");
+    expect(bundle.type).toBe("collection");
+    expect(bundle.timestamp).toMatch(ISO_8601);
+  });
+
+  it("gives every entry a urn:uuid fullUrl", () => {
+    bundle.entry.forEach((entry) => expect(entry.fullUrl).toMatch(/^urn:uuid:[0-9a-f-]{36}$/));
+  });
+
+  it("starts with the patient", () => {
+    expect(ofType("Patient")).toEqual([
+      { resourceType: "Patient", id: PATIENT.id, telecom: [{ system: "email", value: PATIENT.email }] },
+    ]);
+    expect(bundle.entry[0].fullUrl).toBe(`urn:uuid:${PATIENT.id}`);
+  });
+
+  it("has one NutritionIntake per meal, referencing the patient", () => {
+    expect(ofType("NutritionIntake")).toEqual(intakes);
+    expect(intakes.map((intake) => intake.id)).toEqual(MEALS.map(({ id }) => id));
+    intakes.forEach((intake, index) => {
+      expect(intake).toMatchObject({
+        status: "completed",
+        subject: { reference: `urn:uuid:${PATIENT.id}` },
+        occurrenceDateTime: MEALS[index].eatenAt,
+        reportedBoolean: MEALS[index].isLogged,
+        consumedItem: [{ nutritionProduct: { concept: { text: "Salad" } }, amount: { value: 2, unit: "serving" } }],
+      });
+      expect(intake.occurrenceDateTime).toMatch(ISO_8601);
+    });
+  });
+
+  it("has one Observation per day with a UCUM quantity for energy and each nutrient", () => {
+    expect(ofType("Observation")).toEqual(observations);
+    expect(observations.map((observation) => observation.effectiveDateTime)).toEqual(["2025-12-01", "2025-12-02"]);
+    observations.forEach((observation) => {
+      expect(observation).toMatchObject({
+        status: "final",
+        code: { text: "Daily nutrition intake" },
+        subject: { reference: `urn:uuid:${PATIENT.id}` },
+      });
+      expect(observation.component).toHaveLength(NUTRIENTS.length + 1);
+      observation.component.forEach(({ valueQuantity }) => {
+        expect(valueQuantity.system).toBe("http://unitsofmeasure.org");
+        expect(valueQuantity.code).toBe(valueQuantity.unit);
+        expect(["kcal", "g", "mg"]).toContain(valueQuantity.unit);
+      });
+    });
+
+    const [firstDay] = observations;
+    expect(firstDay.component[0]).toEqual({
+      code: { text: "Energy" },
+      valueQuantity: { value: 800, unit: "kcal", system: "http://unitsofmeasure.org", code: "kcal" },
+    });
+    expect(firstDay.component[1]).toMatchObject({ code: { text: "Protein" }, valueQuantity: { value: 30.3, unit: "g" } });
+  });
+});
+
+describe("toNutritionCsv", () => {
+  const csv = toNutritionCsv(MEALS);
+  const [header, ...rows] = csv.trimEnd().split("\r\n").map((line) => line.split(","));
+
+  it("uses CRLF line endings with a trailing newline", () => {
+    expect(csv.endsWith("\r\n")).toBe(true);
+    expect(csv.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it("has a header with units in the column names", () => {
+    expect(header).toEqual([
+      "record_type",
+      "effective_time",
+      "date",
+      "source",
+      "reference",
+      "description",
+      "meals",
+      "energy_kcal",
+      "protein_g",
+      "carbohydrates_g",
+      "fat_g",
+      "fibre_g",
+      "sugar_g",
+      "sodium_mg",
+    ]);
+    rows.forEach((row) => expect(row).toHaveLength(header.length));
+  });
+
+  it("lists each meal, then each day's totals", () => {
+    expect(rows.map((row) => row[0])).toEqual(["meal", "meal", "meal", "daily_total", "daily_total"]);
+  });
+
+  it("writes meal rows with ISO 8601 times", () => {
+    rows.slice(0, 3).forEach((row, index) => {
+      expect(row[1]).toBe(MEALS[index].eatenAt);
+      expect(row[1]).toMatch(ISO_8601);
+    });
+    expect(rows[0]).toEqual([
+      "meal",
+      MEALS[0].eatenAt,
+      "2025-12-01",
+      "Green Bowl",
+      MEALS[0].id,
+      "2x Salad",
+      "1",
+      "300",
+      "10",
+      "0",
+      "0",
+      "0",
+      "0",
+      "0",
+    ]);
+  });
+
+  it("writes daily totals without a time or reference", () => {
+    expect(rows[3]).toEqual(["daily_total", "", "2025-12-01", "", "", "", "2", "800", "30.3", "0", "0", "0", "0", "0"]);
+    expect(rows[4].slice(0, 8)).toEqual(["daily_total", "", "2025-12-02", "", "", "", "1", "400"]);
+  });
+});
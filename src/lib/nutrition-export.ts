@@ -0,0 +1,289 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toCsv } from "@/lib/csv";
+import { isHealthyOrderItem, type HealthGrade } from "@/lib/health-score";
+import { EMPTY_NUTRIENTS, fromOrderItemSnapshot, NUTRIENTS, sumNutrients, type Nutrients } from "@/lib/nutrition";
+import { fetchAllRows } from "@/lib/pagination";
+import { getKeptQuantity } from "@/lib/refunds";
+import { fetchMealLogs, fromMealLog } from "@/lib/meal-logs";
+
+export interface MealItem {
+  name: string;
+  quantity: number;
+  isHealthy: boolean;
+  /** Totals for the quantity eaten. */
+  calories: number;
+  nutrients: Nutrients;
+}
+
+/** One order's worth of food, or one meal the user logged, as eaten. */
+export interface MealEntry {
+  id: string;
+  eatenAt: string;
+  source: string;
+  /** Logged by hand rather than ordered on FoodWise. */
+  isLogged: boolean;
+  items: MealItem[];
+  calories: number;
+  nutrients: Nutrients;
+}
+
+export interface DailyTotal {
+  /** Local calendar day, yyyy-MM-dd. */
+  date: string;
+  meals: number;
+  calories: number;
+  nutrients: Nutrients;
+}
+
+interface SnapshotOrder {
+  id: string;
+  created_at: string;
+  scheduled_for: string | null;
+  restaurants: { name: string } | null;
+  order_items: {
+    quantity: number;
+    refunded_quantity: number;
+    calories_at_time: number;
+    is_healthy_at_time: boolean;
+    health_grade_at_time: HealthGrade | null;
+    protein_g_at_time: number | null;
+    carbohydrates_g_at_time: number | null;
+    fat_g_at_time: number | null;
+    fibre_g_at_time: number | null;
+    sugar_g_at_time: number | null;
+    sodium_mg_at_time: number | null;
+    menu_items: { name: string } | null;
+  }[];
+}
+
+/**
+ * Meals from the customer's orders since a date, built from the nutrition
+ * snapshots on their items, together with the meals they logged. Cancelled,
+ * unpaid and refunded food is left out; scheduled orders count as eaten at
+ * their delivery slot.
+ */
+export const fetchMealEntries = async (customerId: string, since: Date): Promise<MealEntry[]> => {
+  const [orderMeals, mealLogs] = await Promise.all([
+    fetchOrderMeals(customerId, since),
+    fetchMealLogs(customerId, since),
+  ]);
+
+  const loggedMeals: MealEntry[] = mealLogs.map((log) => {
+    const nutrients = sumNutrients([{ nutrients: fromMealLog(log), quantity: 1 }]);
+    return {
+      id: log.id,
+      eatenAt: log.eaten_at,
+      source: "Logged meal",
+      isLogged: true,
+      items: [{ name: log.name, quantity: 1, isHealthy: log.is_healthy, calories: log.calories, nutrients }],
+      calories: log.calories,
+      nutrients,
+    };
+  });
+
+  return [...orderMeals, ...loggedMeals].sort((a, b) => new Date(a.eatenAt).getTime() - new Date(b.eatenAt).getTime());
+};
+
+const fetchOrderMeals = async (customerId: string, since: Date): Promise<MealEntry[]> => {
+  const orders = await fetchAllRows((from, to) =>
+    supabase
+      .from("orders")
+      .select(`
+        id,
+        created_at,
+        scheduled_for,
+        restaurants (name),
+        order_items (
+          quantity,
+          refunded_quantity,
+          calories_at_time,
+          is_healthy_at_time,
+          health_grade_at_time,
+          protein_g_at_time,
+          carbohydrates_g_at_time,
+          fat_g_at_time,
+          fibre_g_at_time,
+          sugar_g_at_time,
+          sodium_mg_at_time,
+          menu_items (name)
+        )
+      `)
+      .eq("customer_id", customerId)
+      .not("status", "in", "(cancelled,awaiting_payment)")
+      .gte("created_at", since.toISOString())
+      .order("created_at", { ascending: true })
+      .order("id")
+      .range(from, to)
+  );
+
+  return (orders as SnapshotOrder[])
+    .map((order) => {
+      const items: MealItem[] = order.order_items
+        .filter((item) => getKeptQuantity(item) > 0)
+        .map((item) => {
+          const quantity = getKeptQuantity(item);
+          return {
+            name: item.menu_items?.name ?? "Item",
+            quantity,
+            isHealthy: isHealthyOrderItem(item),
+            calories: item.calories_at_time * quantity,
+            nutrients: sumNutrients([{ nutrients: fromOrderItemSnapshot(item), quantity }]),
+          };
+        });
+
+      return {
+        id: order.id,
+        eatenAt: order.scheduled_for ?? order.created_at,
+        source: order.restaurants?.name ?? "FoodWise order",
+        isLogged: false,
+        items,
+        calories: items.reduce((sum, item) => sum + item.calories, 0),
+        nutrients: sumNutrients(items.map((item) => ({ nutrients: item.nutrients, quantity: 1 }))),
+      };
+    })
+    .filter((meal) => meal.items.length > 0);
+};
+
+export const getDailyTotals = (meals: MealEntry[]): DailyTotal[] => {
+  const days = new Map<string, DailyTotal>();
+  meals.forEach((meal) => {
+    const date = format(new Date(meal.eatenAt), "yyyy-MM-dd");
+    const day = days.get(date) ?? { date, meals: 0, calories: 0, nutrients: { ...EMPTY_NUTRIENTS } };
+    days.set(date, {
+      date,
+      meals: day.meals + 1,
+      calories: day.calories + meal.calories,
+      nutrients: sumNutrients([
+        { nutrients: day.nutrients, quantity: 1 },
+        { nutrients: meal.nutrients, quantity: 1 },
+      ]),
+    });
+  });
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// FHIR quantities use UCUM units, whose codes match the ones shown in the app
+const toQuantity = (value: number, unit: string) => ({
+  value: round(value),
+  unit,
+  system: "http://unitsofmeasure.org",
+  code: unit,
+});
+
+const toNutrientAmounts = (calories: number, nutrients: Nutrients) => [
+  { label: "Energy", amount: toQuantity(calories, "kcal") },
+  ...NUTRIENTS.map(({ key, label, unit }) => ({ label, amount: toQuantity(nutrients[key], unit) })),
+];
+
+/**
+ * A FHIR R5 `collection` Bundle: the patient, a `NutritionIntake` per meal
+ * with its items and nutrient totals, and an `Observation` per day with that
+ * day's totals as components. Codes are given as text only.
+ */
+export const toFhirBundle = (meals: MealEntry[], patient: { id: string; email: string }) => {
+  const patientUrl = `urn:uuid:${patient.id}`;
+
+  const intakes = meals.map((meal) => ({
+    fullUrl: `urn:uuid:${meal.id}`,
+    resource: {
+      resourceType: "NutritionIntake",
+      id: meal.id,
+      status: "completed",
+      code: { text: "Meal" },
+      subject: { reference: patientUrl },
+      occurrenceDateTime: meal.eatenAt,
+      reportedBoolean: meal.isLogged,
+      note: [{ text: meal.isLogged ? "Logged by the patient on FoodWise" : `Ordered from ${meal.source} on FoodWise` }],
+      consumedItem: meal.items.map((item) => ({
+        type: { text: item.isHealthy ? "Food (healthy choice)" : "Food" },
+        nutritionProduct: { concept: { text: item.name } },
+        amount: { value: item.quantity, unit: "serving" },
+      })),
+      ingredientLabel: toNutrientAmounts(meal.calories, meal.nutrients).map(({ label, amount }) => ({
+        nutrient: { concept: { text: label } },
+        amount,
+      })),
+    },
+  }));
+
+  const observations = getDailyTotals(meals).map((day) => {
+    const id = crypto.randomUUID();
+    return {
+      fullUrl: `urn:uuid:${id}`,
+      resource: {
+        resourceType: "Observation",
+        id,
+        status: "final",
+        code: { text: "Daily nutrition intake" },
+        subject: { reference: patientUrl },
+        effectiveDateTime: day.date,
+        component: toNutrientAmounts(day.calories, day.nutrients).map(({ label, amount }) => ({
+          code: { text: label },
+          valueQuantity: amount,
+        })),
+      },
+    };
+  });
+
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: [
+      {
+        fullUrl: patientUrl,
+        resource: { resourceType: "Patient", id: patient.id, telecom: [{ system: "email", value: patient.email }] },
+      },
+      ...intakes,
+      ...observations,
+    ],
+  };
+};
+
+const NUTRITION_CSV_HEADER = [
+  "record_type",
+  "effective_time",
+  "date",
+  "source",
+  "reference",
+  "description",
+  "meals",
+  "energy_kcal",
+  ...NUTRIENTS.map(({ key }) => key),
+];
+
+/**
+ * A long-format CSV with a row per meal followed by a row per day's totals,
+ * told apart by `record_type`. Times are ISO 8601 and units are part of the
+ * column names, in the style of Open mHealth data points.
+ */
+export const toNutritionCsv = (meals: MealEntry[]) => {
+  const mealRows = meals.map((meal) => [
+    "meal",
+    meal.eatenAt,
+    format(new Date(meal.eatenAt), "yyyy-MM-dd"),
+    meal.source,
+    meal.id,
+    meal.items.map((item) => `${item.quantity}x ${item.name}`).join("; "),
+    1,
+    round(meal.calories),
+    ...NUTRIENTS.map(({ key }) => round(meal.nutrients[key])),
+  ]);
+
+  const dayRows = getDailyTotals(meals).map((day) => [
+    "daily_total",
+    "",
+    day.date,
+    "",
+    "",
+    "",
+    day.meals,
+    round(day.calories),
+    ...NUTRIENTS.map(({ key }) => round(day.nutrients[key])),
+  ]);
+
+  return toCsv(NUTRITION_CSV_HEADER, [...mealRows, ...dayRows]);
+};
@@ -0,0 +1,136 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums, Tables } from "@/integrations/supabase/types";
+import { fromOrderItemSnapshot, sumNutrients, type Nutrients } from "@/lib/nutrition";
+import { getKeptQuantity } from "@/lib/refunds";
+import { fetchMealLogs, fromMealLog } from "@/lib/meal-logs";
+
+export type NutritionProfile = Tables<"nutrition_profiles">;
+export type ActivityLevel = Enums<"activity_level">;
+export type NutritionGoal = Enums<"nutrition_goal">;
+export type BiologicalSex = Enums<"biological_sex">;
+
+export interface DailyGoals {
+  calories: number;
+  protein_g: number;
+  carbohydrates_g: number;
+  fat_g: number;
+}
+
+export interface DailyIntake extends Nutrients {
+  calories: number;
+}
+
+export const ACTIVITY_LEVELS: { key: ActivityLevel; label: string; description: string; multiplier: number }[] = [
+  { key: "sedentary", label: "Sedentary", description: "Little or no exercise", multiplier: 1.2 },
+  { key: "light", label: "Lightly active", description: "Exercise 1–3 days a week", multiplier: 1.375 },
+  { key: "moderate", label: "Moderately active", description: "Exercise 3–5 days a week", multiplier: 1.55 },
+  { key: "active", label: "Active", description: "Exercise 6–7 days a week", multiplier: 1.725 },
+  { key: "very_active", label: "Very active", description: "Physical job or training twice a day", multiplier: 1.9 },
+];
+
+export const NUTRITION_GOALS: { key: NutritionGoal; label: string; calorieAdjustment: number; proteinPerKg: number }[] = [
+  { key: "lose", label: "Lose weight", calorieAdjustment: -500, proteinPerKg: 1.8 },
+  { key: "maintain", label: "Maintain weight", calorieAdjustment: 0, proteinPerKg: 1.4 },
+  { key: "gain", label: "Gain muscle", calorieAdjustment: 300, proteinPerKg: 1.8 },
+];
+
+// Share of daily calories from fat; carbohydrates make up the rest
+const FAT_ENERGY_SHARE = 0.25;
+const MINIMUM_CALORIES = 1200;
+
+interface BodyMetrics {
+  age: number;
+  sex: BiologicalSex;
+  height_cm: number;
+  weight_kg: number;
+}
+
+/** Basal metabolic rate in kcal/day using the Mifflin-St Jeor equation. */
+export const calculateBmr = ({ age, sex, height_cm, weight_kg }: BodyMetrics) =>
+  10 * weight_kg + 6.25 * height_cm - 5 * age + (sex === "male" ? 5 : -161);
+
+/** Total daily energy expenditure: BMR scaled by activity level. */
+export const calculateTdee = (metrics: BodyMetrics, activityLevel: ActivityLevel) => {
+  const multiplier = ACTIVITY_LEVELS.find(({ key }) => key === activityLevel)?.multiplier ?? 1.2;
+  return calculateBmr(metrics) * multiplier;
+};
+
+/** Suggested daily calorie and macro goals for the given metrics, activity and goal. */
+export const suggestDailyGoals = (
+  metrics: BodyMetrics,
+  activityLevel: ActivityLevel,
+  goal: NutritionGoal
+): DailyGoals => {
+  const goalInfo = NUTRITION_GOALS.find(({ key }) => key === goal) ?? NUTRITION_GOALS[1];
+  const calories = Math.max(
+    MINIMUM_CALORIES,
+    Math.round((calculateTdee(metrics, activityLevel) + goalInfo.calorieAdjustment) / 10) * 10
+  );
+  const protein_g = Math.round(metrics.weight_kg * goalInfo.proteinPerKg);
+  const fat_g = Math.round((calories * FAT_ENERGY_SHARE) / 9);
+  const carbohydrates_g = Math.max(0, Math.round((calories - protein_g * 4 - fat_g * 9) / 4));
+
+  return { calories, protein_g, carbohydrates_g, fat_g };
+};
+
+export const getDailyGoals = (profile: NutritionProfile): DailyGoals => ({
+  calories: profile.calorie_goal,
+  protein_g: profile.protein_goal_g,
+  carbohydrates_g: profile.carbohydrates_goal_g,
+  fat_g: profile.fat_goal_g,
+});
+
+export const fetchNutritionProfile = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("nutrition_profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Calories and nutrients from today's orders, excluding cancelled, unpaid and
+ * refunded items, plus any meals logged as eaten today.
+ */
+export const fetchTodayIntake = async (userId: string): Promise<DailyIntake> => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const [{ data, error }, mealLogs] = await Promise.all([
+    supabase
+      .from("orders")
+      .select(`
+        order_items (
+          quantity,
+          refunded_quantity,
+          calories_at_time,
+          protein_g_at_time,
+          carbohydrates_g_at_time,
+          fat_g_at_time,
+          fibre_g_at_time,
+          sugar_g_at_time,
+          sodium_mg_at_time
+        )
+      `)
+      .eq("customer_id", userId)
+      .not("status", "in", "(cancelled,awaiting_payment)")
+      .gte("created_at", startOfToday.toISOString()),
+    fetchMealLogs(userId, startOfToday),
+  ]);
+
+  if (error) throw error;
+
+  const items = (data || []).flatMap((order) => order.order_items);
+  return {
+    calories:
+      items.reduce((sum, item) => sum + item.calories_at_time * getKeptQuantity(item), 0) +
+      mealLogs.reduce((sum, log) => sum + log.calories, 0),
+    ...sumNutrients([
+      ...items.map((item) => ({ nutrients: fromOrderItemSnapshot(item), quantity: getKeptQuantity(item) })),
+      ...mealLogs.map((log) => ({ nutrients: fromMealLog(log), quantity: 1 })),
+    ]),
+  };
+};
@@ -0,0 +1,81 @@
+import { format, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type TrendBucket = "day" | "week" | "month";
+export type TrendPoint = Database["public"]["Functions"]["nutrition_trends"]["Returns"][number];
+export type NutritionTotals = Database["public"]["Functions"]["nutrition_totals"]["Returns"][number];
+
+export const TREND_BUCKETS: { key: TrendBucket; label: string }[] = [
+  { key: "day", label: "Daily" },
+  { key: "week", label: "Weekly" },
+  { key: "month", label: "Monthly" },
+];
+
+export const TREND_RANGES = [
+  { key: "7", label: "Last 7 days", days: 7 },
+  { key: "30", label: "Last 30 days", days: 30 },
+  { key: "90", label: "Last 90 days", days: 90 },
+  { key: "custom", label: "Custom range", days: null },
+] as const;
+
+export type TrendRangeKey = (typeof TREND_RANGES)[number]["key"];
+
+const EMPTY_TOTALS: NutritionTotals = { order_count: 0, calories: 0, logged_calories: 0, healthy_spend: 0, junk_spend: 0 };
+
+const getTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/** Local calendar dates covering the last `days` days, including today. */
+export const getRangeForDays = (days: number) => {
+  const to = new Date();
+  return { from: subDays(to, days - 1), to };
+};
+
+export const fetchNutritionTrends = async ({ from, to, bucket }: { from: Date; to: Date; bucket: TrendBucket }) => {
+  const { data, error } = await supabase.rpc("nutrition_trends", {
+    _from: format(from, "yyyy-MM-dd"),
+    _to: format(to, "yyyy-MM-dd"),
+    _bucket: bucket,
+    _time_zone: getTimeZone(),
+  });
+
+  if (error) throw error;
+  return (data || []).map((point) => ({
+    ...point,
+    healthy_spend: Number(point.healthy_spend),
+    junk_spend: Number(point.junk_spend),
+  }));
+};
+
+export const fetchNutritionTotals = async (from: Date, to: Date): Promise<NutritionTotals> => {
+  const { data, error } = await supabase.rpc("nutrition_totals", {
+    _from: from.toISOString(),
+    _to: to.toISOString(),
+  });
+
+  if (error) throw error;
+  const totals = data?.[0] ?? EMPTY_TOTALS;
+  return { ...totals, healthy_spend: Number(totals.healthy_spend), junk_spend: Number(totals.junk_spend) };
+};
+
+/** Totals for the last 7 days and the 7 days before that. */
+export const fetchWeekOverWeek = async () => {
+  const now = new Date();
+  const weekAgo = subDays(now, 7);
+  const [current, previous] = await Promise.all([
+    fetchNutritionTotals(weekAgo, now),
+    fetchNutritionTotals(subDays(now, 14), weekAgo),
+  ]);
+  return { current, previous };
+};
+
+/** Percentage change from `previous` to `current`, or null when there is nothing to compare against. */
+export const percentChange = (current: number, previous: number) =>
+  previous === 0 ? null : ((current - previous) / previous) * 100;
+
+export const formatPeriod = (periodStart: string, bucket: TrendBucket) => {
+  const date = new Date(`${periodStart}T00:00:00`);
+  if (bucket === "month") return format(date, "MMM yyyy");
+  if (bucket === "week") return `Wk of ${format(date, "MMM d")}`;
+  return format(date, "MMM d");
+};
@@ -0,0 +1,64 @@
+export const NUTRIENTS = [
+  { key: "protein_g", label: "Protein", shortLabel: "P", unit: "g" },
+  { key: "carbohydrates_g", label: "Carbs", shortLabel: "C", unit: "g" },
+  { key: "fat_g", label: "Fat", shortLabel: "F", unit: "g" },
+  { key: "fibre_g", label: "Fibre", shortLabel: "Fb", unit: "g" },
+  { key: "sugar_g", label: "Sugar", shortLabel: "S", unit: "g" },
+  { key: "sodium_mg", label: "Sodium", shortLabel: "Na", unit: "mg" },
+] as const;
+
+export type NutrientKey = (typeof NUTRIENTS)[number]["key"];
+
+/** Nutrient totals; unknown values count as zero. */
+export type Nutrients = Record<NutrientKey, number>;
+
+/** Nutrients as stored on a menu item, where `null` means not provided. */
+export type NutrientValues = Partial<Record<NutrientKey, number | null>>;
+
+export const MACRO_KEYS: NutrientKey[] = ["protein_g", "carbohydrates_g", "fat_g"];
+
+export const EMPTY_NUTRIENTS: Nutrients = {
+  protein_g: 0,
+  carbohydrates_g: 0,
+  fat_g: 0,
+  fibre_g: 0,
+  sugar_g: 0,
+  sodium_mg: 0,
+};
+
+export const getNutrient = (key: NutrientKey) => NUTRIENTS.find((nutrient) => nutrient.key === key);
+
+export const hasNutrients = (values: NutrientValues) =>
+  NUTRIENTS.some(({ key }) => values[key] !== null && values[key] !== undefined);
+
+export const sumNutrients = (entries: { nutrients: NutrientValues; quantity: number }[]): Nutrients =>
+  entries.reduce<Nutrients>((totals, { nutrients, quantity }) => {
+    const next = { ...totals };
+    NUTRIENTS.forEach(({ key }) => {
+      next[key] += Number(nutrients[key] ?? 0) * quantity;
+    });
+    return next;
+  }, { ...EMPTY_NUTRIENTS });
+
+/** Reads the `*_at_time` nutrient snapshot columns of an order item. */
+export const fromOrderItemSnapshot = (item: Partial<Record<`${NutrientKey}_at_time`, number | null>>): NutrientValues => ({
+  protein_g: item.protein_g_at_time,
+  carbohydrates_g: item.carbohydrates_g_at_time,
+  fat_g: item.fat_g_at_time,
+  fibre_g: item.fibre_g_at_time,
+  sugar_g: item.sugar_g_at_time,
+  sodium_mg: item.sodium_mg_at_time,
+});
+
+export const formatNutrient = (key: NutrientKey, value: number | null | undefined) => {
+  if (value === null || value === undefined) return "—";
+  const unit = getNutrient(key)?.unit ?? "";
+  return `${unit === "mg" ? Math.round(value) : Math.round(value * 10) / 10}${unit}`;
+};
+
+/** Energy from each macro using the 4/4/9 kcal per gram Atwater factors. */
+export const getMacroCalories = (nutrients: Nutrients) => ({
+  protein: nutrients.protein_g * 4,
+  carbohydrates: nutrients.carbohydrates_g * 4,
+  fat: nutrients.fat_g * 9,
+});
@@ -0,0 +1,134 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type OpeningHoursSlot = Pick<Tables<"restaurant_opening_hours">, "day_of_week" | "opens_at" | "closes_at">;
+export type RestaurantHoliday = Pick<Tables<"restaurant_holidays">, "date">;
+
+/** Indexed by `day_of_week`; 0 is Sunday, as in `Date.getDay()`. */
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  /** Closing time of the current slot, when open. */
+  closesAt: string | null;
+  /** Next opening within a week, when closed. `dayOffset` is 0 for later today. */
+  nextOpen: { dayOffset: number; dayOfWeek: number; time: string } | null;
+}
+
+export interface LocalTime {
+  /** yyyy-MM-dd */
+  date: string;
+  dayOfWeek: number;
+  /** Minutes since local midnight. */
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** Wall-clock date and time of `at` in the restaurant's time zone. */
+export const getLocalTime = (at: Date, timeZone: string): LocalTime => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(at)
+      .map(({ type, value }) => [type, value])
+  );
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    dayOfWeek: dayOfWeekFor(date),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+const dayOfWeekFor = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/** "11:00:00" -> "11:00" */
+export const formatTime = (time: string) => time.slice(0, 5);
+
+// A slot whose closing time is not after its opening time runs past midnight
+const isOvernight = (slot: OpeningHoursSlot) => timeToMinutes(slot.closes_at) <= timeToMinutes(slot.opens_at);
+
+/**
+ * Mirrors `public.is_restaurant_open`: no configured hours means always open,
+ * and a holiday closes the slots that start on that date.
+ */
+export const getOpeningStatus = (
+  hours: OpeningHoursSlot[],
+  holidays: RestaurantHoliday[],
+  timeZone: string,
+  at: Date = new Date()
+): OpeningStatus => {
+  if (hours.length === 0) return { isOpen: true, closesAt: null, nextOpen: null };
+
+  const now = getLocalTime(at, timeZone);
+  const closedDates = new Set(holidays.map((holiday) => holiday.date));
+  const yesterday = addDays(now.date, -1);
+
+  const current =
+    (!closedDates.has(now.date) &&
+      hours.find(
+        (slot) =>
+          slot.day_of_week === now.dayOfWeek &&
+          timeToMinutes(slot.opens_at) <= now.minutes &&
+          (timeToMinutes(slot.closes_at) > now.minutes || isOvernight(slot))
+      )) ||
+    (!closedDates.has(yesterday) &&
+      hours.find(
+        (slot) =>
+          slot.day_of_week === dayOfWeekFor(yesterday) &&
+          isOvernight(slot) &&
+          now.minutes < timeToMinutes(slot.closes_at)
+      ));
+
+  if (current) return { isOpen: true, closesAt: formatTime(current.closes_at), nextOpen: null };
+
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+    const date = addDays(now.date, dayOffset);
+    if (closedDates.has(date)) continue;
+
+    const dayOfWeek = dayOfWeekFor(date);
+    const next = hours
+      .filter((slot) => slot.day_of_week === dayOfWeek && (dayOffset > 0 || timeToMinutes(slot.opens_at) > now.minutes))
+      .sort((a, b) => timeToMinutes(a.opens_at) - timeToMinutes(b.opens_at))[0];
+
+    if (next) return { isOpen: false, closesAt: null, nextOpen: { dayOffset, dayOfWeek, time: formatTime(next.opens_at) } };
+  }
+
+  return { isOpen: false, closesAt: null, nextOpen: null };
+};
+
+/** "Open now", "Opens at 11:00", "Opens tomorrow at 11:00", "Opens Monday at 11:00" or "Closed". */
+export const describeOpeningStatus = ({ isOpen, nextOpen }: OpeningStatus) => {
+  if (isOpen) return "Open now";
+  if (!nextOpen) return "Closed";
+  if (nextOpen.dayOffset === 0) return `Opens at ${nextOpen.time}`;
+  if (nextOpen.dayOffset === 1) return `Opens tomorrow at ${nextOpen.time}`;
+  return `Opens ${DAY_NAMES[nextOpen.dayOfWeek]} at ${nextOpen.time}`;
+};
@@ -0,0 +1,199 @@
+import { endOfDay, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toCsv } from "@/lib/csv";
+import { fromOrderItemSnapshot, NUTRIENTS } from "@/lib/nutrition";
+import { fetchAllRows } from "@/lib/pagination";
+
+export interface ExportedOrderItem
+  extends Pick<
+    Tables<"order_items">,
+    | "id"
+    | "quantity"
+    | "refunded_quantity"
+    | "price_at_time"
+    | "calories_at_time"
+    | "is_healthy_at_time"
+    | "health_grade_at_time"
+    | "protein_g_at_time"
+    | "carbohydrates_g_at_time"
+    | "fat_g_at_time"
+    | "fibre_g_at_time"
+    | "sugar_g_at_time"
+    | "sodium_mg_at_time"
+  > {
+  menu_items: { name: string; category: string } | null;
+}
+
+export interface ExportedOrder
+  extends Pick<
+    Tables<"orders">,
+    | "id"
+    | "created_at"
+    | "status"
+    | "payment_method"
+    | "subtotal_amount"
+    | "discount_amount"
+    | "coupon_code"
+    | "delivery_fee"
+    | "packaging_charge"
+    | "tax_amount"
+    | "tip_amount"
+    | "rounding_adjustment"
+    | "total_amount"
+    | "refunded_amount"
+  > {
+  restaurants: { name: string; cuisine_type: string } | null;
+  order_items: ExportedOrderItem[];
+}
+
+const ORDER_HISTORY_COLUMNS = `
+  id,
+  created_at,
+  status,
+  payment_method,
+  subtotal_amount,
+  discount_amount,
+  coupon_code,
+  delivery_fee,
+  packaging_charge,
+  tax_amount,
+  tip_amount,
+  rounding_adjustment,
+  total_amount,
+  refunded_amount,
+  restaurants (name, cuisine_type),
+  order_items (
+    id,
+    quantity,
+    refunded_quantity,
+    price_at_time,
+    calories_at_time,
+    is_healthy_at_time,
+    health_grade_at_time,
+    protein_g_at_time,
+    carbohydrates_g_at_time,
+    fat_g_at_time,
+    fibre_g_at_time,
+    sugar_g_at_time,
+    sodium_mg_at_time,
+    menu_items (name, category)
+  )
+`;
+
+/** The customer's orders placed between two days, inclusive, oldest first. Unpaid orders are left out. */
+export const fetchOrderHistory = async (customerId: string, from: Date, to: Date) => {
+  const orders = await fetchAllRows((first, last) =>
+    supabase
+      .from("orders")
+      .select(ORDER_HISTORY_COLUMNS)
+      .eq("customer_id", customerId)
+      .neq("status", "awaiting_payment")
+      .gte("created_at", startOfDay(from).toISOString())
+      .lte("created_at", endOfDay(to).toISOString())
+      .order("created_at", { ascending: true })
+      .order("id")
+      .range(first, last)
+  );
+
+  return orders as ExportedOrder[];
+};
+
+const CSV_HEADER = [
+  "order_id",
+  "placed_at",
+  "status",
+  "restaurant",
+  "cuisine_type",
+  "payment_method",
+  "item",
+  "category",
+  "quantity",
+  "refunded_quantity",
+  "unit_price",
+  "line_amount",
+  "health_grade",
+  "is_healthy",
+  "calories_each",
+  ...NUTRIENTS.map(({ key }) => `${key}_each`),
+  "order_total",
+  "order_refunded",
+];
+
+/**
+ * One row per order item, with the order's details repeated on each row.
+ * Nutrients are the per-item snapshot taken when the order was placed; an
+ * empty cell means the restaurant did not provide that value.
+ */
+export const toOrderHistoryCsv = (orders: ExportedOrder[]) => {
+  const rows = orders.flatMap((order) =>
+    order.order_items.map((item) => {
+      const nutrients = fromOrderItemSnapshot(item);
+      return [
+        order.id,
+        order.created_at,
+        order.status,
+        order.restaurants?.name,
+        order.restaurants?.cuisine_type,
+        order.payment_method,
+        item.menu_items?.name,
+        item.menu_items?.category,
+        item.quantity,
+        item.refunded_quantity,
+        Number(item.price_at_time),
+        Number(item.price_at_time) * item.quantity,
+        item.health_grade_at_time,
+        item.is_healthy_at_time,
+        item.calories_at_time,
+        ...NUTRIENTS.map(({ key }) => nutrients[key]),
+        Number(order.total_amount),
+        Number(order.refunded_amount),
+      ];
+    })
+  );
+
+  return toCsv(CSV_HEADER, rows);
+};
+
+/** The orders as nested JSON: each order with its charges and items, amounts as numbers. */
+export const toOrderHistoryJson = (orders: ExportedOrder[], from: Date, to: Date) =>
+  JSON.stringify(
+    {
+      exported_at: new Date().toISOString(),
+      from: startOfDay(from).toISOString(),
+      to: endOfDay(to).toISOString(),
+      orders: orders.map((order) => ({
+        id: order.id,
+        placed_at: order.created_at,
+        status: order.status,
+        restaurant: order.restaurants,
+        payment_method: order.payment_method,
+        coupon_code: order.coupon_code,
+        charges: {
+          subtotal: Number(order.subtotal_amount),
+          discount: Number(order.discount_amount),
+          delivery_fee: Number(order.delivery_fee),
+          packaging: Number(order.packaging_charge),
+          tax: Number(order.tax_amount),
+          tip: Number(order.tip_amount),
+          rounding: Number(order.rounding_adjustment),
+          total: Number(order.total_amount),
+          refunded: Number(order.refunded_amount),
+        },
+        items: order.order_items.map((item) => ({
+          id: item.id,
+          name: item.menu_items?.name ?? null,
+          category: item.menu_items?.category ?? null,
+          quantity: item.quantity,
+          refunded_quantity: item.refunded_quantity,
+          unit_price: Number(item.price_at_time),
+          health_grade: item.health_grade_at_time,
+          is_healthy: item.is_healthy_at_time,
+          // Per item, as it was when the order was placed
+          nutrition: { calories: item.calories_at_time, ...fromOrderItemSnapshot(item) },
+        })),
+      })),
+    },
+    null,
+    2
+  );
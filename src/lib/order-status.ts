@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, type Enums } from "@/integrations/supabase/types";
+
+export type OrderStatus = Enums<"order_status">;
+
+export const ORDER_STATUSES: readonly OrderStatus[] = Constants.public.Enums.order_status;
+
+// Mirrors the public.order_status_transitions table; the database trigger is authoritative
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  awaiting_payment: ["pending", "cancelled"],
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["preparing", "cancelled"],
+  preparing: ["on_the_way", "cancelled"],
+  on_the_way: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  awaiting_payment: "Awaiting Payment",
+  pending: "Pending",
+  confirmed: "Confirmed",
+  preparing: "Preparing",
+  on_the_way: "On the Way",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+export const getNextStatuses = (status: OrderStatus) => ORDER_STATUS_TRANSITIONS[status];
+
+export const isFinalStatus = (status: OrderStatus) => ORDER_STATUS_TRANSITIONS[status].length === 0;
+
+export const getStatusColor = (status: OrderStatus) => {
+  switch (status) {
+    case "awaiting_payment": return "bg-gray-400";
+    case "pending": return "bg-yellow-500";
+    case "confirmed": return "bg-blue-500";
+    case "preparing": return "bg-purple-500";
+    case "on_the_way": return "bg-orange-500";
+    case "delivered": return "bg-green-500";
+    case "cancelled": return "bg-red-500";
+    default: return "bg-gray-500";
+  }
+};
+
+/**
+ * Moves an order from `from` to `to`. Invalid transitions are rejected locally
+ * before hitting the database, which enforces the same rules; the update only
+ * applies if the order is still in `from`.
+ */
+export const updateOrderStatus = async (orderId: string, from: OrderStatus, to: OrderStatus) => {
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot change order status from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`);
+  }
+
+  const { data, error } = await supabase
+    .from("orders")
+    .update({ status: to })
+    .eq("id", orderId)
+    .eq("status", from)
+    .select("id");
+
+  if (error) throw error;
+  if (!data?.length) {
+    throw new Error("This order was updated elsewhere. Please refresh and try again.");
+  }
+};
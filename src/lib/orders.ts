@@ -0,0 +1,158 @@
+import { supabase } from "@/integrations/supabase/client";
+import { COUPON_ERROR_CODES, type CouponErrorCode } from "@/lib/promotions";
+import type { PaymentMethod } from "@/lib/payments";
+import { RpcError, toRpcError } from "@/lib/rpc-error";
+
+export type PlaceOrderErrorCode =
+  | "not_authenticated"
+  | "not_customer"
+  | "empty_cart"
+  | "missing_address"
+  | "address_not_found"
+  | "restaurant_unavailable"
+  | "restaurant_closed"
+  | "invalid_schedule"
+  | "invalid_tip"
+  | "invalid_quantity"
+  | "item_not_found"
+  | "item_wrong_restaurant"
+  | "item_unavailable"
+  | CouponErrorCode
+  | "unknown";
+
+const PLACE_ORDER_ERROR_CODES: PlaceOrderErrorCode[] = [
+  "not_authenticated",
+  "not_customer",
+  "empty_cart",
+  "missing_address",
+  "address_not_found",
+  "restaurant_unavailable",
+  "restaurant_closed",
+  "invalid_schedule",
+  "invalid_tip",
+  "invalid_quantity",
+  "item_not_found",
+  "item_wrong_restaurant",
+  "item_unavailable",
+  ...COUPON_ERROR_CODES,
+];
+
+/**
+ * Validation failure raised by the `place_order` RPC. `menuItemId` is set when
+ * the failure concerns a single cart line so the UI can point at it.
+ */
+export class PlaceOrderError extends RpcError<PlaceOrderErrorCode> {
+  menuItemId: string | null;
+
+  constructor(message: string, code: PlaceOrderErrorCode, menuItemId: string | null = null) {
+    super(message, code);
+    this.name = "PlaceOrderError";
+    this.menuItemId = menuItemId;
+  }
+}
+
+const toPlaceOrderError = toRpcError(PlaceOrderError, PLACE_ORDER_ERROR_CODES, "Failed to place order");
+
+export interface PlaceOrderLine {
+  menuItemId: string;
+  quantity: number;
+}
+
+export interface PlaceOrderParams {
+  restaurantId: string;
+  items: PlaceOrderLine[];
+  /** A saved address of the current user; the order keeps a snapshot of it. */
+  addressId: string;
+  deliveryInstructions?: string;
+  /** ISO timestamp of a future delivery slot; omit for delivery as soon as possible. */
+  scheduledFor?: string | null;
+  /** Rider tip in rupees, added to the bill. */
+  tipAmount?: number;
+  /** Checked again server-side; the order fails if it no longer applies. */
+  couponCode?: string | null;
+  /** Card and UPI orders wait for `processPayment` before reaching the restaurant. */
+  paymentMethod?: PaymentMethod;
+}
+
+/**
+ * Places an order atomically. Prices and nutrition are read server-side from
+ * `menu_items`; only ids and quantities are sent. Resolves to the new order id.
+ */
+export const placeOrder = async ({
+  restaurantId,
+  items,
+  addressId,
+  deliveryInstructions,
+  scheduledFor,
+  tipAmount = 0,
+  couponCode,
+  paymentMethod = "cod",
+}: PlaceOrderParams): Promise<string> => {
+  const { data, error } = await supabase.rpc("place_order", {
+    _restaurant_id: restaurantId,
+    _items: items.map(({ menuItemId, quantity }) => ({ menu_item_id: menuItemId, quantity })),
+    _address_id: addressId,
+    _delivery_instructions: deliveryInstructions || undefined,
+    _scheduled_for: scheduledFor || undefined,
+    _tip_amount: tipAmount,
+    _coupon_code: couponCode || undefined,
+    _payment_method: paymentMethod,
+  });
+
+  if (error) {
+    const placeOrderError = toPlaceOrderError(error);
+    if (placeOrderError.code !== "unknown") placeOrderError.menuItemId = error.details || null;
+    throw placeOrderError;
+  }
+
+  return data;
+};
+
+export type CancelOrderErrorCode =
+  | "not_authenticated"
+  | "missing_reason"
+  | "reason_too_long"
+  | "order_not_found"
+  | "not_cancellable"
+  | "cancel_cutoff_passed"
+  | "unknown";
+
+const CANCEL_ORDER_ERROR_CODES: CancelOrderErrorCode[] = [
+  "not_authenticated",
+  "missing_reason",
+  "reason_too_long",
+  "order_not_found",
+  "not_cancellable",
+  "cancel_cutoff_passed",
+];
+
+/** Validation failure raised by the `cancel_order` RPC. */
+export class CancelOrderError extends RpcError<CancelOrderErrorCode> {
+  constructor(message: string, code: CancelOrderErrorCode) {
+    super(message, code);
+    this.name = "CancelOrderError";
+  }
+}
+
+const toCancelOrderError = toRpcError(CancelOrderError, CANCEL_ORDER_ERROR_CODES, "Failed to cancel order");
+
+/** Cancels one of the customer's orders; see `canCancelOrder` for when this is allowed. */
+export const cancelOrder = async (orderId: string, reason: string) => {
+  const { error } = await supabase.rpc("cancel_order", { _order_id: orderId, _reason: reason });
+
+  if (error) throw toCancelOrderError(error);
+};
+
+/**
+ * The lowest and highest UUIDs starting with `prefix`, e.g. the short order
+ * number shown as "#1a2b3c4d", so orders can be looked up with a range filter.
+ * Null unless the prefix is made of hex digits, ignoring "#" and dashes.
+ */
+export const getIdPrefixRange = (prefix: string) => {
+  const hex = prefix.trim().replace(/^#/, "").replace(/-/g, "").toLowerCase();
+  if (!/^[0-9a-f]{1,32}$/.test(hex)) return null;
+
+  const toUuid = (digits: string) =>
+    [digits.slice(0, 8), digits.slice(8, 12), digits.slice(12, 16), digits.slice(16, 20), digits.slice(20)].join("-");
+  return { from: toUuid(hex.padEnd(32, "0")), to: toUuid(hex.padEnd(32, "f")) };
+};
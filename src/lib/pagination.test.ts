@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { fetchAllRows, MAX_ROWS_PER_REQUEST } from "@/lib/pagination";
+
+// Serves `total` numbered rows the way PostgREST does, at most a page per request
+const pagedTable = (total: number) =>
+  vi.fn(async (from: number, to: number) => ({
+    data: Array.from({ length: Math.max(0, Math.min(to + 1, total) - from) }, (_, index) => from + index),
+    error: null,
+  }));
+
+describe("fetchAllRows", () => {
+  it("keeps fetching until a short page comes back", async () => {
+    const page = pagedTable(2 * MAX_ROWS_PER_REQUEST + 5);
+
+    const rows = await fetchAllRows(page);
+
+    expect(rows).toHaveLength(2 * MAX_ROWS_PER_REQUEST + 5);
+    expect(rows.every((row, index) => row === index)).toBe(true);
+    expect(page.mock.calls).toEqual([
+      [0, MAX_ROWS_PER_REQUEST - 1],
+      [MAX_ROWS_PER_REQUEST, 2 * MAX_ROWS_PER_REQUEST - 1],
+      [2 * MAX_ROWS_PER_REQUEST, 3 * MAX_ROWS_PER_REQUEST - 1],
+    ]);
+  });
+
+  it("asks for one more page when the rows fill the last one exactly", async () => {
+    const page = pagedTable(MAX_ROWS_PER_REQUEST);
+
+    expect(await fetchAllRows(page)).toHaveLength(MAX_ROWS_PER_REQUEST);
+    expect(page).toHaveBeenCalledTimes(2);
+  });
+
+  it("makes a single request for a short result", async () => {
+    const page = pagedTable(3);
+
+    expect(await fetchAllRows(page)).toEqual([0, 1, 2]);
+    expect(page).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws the first error", async () => {
+    const error = { message: "boom", details: "", hint: "", code: "500", name: "PostgrestError" };
+    const page = vi.fn(async () => ({ data: null, error }));
+
+    await expect(fetchAllRows(page)).rejects.toBe(error);
+  });
+});
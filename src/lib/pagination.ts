@@ -0,0 +1,22 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+/** PostgREST's default row limit; a request never returns more rows than this. */
+export const MAX_ROWS_PER_REQUEST = 1000;
+
+/**
+ * Every row of a query, fetched a page at a time with `.range(from, to)` until
+ * a short page comes back, so long histories are not cut off at the row limit.
+ * The query must have a total order (e.g. end with `.order("id")`) so pages
+ * neither overlap nor skip rows.
+ */
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await page(from, from + MAX_ROWS_PER_REQUEST - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+  }
+};
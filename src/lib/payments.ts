@@ -0,0 +1,164 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import { mockPaymentProvider } from "@/lib/mock-payment-provider";
+import { RpcError, toRpcError } from "@/lib/rpc-error";
+
+export type PaymentMethod = Enums<"payment_method">;
+export type PaymentStatus = Enums<"payment_status">;
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cod: "Cash on Delivery",
+  card: "Credit/Debit Card",
+  upi: "UPI",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  initiated: "Started",
+  authorised: "Authorised",
+  captured: "Paid",
+  failed: "Failed",
+  refunded: "Refunded",
+};
+
+// A provider call that has not answered by then is treated as failed
+export const PAYMENT_TIMEOUT_MS = 10 * 1000;
+
+export interface PaymentRequest {
+  paymentId: string;
+  orderId: string;
+  amount: number;
+  method: PaymentMethod;
+}
+
+/**
+ * The browser side of a payment gateway. Calls reject with a `PaymentError`
+ * (or any error) when the gateway declines; `processPayment` takes care of
+ * timeouts. Capturing happens on the server, in the capture-payment function.
+ */
+export interface PaymentProvider {
+  name: string;
+  /** Reserves the amount and resolves to the gateway's reference for it. */
+  authorise(request: PaymentRequest): Promise<string>;
+  /** Returns some or all of a captured amount and resolves to the refund's reference. */
+  refund(reference: string, amount: number): Promise<string>;
+}
+
+const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider,
+};
+
+/**
+ * The provider named by VITE_PAYMENT_PROVIDER, or the mock one. The server
+ * picks the gateway each payment goes through, so this must match it.
+ */
+export const getPaymentProvider = (): PaymentProvider =>
+  PAYMENT_PROVIDERS[import.meta.env.VITE_PAYMENT_PROVIDER ?? ""] ?? mockPaymentProvider;
+
+export type PaymentErrorCode =
+  | "not_authenticated"
+  | "order_not_found"
+  | "order_not_awaiting_payment"
+  | "payment_not_found"
+  | "invalid_payment_transition"
+  | "declined"
+  | "timeout"
+  | "provider_unavailable"
+  | "unknown";
+
+const PAYMENT_ERROR_CODES: PaymentErrorCode[] = [
+  "not_authenticated",
+  "order_not_found",
+  "order_not_awaiting_payment",
+  "payment_not_found",
+  "invalid_payment_transition",
+  "declined",
+];
+
+/** A payment attempt that did not go through; the order can be paid again. */
+export class PaymentError extends RpcError<PaymentErrorCode> {
+  constructor(message: string, code: PaymentErrorCode) {
+    super(message, code);
+    this.name = "PaymentError";
+  }
+}
+
+const toPaymentError = toRpcError(PaymentError, PAYMENT_ERROR_CODES, "Payment failed");
+
+export const withTimeout = <T>(promise: Promise<T>) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new PaymentError("The payment provider did not respond in time", "timeout")),
+      PAYMENT_TIMEOUT_MS
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+const recordPaymentEvent = async (
+  paymentId: string,
+  status: PaymentStatus,
+  details: { reference?: string; failureReason?: string } = {}
+) => {
+  const { error } = await supabase.rpc("record_payment_event", {
+    _payment_id: paymentId,
+    _status: status,
+    _provider_reference: details.reference,
+    _failure_reason: details.failureReason,
+  });
+  if (error) throw toPaymentError(error);
+};
+
+// Only the server can capture, so a customer cannot mark their own order paid
+const capturePayment = async (paymentId: string) => {
+  const { error } = await supabase.functions.invoke("capture-payment", { body: { paymentId } });
+  if (!error) return;
+
+  const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+  throw toPaymentError(details ?? { message: "The payment could not be captured" });
+};
+
+/** The most recent attempt of an order's payments, if any. */
+export const getLatestPayment = <T extends { created_at: string }>(payments: T[]) =>
+  payments.reduce<T | null>((latest, payment) => (!latest || payment.created_at > latest.created_at ? payment : latest), null);
+
+export type PaymentStep = "authorising" | "capturing";
+
+/**
+ * Pays for an order that is awaiting payment: starts a new attempt, authorises
+ * it with the provider, then has the server capture it. Once the payment is
+ * captured the order is sent to the restaurant. Throws a `PaymentError` if any
+ * step fails, after marking the attempt failed.
+ */
+export const processPayment = async (
+  orderId: string,
+  { provider = getPaymentProvider(), onStep }: { provider?: PaymentProvider; onStep?: (step: PaymentStep) => void } = {}
+) => {
+  const { data, error } = await supabase.rpc("start_payment", { _order_id: orderId });
+  if (error || !data?.[0]) throw toPaymentError(error ?? { message: "Failed to start payment" });
+
+  const request: PaymentRequest = {
+    paymentId: data[0].payment_id,
+    orderId,
+    amount: Number(data[0].amount),
+    method: data[0].method,
+  };
+
+  try {
+    if (data[0].provider !== provider.name) {
+      throw new PaymentError("Online payments are not available right now", "provider_unavailable");
+    }
+
+    onStep?.("authorising");
+    const reference = await withTimeout(provider.authorise(request));
+    await recordPaymentEvent(request.paymentId, "authorised", { reference });
+
+    onStep?.("capturing");
+    await withTimeout(capturePayment(request.paymentId));
+  } catch (error) {
+    const paymentError =
+      error instanceof PaymentError ? error : new PaymentError(error instanceof Error ? error.message : "Payment failed", "declined");
+    // Best effort: an attempt left open is failed by the next start_payment anyway
+    await recordPaymentEvent(request.paymentId, "failed", { failureReason: paymentError.message }).catch(() => undefined);
+    throw paymentError;
+  }
+};
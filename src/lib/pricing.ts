@@ -0,0 +1,107 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Mirrors public.gst_rate() and public.max_tip_amount()
+export const GST_RATE = 0.05;
+export const MAX_TIP_AMOUNT = 500;
+
+export const TIP_PRESETS = [0, 20, 30, 50];
+
+export type RestaurantPricing = Pick<Tables<"restaurants">, "delivery_fee" | "free_delivery_threshold" | "packaging_charge">;
+
+export interface Bill {
+  subtotal: number;
+  discountAmount: number;
+  deliveryFee: number;
+  packagingCharge: number;
+  taxAmount: number;
+  tipAmount: number;
+  roundingAdjustment: number;
+  total: number;
+}
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+};
+
+/**
+ * Same computation as `public.calculate_order_charges`, which is what the
+ * order is actually charged. A coupon discount comes off the subtotal first;
+ * GST applies to food and packaging, and delivery is free once the discounted
+ * subtotal reaches the restaurant's threshold.
+ */
+export const calculateBill = (subtotal: number, pricing: RestaurantPricing, tipAmount = 0, discountAmount = 0): Bill => {
+  const discounted = subtotal - discountAmount;
+  const threshold = pricing.free_delivery_threshold == null ? null : Number(pricing.free_delivery_threshold);
+  const deliveryFee = threshold !== null && discounted >= threshold ? 0 : Number(pricing.delivery_fee);
+  const packagingCharge = Number(pricing.packaging_charge);
+  const taxAmount = roundTo((discounted + packagingCharge) * GST_RATE, 2);
+  const beforeRounding = roundTo(discounted + deliveryFee + packagingCharge + taxAmount + tipAmount, 2);
+  const total = Math.round(beforeRounding);
+
+  return {
+    subtotal,
+    discountAmount,
+    deliveryFee,
+    packagingCharge,
+    taxAmount,
+    tipAmount,
+    roundingAdjustment: roundTo(total - beforeRounding, 2),
+    total,
+  };
+};
+
+type OrderCharges = Pick<
+  Tables<"orders">,
+  | "subtotal_amount"
+  | "discount_amount"
+  | "delivery_fee"
+  | "packaging_charge"
+  | "tax_amount"
+  | "tip_amount"
+  | "rounding_adjustment"
+  | "total_amount"
+>;
+
+/** The bill stored on a placed order. */
+export const getOrderBill = (order: OrderCharges): Bill => ({
+  subtotal: Number(order.subtotal_amount),
+  discountAmount: Number(order.discount_amount),
+  deliveryFee: Number(order.delivery_fee),
+  packagingCharge: Number(order.packaging_charge),
+  taxAmount: Number(order.tax_amount),
+  tipAmount: Number(order.tip_amount),
+  roundingAdjustment: Number(order.rounding_adjustment),
+  total: Number(order.total_amount),
+});
+
+/** Rupees with paise, with the sign in front of the symbol for discounts. */
+export const formatAmount = (amount: number) => `${amount < 0 ? "-" : ""}₹${Math.abs(amount).toFixed(2)}`;
+
+export interface BillLine {
+  label: string;
+  amount: number;
+  /** Shown as "FREE" rather than an amount. */
+  free?: boolean;
+}
+
+/** Itemised bill lines; charges that are zero are left out, except delivery. */
+export const getBillLines = (bill: Bill, couponCode?: string | null): BillLine[] =>
+  [
+    { label: "Item Total", amount: bill.subtotal, show: true },
+    { label: couponCode ? `Coupon (${couponCode})` : "Coupon Discount", amount: -bill.discountAmount, show: bill.discountAmount > 0 },
+    { label: "Delivery Fee", amount: bill.deliveryFee, show: true, free: bill.deliveryFee === 0 },
+    { label: "Packaging", amount: bill.packagingCharge, show: bill.packagingCharge > 0 },
+    { label: `GST (${GST_RATE * 100}%)`, amount: bill.taxAmount, show: bill.taxAmount > 0 },
+    { label: "Rider Tip", amount: bill.tipAmount, show: bill.tipAmount > 0 },
+    { label: "Rounding", amount: bill.roundingAdjustment, show: bill.roundingAdjustment !== 0 },
+  ]
+    .filter((line) => line.show)
+    .map(({ label, amount, free }) => ({ label, amount, free }));
+
+/** Amount still needed for free delivery, or null when it does not apply. */
+export const getFreeDeliveryShortfall = (subtotal: number, pricing: RestaurantPricing, discountAmount = 0) => {
+  if (pricing.free_delivery_threshold == null || Number(pricing.delivery_fee) === 0) return null;
+  const shortfall = Number(pricing.free_delivery_threshold) - (subtotal - discountAmount);
+  return shortfall > 0 ? roundTo(shortfall, 2) : null;
+};
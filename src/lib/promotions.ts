@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PlaceOrderLine } from "@/lib/orders";
+import { RpcError, toRpcError } from "@/lib/rpc-error";
+import type { PromotionFormValues } from "@/components/PromotionForm";
+
+export type Promotion = Tables<"promotions">;
+
+export const PROMOTION_CODE_PATTERN = /^[A-Z0-9]{4,20}$/;
+
+export type CouponErrorCode =
+  | "coupon_not_found"
+  | "coupon_expired"
+  | "coupon_wrong_restaurant"
+  | "coupon_min_order"
+  | "coupon_limit_reached"
+  | "coupon_no_healthy_items";
+
+export const COUPON_ERROR_CODES: CouponErrorCode[] = [
+  "coupon_not_found",
+  "coupon_expired",
+  "coupon_wrong_restaurant",
+  "coupon_min_order",
+  "coupon_limit_reached",
+  "coupon_no_healthy_items",
+];
+
+/** Raised when a coupon cannot be applied to the cart. */
+export class CouponError extends RpcError<CouponErrorCode | "not_authenticated"> {
+  constructor(message: string, code: CouponError["code"]) {
+    super(message, code);
+    this.name = "CouponError";
+  }
+}
+
+const toCouponError = toRpcError(CouponError, [...COUPON_ERROR_CODES, "not_authenticated"], "Failed to apply coupon");
+
+export interface AppliedCoupon {
+  code: string;
+  description: string | null;
+  discountAmount: number;
+}
+
+/**
+ * Checks a coupon against the cart without placing the order. `place_order`
+ * repeats the check, so the discount shown here is never trusted.
+ */
+export const previewCoupon = async (restaurantId: string, items: PlaceOrderLine[], code: string): Promise<AppliedCoupon> => {
+  const { data, error } = await supabase.rpc("preview_coupon", {
+    _restaurant_id: restaurantId,
+    _items: items.map(({ menuItemId, quantity }) => ({ menu_item_id: menuItemId, quantity })),
+    _code: code,
+  });
+
+  if (error || !data?.[0]) throw toCouponError(error ?? { message: "Failed to apply coupon" });
+
+  return {
+    code: data[0].code,
+    description: data[0].description,
+    discountAmount: Number(data[0].discount_amount),
+  };
+};
+
+/** Maps promotion form values to `promotions` columns. */
+export const toPromotionPayload = (values: PromotionFormValues) => ({
+  code: values.code,
+  description: values.description || null,
+  discount_type: values.discount_type,
+  discount_value: values.discount_value,
+  max_discount: values.discount_type === "percent" ? values.max_discount ?? null : null,
+  min_order_value: values.min_order_value,
+  per_user_limit: values.per_user_limit,
+  healthy_only: values.healthy_only,
+  ...(values.starts_at ? { starts_at: new Date(values.starts_at).toISOString() } : {}),
+  ends_at: values.ends_at ? new Date(values.ends_at).toISOString() : null,
+});
+
+/** e.g. "20% off up to ₹100" or "₹50 off" */
+export const formatDiscount = (promotion: Pick<Promotion, "discount_type" | "discount_value" | "max_discount">) =>
+  promotion.discount_type === "percent"
+    ? `${Number(promotion.discount_value)}% off${promotion.max_discount ? ` up to ₹${Number(promotion.max_discount)}` : ""}`
+    : `₹${Number(promotion.discount_value)} off`;
+
+/** The conditions a customer has to meet, in the order they are checked. */
+export const describeConditions = (promotion: Promotion) =>
+  [
+    Number(promotion.min_order_value) > 0 && `On orders of ₹${Number(promotion.min_order_value)} or more`,
+    promotion.healthy_only && "Healthy items (grade A or B) only",
+    promotion.per_user_limit === 1 ? "Once per customer" : `${promotion.per_user_limit} uses per customer`,
+  ].filter(Boolean) as string[];
+
+export type PromotionState = "active" | "scheduled" | "expired" | "paused";
+
+export const getPromotionState = (promotion: Promotion, now = new Date()): PromotionState => {
+  if (!promotion.is_active) return "paused";
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) return "expired";
+  if (new Date(promotion.starts_at) > now) return "scheduled";
+  return "active";
+};
@@ -0,0 +1,137 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import { getPaymentProvider, withTimeout, type PaymentProvider } from "@/lib/payments";
+import { RpcError, toRpcError } from "@/lib/rpc-error";
+
+export type RefundStatus = Enums<"refund_status">;
+
+export const REFUND_REASONS = [
+  "Order rejected by the restaurant",
+  "Item missing from the order",
+  "Wrong item delivered",
+  "Item damaged or spilled",
+  "Order arrived very late",
+  "Other",
+];
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: "Processing",
+  processed: "Refunded",
+  failed: "Failed",
+};
+
+export type RefundErrorCode =
+  | "not_allowed"
+  | "missing_reason"
+  | "nothing_to_refund"
+  | "refund_in_progress"
+  | "invalid_refund_items"
+  | "refund_not_found"
+  | "refund_not_pending"
+  | "declined"
+  | "unknown";
+
+const REFUND_ERROR_CODES: RefundErrorCode[] = [
+  "not_allowed",
+  "missing_reason",
+  "nothing_to_refund",
+  "refund_in_progress",
+  "invalid_refund_items",
+  "refund_not_found",
+  "refund_not_pending",
+];
+
+export class RefundError extends RpcError<RefundErrorCode> {
+  constructor(message: string, code: RefundErrorCode) {
+    super(message, code);
+    this.name = "RefundError";
+  }
+}
+
+const toRefundError = toRpcError(RefundError, REFUND_ERROR_CODES, "Failed to issue refund");
+
+/** How many of an order line the customer kept, i.e. were not refunded. */
+export const getKeptQuantity = (item: { quantity: number; refunded_quantity?: number | null }) =>
+  item.quantity - (item.refunded_quantity ?? 0);
+
+/** What is left of an order's total to refund. */
+export const getRefundableAmount = (order: { total_amount: number; refunded_amount?: number | null }) =>
+  Math.max(0, Number(order.total_amount) - Number(order.refunded_amount ?? 0));
+
+export interface RefundLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+/**
+ * Mirrors `public.create_refund`: refunded items are worth the price paid for
+ * them, up to what is left of the order total.
+ */
+export const estimateRefund = (
+  items: { id: string; price_at_time: number }[],
+  lines: RefundLine[],
+  refundableAmount: number
+) => {
+  const amount = lines.reduce((sum, line) => {
+    const item = items.find((i) => i.id === line.orderItemId);
+    return sum + (item ? Number(item.price_at_time) * line.quantity : 0);
+  }, 0);
+  return Math.min(amount, refundableAmount);
+};
+
+/**
+ * Sends a pending refund back through the payment provider and records its
+ * answer, marking the refund failed if the provider does not accept it. Also
+ * used for the refunds opened when a paid order is cancelled. Throws a
+ * `RefundError`.
+ */
+export const sendRefund = async (
+  refund: { id: string; amount: number },
+  paymentReference: string,
+  { provider = getPaymentProvider() }: { provider?: PaymentProvider } = {}
+) => {
+  let reference: string;
+  try {
+    reference = await withTimeout(provider.refund(paymentReference, refund.amount));
+  } catch (error) {
+    const failureReason = error instanceof Error ? error.message : "Refund declined";
+    // Best effort: the refund stays pending otherwise, blocking new ones until it is completed
+    await supabase
+      .rpc("complete_refund", { _refund_id: refund.id, _succeeded: false, _failure_reason: failureReason })
+      .then(() => undefined, () => undefined);
+    throw new RefundError(failureReason, "declined");
+  }
+
+  const { error: completeError } = await supabase.rpc("complete_refund", {
+    _refund_id: refund.id,
+    _succeeded: true,
+    _provider_reference: reference,
+  });
+  if (completeError) throw toRefundError(completeError);
+};
+
+/**
+ * Refunds an order in full (`lines` null) or for some of its items. Refunds
+ * of cash orders are settled by the restaurant and recorded straight away;
+ * online payments are refunded through the provider, and the refund is marked
+ * failed if the provider does not accept it. Throws a `RefundError`.
+ */
+export const issueRefund = async (
+  orderId: string,
+  reason: string,
+  lines: RefundLine[] | null,
+  { provider = getPaymentProvider() }: { provider?: PaymentProvider } = {}
+) => {
+  const { data, error } = await supabase.rpc("create_refund", {
+    _order_id: orderId,
+    _reason: reason,
+    _items: lines?.map((line) => ({ order_item_id: line.orderItemId, quantity: line.quantity })),
+  });
+  if (error || !data?.[0]) throw toRefundError(error ?? { message: "Failed to issue refund" });
+
+  const refund = { id: data[0].refund_id, amount: Number(data[0].amount), status: data[0].status };
+  if (refund.status !== "pending") return refund;
+
+  await sendRefund(refund, data[0].payment_reference, { provider });
+  return { ...refund, status: "processed" as const };
+};
@@ -0,0 +1,84 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { CartLine, CartRestaurant } from "@/hooks/use-cart";
+
+export interface PastOrderLine {
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  priceAtTime: number;
+}
+
+export type ReorderChange =
+  | { type: "price_changed"; name: string; quantity: number; oldPrice: number; newPrice: number }
+  | { type: "unavailable"; name: string; quantity: number };
+
+export interface ReorderPlan {
+  /** Null when the restaurant is no longer taking orders. */
+  restaurant: CartRestaurant | null;
+  lines: CartLine[];
+  changes: ReorderChange[];
+  originalTotal: number;
+  newTotal: number;
+}
+
+/**
+ * Rebuilds a cart from a past order using today's menu. Items that are no
+ * longer available are dropped and price changes are reported so the
+ * customer can review them before checking out.
+ */
+export const buildReorderPlan = async (restaurantId: string, pastLines: PastOrderLine[]): Promise<ReorderPlan> => {
+  // The same dish can appear on several lines; reorder it once with the combined quantity
+  const merged = new Map<string, PastOrderLine>();
+  pastLines.forEach((line) => {
+    const existing = merged.get(line.menuItemId);
+    merged.set(line.menuItemId, existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line });
+  });
+  const ordered = Array.from(merged.values());
+  const originalTotal = ordered.reduce((sum, line) => sum + line.priceAtTime * line.quantity, 0);
+
+  const [{ data: restaurant, error: restaurantError }, { data: menuItems, error: menuError }] = await Promise.all([
+    supabase.from("restaurants").select("id, name").eq("id", restaurantId).eq("is_active", true).maybeSingle(),
+    supabase
+      .from("menu_items")
+      .select("*")
+      .in("id", Array.from(merged.keys()))
+      .eq("is_available", true),
+  ]);
+
+  if (restaurantError) throw restaurantError;
+  if (menuError) throw menuError;
+
+  if (!restaurant) {
+    return {
+      restaurant: null,
+      lines: [],
+      changes: ordered.map(({ name, quantity }) => ({ type: "unavailable", name, quantity })),
+      originalTotal,
+      newTotal: 0,
+    };
+  }
+
+  const current = new Map((menuItems || []).map((item) => [item.id, item]));
+  const lines: CartLine[] = [];
+  const changes: ReorderChange[] = [];
+
+  ordered.forEach(({ menuItemId, name, quantity, priceAtTime }) => {
+    const item = current.get(menuItemId);
+    if (!item) {
+      changes.push({ type: "unavailable", name, quantity });
+      return;
+    }
+    if (Number(item.price) !== Number(priceAtTime)) {
+      changes.push({ type: "price_changed", name: item.name, quantity, oldPrice: Number(priceAtTime), newPrice: Number(item.price) });
+    }
+    lines.push({ item, quantity });
+  });
+
+  return {
+    restaurant,
+    lines,
+    changes,
+    originalTotal,
+    newTotal: lines.reduce((sum, { item, quantity }) => sum + Number(item.price) * quantity, 0),
+  };
+};
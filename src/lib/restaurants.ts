@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import { RpcError, toRpcError } from "@/lib/rpc-error";
+
+export type RestaurantErrorCode =
+  | "not_authenticated"
+  | "restaurant_exists"
+  | "missing_details"
+  | "invalid_delivery_time"
+  | "not_owner"
+  | "menu_empty"
+  | "unknown";
+
+const RESTAURANT_ERROR_CODES: RestaurantErrorCode[] = [
+  "not_authenticated",
+  "restaurant_exists",
+  "missing_details",
+  "invalid_delivery_time",
+  "not_owner",
+  "menu_empty",
+];
+
+/** Validation failure raised by the `register_restaurant` and `complete_restaurant_onboarding` RPCs. */
+export class RestaurantError extends RpcError<RestaurantErrorCode> {
+  constructor(message: string, code: RestaurantErrorCode) {
+    super(message, code);
+    this.name = "RestaurantError";
+  }
+}
+
+const toRestaurantError = toRpcError(RestaurantError, RESTAURANT_ERROR_CODES, "Failed to register restaurant");
+
+export interface RegisterRestaurantParams {
+  name: string;
+  description?: string;
+  cuisineType: string;
+  deliveryTimeMinutes: number;
+  imageUrl?: string;
+}
+
+/**
+ * Creates the caller's restaurant (inactive) and grants them the
+ * `restaurant_owner` role. Resolves to the new restaurant id.
+ */
+export const registerRestaurant = async ({
+  name,
+  description,
+  cuisineType,
+  deliveryTimeMinutes,
+  imageUrl,
+}: RegisterRestaurantParams): Promise<string> => {
+  const { data, error } = await supabase.rpc("register_restaurant", {
+    _name: name,
+    _description: description || undefined,
+    _cuisine_type: cuisineType,
+    _delivery_time_minutes: deliveryTimeMinutes,
+    _image_url: imageUrl || undefined,
+  });
+
+  if (error) throw toRestaurantError(error);
+  return data;
+};
+
+/** Makes the restaurant visible to customers once it has an available menu item. */
+export const completeRestaurantOnboarding = async (restaurantId: string) => {
+  const { error } = await supabase.rpc("complete_restaurant_onboarding", {
+    _restaurant_id: restaurantId,
+  });
+
+  if (error) throw toRestaurantError(error, "Failed to complete setup");
+};
@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+import { RpcError, toRpcError } from "@/lib/rpc-error";
+
+export type ReviewErrorCode =
+  | "not_authenticated"
+  | "order_not_found"
+  | "order_not_delivered"
+  | "review_exists"
+  | "invalid_rating"
+  | "item_not_in_order"
+  | "not_owner"
+  | "empty_reply"
+  | "unknown";
+
+const REVIEW_ERROR_CODES: ReviewErrorCode[] = [
+  "not_authenticated",
+  "order_not_found",
+  "order_not_delivered",
+  "review_exists",
+  "invalid_rating",
+  "item_not_in_order",
+  "not_owner",
+  "empty_reply",
+];
+
+/** Validation failure raised by the `submit_review` and `reply_to_review` RPCs. */
+export class ReviewError extends RpcError<ReviewErrorCode> {
+  constructor(message: string, code: ReviewErrorCode) {
+    super(message, code);
+    this.name = "ReviewError";
+  }
+}
+
+const toReviewError = toRpcError(ReviewError, REVIEW_ERROR_CODES, "Failed to submit review");
+
+export interface DishRating {
+  menuItemId: string;
+  thumbsUp: boolean;
+}
+
+export interface SubmitReviewParams {
+  orderId: string;
+  rating: number;
+  comment?: string;
+  dishRatings?: DishRating[];
+}
+
+/** Reviews a delivered order. Resolves to the new review id. */
+export const submitReview = async ({ orderId, rating, comment, dishRatings = [] }: SubmitReviewParams) => {
+  const { data, error } = await supabase.rpc("submit_review", {
+    _order_id: orderId,
+    _rating: rating,
+    _comment: comment || undefined,
+    _dish_ratings: dishRatings.map(({ menuItemId, thumbsUp }) => ({ menu_item_id: menuItemId, thumbs_up: thumbsUp })),
+  });
+
+  if (error) throw toReviewError(error);
+  return data;
+};
+
+export const replyToReview = async (reviewId: string, reply: string) => {
+  const { error } = await supabase.rpc("reply_to_review", { _review_id: reviewId, _reply: reply });
+  if (error) throw toReviewError(error, "Failed to save reply");
+};
+
+/** Share of thumbs up as a whole percentage, or null when the dish has no ratings. */
+export const getThumbsUpPercentage = (ratings: { thumbs_up: number | null; thumbs_down: number | null } | undefined) => {
+  const up = ratings?.thumbs_up ?? 0;
+  const total = up + (ratings?.thumbs_down ?? 0);
+  return total === 0 ? null : Math.round((up / total) * 100);
+};
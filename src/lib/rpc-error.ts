@@ -0,0 +1,31 @@
+/** What a failed RPC reports. Our functions raise with the error code as the hint. */
+export interface RpcErrorDetails {
+  message: string;
+  hint?: string;
+  details?: string;
+}
+
+/** Validation failure raised by an RPC, with `code` taken from its hint. */
+export class RpcError<Code extends string> extends Error {
+  code: Code | "unknown";
+
+  constructor(message: string, code: Code | "unknown") {
+    super(message);
+    this.name = "RpcError";
+    this.code = code;
+  }
+}
+
+/**
+ * Builds the function that turns an RPC's error into `ErrorClass`. Hints not in
+ * `codes` become "unknown"; `fallbackMessage` is used when there is no message
+ * and can be overridden per call.
+ */
+export const toRpcError =
+  <Code extends string, E extends RpcError<Code>>(
+    ErrorClass: new (message: string, code: Code | "unknown") => E,
+    codes: readonly Code[],
+    fallbackMessage: string
+  ) =>
+  (error: RpcErrorDetails, fallback = fallbackMessage) =>
+    new ErrorClass(error.message || fallback, codes.find((c) => c === error.hint) ?? "unknown");
@@ -0,0 +1,98 @@
+import { format } from "date-fns";
+import {
+  addDays,
+  getLocalTime,
+  getOpeningStatus,
+  type OpeningHoursSlot,
+  type RestaurantHoliday,
+} from "@/lib/opening-hours";
+import type { OrderStatus } from "@/lib/order-status";
+
+// Mirrors public.schedule_lead_time(), schedule_horizon() and scheduled_cancel_cutoff()
+export const SCHEDULE_LEAD_MINUTES = 60;
+export const SCHEDULE_HORIZON_DAYS = 7;
+export const SCHEDULED_CANCEL_CUTOFF_MINUTES = 60;
+export const SCHEDULE_SLOT_MINUTES = 30;
+
+const MINUTE = 60 * 1000;
+const SLOT = SCHEDULE_SLOT_MINUTES * MINUTE;
+
+export interface ScheduleSlot {
+  /** ISO timestamp sent as `scheduled_for`. */
+  value: string;
+  /** Local time in the restaurant's time zone, e.g. "12:30". */
+  label: string;
+}
+
+export interface ScheduleDay {
+  date: string;
+  label: string;
+  slots: ScheduleSlot[];
+}
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+/**
+ * Delivery slots from the lead time up to the booking horizon, every
+ * `SCHEDULE_SLOT_MINUTES`, keeping only those inside the restaurant's hours.
+ * Days are grouped by the restaurant's local date.
+ */
+export const getScheduleSlots = (
+  hours: OpeningHoursSlot[],
+  holidays: RestaurantHoliday[],
+  timeZone: string,
+  now: Date = new Date()
+): ScheduleDay[] => {
+  const first = Math.ceil((now.getTime() + SCHEDULE_LEAD_MINUTES * MINUTE) / SLOT) * SLOT;
+  const last = now.getTime() + SCHEDULE_HORIZON_DAYS * 24 * 60 * MINUTE;
+  const today = getLocalTime(now, timeZone).date;
+  const days: ScheduleDay[] = [];
+
+  for (let at = first; at <= last; at += SLOT) {
+    const slotTime = new Date(at);
+    if (!getOpeningStatus(hours, holidays, timeZone, slotTime).isOpen) continue;
+
+    const local = getLocalTime(slotTime, timeZone);
+    let day = days[days.length - 1];
+    if (!day || day.date !== local.date) {
+      day = {
+        date: local.date,
+        label:
+          local.date === today
+            ? "Today"
+            : local.date === addDays(today, 1)
+              ? "Tomorrow"
+              : format(new Date(`${local.date}T00:00:00`), "EEE, MMM d"),
+        slots: [],
+      };
+      days.push(day);
+    }
+    day.slots.push({ value: slotTime.toISOString(), label: formatMinutes(local.minutes) });
+  }
+
+  return days;
+};
+
+interface ScheduledOrder {
+  status: OrderStatus;
+  scheduled_for: string | null;
+}
+
+/** Mirrors the checks in `public.cancel_order`. */
+export const canCancelScheduledOrder = ({ status, scheduled_for }: ScheduledOrder, now: Date = new Date()) =>
+  !!scheduled_for &&
+  (status === "pending" || status === "confirmed") &&
+  now.getTime() <= new Date(scheduled_for).getTime() - SCHEDULED_CANCEL_CUTOFF_MINUTES * MINUTE;
+
+/**
+ * A scheduled order that is not due yet. Once its slot is within the lead time
+ * it is treated like any other live order.
+ */
+export const isUpcomingScheduledOrder = ({ status, scheduled_for }: ScheduledOrder, now: Date = new Date()) =>
+  !!scheduled_for &&
+  (status === "pending" || status === "confirmed") &&
+  new Date(scheduled_for).getTime() - now.getTime() > SCHEDULE_LEAD_MINUTES * MINUTE;
+
+export const formatScheduledFor = (scheduledFor: string) =>
+  format(new Date(scheduledFor), "EEE, MMM dd 'at' hh:mm a");
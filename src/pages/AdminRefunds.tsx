@@ -0,0 +1,34 @@
+import Navbar from "@/components/Navbar";
+import OrderHistory from "@/components/OrderHistory";
+import { RotateCcw } from "lucide-react";
+import { useRequireRole } from "@/hooks/use-require-role";
+
+const AdminRefunds = () => {
+  const user = useRequireRole("admin");
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+            <div className="w-12 h-12 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center">
+              <RotateCcw className="w-6 h-6 text-white" />
+            </div>
+            Refunds
+          </h1>
+          <p className="text-muted-foreground">
+            Find completed and cancelled orders across all restaurants by order number, restaurant or date.
+          </p>
+        </div>
+
+        <OrderHistory />
+      </div>
+    </div>
+  );
+};
+
+export default AdminRefunds;
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import Navbar from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
@@ -8,26 +8,50 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Flame, ShoppingCart } from "lucide-react";
+import { Flame, MapPin, Plus, ShoppingCart, TicketPercent, X } from "lucide-react";
 import { toast } from "sonner";
-
-interface CartItem {
-  item: any;
-  quantity: number;
-}
+import { placeOrder, PlaceOrderError } from "@/lib/orders";
+import { useCart } from "@/hooks/use-cart";
+import NutrientSummary from "@/components/NutrientSummary";
+import AddressForm, { type AddressFormValues } from "@/components/AddressForm";
+import DeliveryTimePicker from "@/components/DeliveryTimePicker";
+import BillBreakdown from "@/components/BillBreakdown";
+import PaymentDialog, { type PayingOrder } from "@/components/PaymentDialog";
+import { formatAddress, type Address } from "@/lib/addresses";
+import { formatScheduledFor } from "@/lib/scheduling";
+import { previewCoupon, type AppliedCoupon } from "@/lib/promotions";
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from "@/lib/payments";
+import {
+  calculateBill,
+  getFreeDeliveryShortfall,
+  MAX_TIP_AMOUNT,
+  TIP_PRESETS,
+  type RestaurantPricing,
+} from "@/lib/pricing";
 
 const Checkout = () => {
   const navigate = useNavigate();
-  const location = useLocation();
   const [user, setUser] = useState<any>(null);
   const [isRestaurantOwner, setIsRestaurantOwner] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  
-  const { cart, restaurant } = location.state || { cart: new Map(), restaurant: null };
-  
-  const [deliveryAddress, setDeliveryAddress] = useState("");
+  const { restaurant, lines, itemCount, totalAmount, totalCalories, totalNutrients, clearCart } = useCart();
+  const orderPlaced = useRef(false);
+
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [addressesLoaded, setAddressesLoaded] = useState(false);
+  const [selectedAddressId, setSelectedAddressId] = useState("");
+  const [showAddressForm, setShowAddressForm] = useState(false);
   const [deliveryInstructions, setDeliveryInstructions] = useState("");
-  const [paymentMethod, setPaymentMethod] = useState("cod");
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [pricing, setPricing] = useState<RestaurantPricing | null>(null);
+  const [tipAmount, setTipAmount] = useState(0);
+  const [customTip, setCustomTip] = useState("");
+  const [couponInput, setCouponInput] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cod");
+  const [payingOrder, setPayingOrder] = useState<PayingOrder | null>(null);
+  const [invalidItem, setInvalidItem] = useState<{ id: string; message: string } | null>(null);
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
@@ -44,15 +68,35 @@ const Checkout = () => {
   }, [navigate]);
 
   useEffect(() => {
-    if (user) checkUserRole();
+    if (user) {
+      checkUserRole();
+      fetchAddresses();
+    }
   }, [user]);
 
   useEffect(() => {
-    if (!cart || cart.size === 0 || !restaurant) {
+    if (!restaurant) return;
+    supabase
+      .from("restaurants")
+      .select("delivery_fee, free_delivery_threshold, packaging_charge")
+      .eq("id", restaurant.id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          toast.error("Failed to load delivery charges");
+          return;
+        }
+        setPricing(data);
+      });
+  }, [restaurant]);
+
+  useEffect(() => {
+    if (orderPlaced.current) return;
+    if (itemCount === 0 || !restaurant) {
       toast.error("No items in cart");
       navigate("/");
     }
-  }, [cart, restaurant, navigate]);
+  }, [itemCount, restaurant, navigate]);
 
   const checkUserRole = async () => {
     const { data } = await supabase
@@ -64,74 +108,135 @@ const Checkout = () => {
     setIsRestaurantOwner(!!data);
   };
 
-  const getTotalAmount = (): number => {
-    return Array.from(cart.values()).reduce<number>(
-      (sum, { item, quantity }) => sum + (parseFloat(item.price) * quantity),
-      0
-    );
+  const fetchAddresses = async () => {
+    const { data, error } = await supabase
+      .from("addresses")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("is_default", { ascending: false })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast.error("Failed to load saved addresses");
+      return;
+    }
+
+    setAddresses(data || []);
+    setAddressesLoaded(true);
+    setSelectedAddressId((current) => current || data?.[0]?.id || "");
+    if (!data || data.length === 0) setShowAddressForm(true);
+  };
+
+  const handleAddAddress = async (values: AddressFormValues) => {
+    const { data, error } = await supabase
+      .from("addresses")
+      .insert({
+        user_id: user.id,
+        label: values.label,
+        line1: values.line1,
+        line2: values.line2 || null,
+        landmark: values.landmark || null,
+        city: values.city,
+        pincode: values.pincode,
+        is_default: values.is_default,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      toast.error("Failed to save address");
+      return;
+    }
+
+    toast.success("Address saved");
+    setSelectedAddressId(data.id);
+    setShowAddressForm(false);
+    fetchAddresses();
   };
 
-  const getTotalCalories = (): number => {
-    return Array.from(cart.values()).reduce<number>(
-      (sum, { item, quantity }) => sum + (item.calories * quantity),
-      0
-    );
+  const selectCustomTip = (value: string) => {
+    setCustomTip(value);
+    const amount = Number(value);
+    setTipAmount(Number.isFinite(amount) && amount > 0 ? Math.min(Math.round(amount), MAX_TIP_AMOUNT) : 0);
+  };
+
+  const orderLines = () => lines.map(({ item, quantity }) => ({ menuItemId: item.id, quantity }));
+
+  const handleApplyCoupon = async () => {
+    const code = couponInput.trim().toUpperCase();
+    if (!code) return;
+
+    setIsApplyingCoupon(true);
+    try {
+      const coupon = await previewCoupon(restaurant.id, orderLines(), code);
+      setAppliedCoupon(coupon);
+      setCouponInput("");
+      toast.success(`${coupon.code} applied. You save ₹${coupon.discountAmount.toFixed(2)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to apply coupon");
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const finishOrder = () => {
+    orderPlaced.current = true;
+    clearCart();
+    toast.success(scheduledFor ? `Order scheduled for ${formatScheduledFor(scheduledFor)}` : "Order placed successfully!");
+    navigate("/", { state: { orderPlaced: true } });
+  };
+
+  // The order exists but has not been paid; it stays in My Orders for later
+  const leaveUnpaid = () => {
+    orderPlaced.current = true;
+    clearCart();
+    toast("Your order is saved. Pay for it from My Orders to send it to the restaurant.");
+    navigate("/my-orders");
   };
 
   const handlePlaceOrder = async () => {
-    if (!deliveryAddress.trim()) {
-      toast.error("Please enter delivery address");
+    if (!selectedAddressId) {
+      toast.error("Please choose a delivery address");
       return;
     }
 
     setIsLoading(true);
+    setInvalidItem(null);
 
     try {
-      // Create order
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert([{
-          customer_id: user.id,
-          restaurant_id: restaurant.id,
-          delivery_address: deliveryAddress,
-          delivery_instructions: deliveryInstructions || null,
-          total_amount: getTotalAmount(),
-          status: "pending",
-        }])
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = Array.from(cart.values()).map(({ item, quantity }: CartItem) => ({
-        order_id: order.id,
-        menu_item_id: item.id,
-        quantity,
-        price_at_time: item.price,
-        calories_at_time: item.calories,
-        is_healthy_at_time: item.is_healthy,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from("order_items")
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      toast.success("Order placed successfully!");
-      navigate("/", { state: { orderPlaced: true } });
-    } catch (error: any) {
+      const orderId = await placeOrder({
+        restaurantId: restaurant.id,
+        items: orderLines(),
+        addressId: selectedAddressId,
+        deliveryInstructions,
+        scheduledFor,
+        tipAmount,
+        couponCode: appliedCoupon?.code,
+        paymentMethod,
+      });
+
+      if (paymentMethod === "cod") {
+        finishOrder();
+      } else {
+        setPayingOrder({ id: orderId, amount: bill.total, method: paymentMethod, restaurantName: restaurant.name });
+      }
+    } catch (error) {
       console.error("Order error:", error);
-      toast.error(error.message || "Failed to place order");
+      if (error instanceof PlaceOrderError) {
+        setInvalidItem(error.menuItemId ? { id: error.menuItemId, message: error.message } : null);
+        if (error.code.startsWith("coupon_")) setAppliedCoupon(null);
+      }
+      toast.error(error instanceof Error ? error.message : "Failed to place order");
     } finally {
       setIsLoading(false);
     }
   };
 
-  if (!user || !cart || cart.size === 0 || !restaurant) return null;
+  if (!user || itemCount === 0 || !restaurant) return null;
 
-  const cartItems = Array.from(cart.values());
+  const discountAmount = appliedCoupon?.discountAmount ?? 0;
+  const bill = pricing && calculateBill(totalAmount, pricing, tipAmount, discountAmount);
+  const freeDeliveryShortfall = pricing && getFreeDeliveryShortfall(totalAmount, pricing, discountAmount);
 
   return (
     <div className="min-h-screen bg-background">
@@ -149,15 +254,46 @@ const Checkout = () => {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="address">Delivery Address *</Label>
-                  <Textarea
-                    id="address"
-                    placeholder="Enter your complete delivery address"
-                    value={deliveryAddress}
-                    onChange={(e) => setDeliveryAddress(e.target.value)}
-                    rows={3}
-                    required
-                  />
+                  <Label>Delivery Address *</Label>
+                  {addresses.length > 0 && (
+                    <RadioGroup value={selectedAddressId} onValueChange={setSelectedAddressId}>
+                      {addresses.map((address) => (
+                        <div
+                          key={address.id}
+                          className="flex items-start space-x-2 p-4 border rounded-lg cursor-pointer hover:bg-accent"
+                        >
+                          <RadioGroupItem value={address.id} id={`address-${address.id}`} className="mt-1" />
+                          <Label htmlFor={`address-${address.id}`} className="cursor-pointer flex-1 space-y-1">
+                            <span className="flex items-center gap-2 font-semibold">
+                              <MapPin className="w-4 h-4" />
+                              {address.label}
+                              {address.is_default && (
+                                <span className="text-xs font-normal text-muted-foreground">(Default)</span>
+                              )}
+                            </span>
+                            <span className="block font-normal text-muted-foreground">{formatAddress(address)}</span>
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
+                  {showAddressForm ? (
+                    <div className="p-4 border rounded-lg">
+                      <p className="font-semibold mb-4">New Address</p>
+                      <AddressForm
+                        submitLabel="Save Address"
+                        onSubmit={handleAddAddress}
+                        onCancel={addresses.length > 0 ? () => setShowAddressForm(false) : undefined}
+                      />
+                    </div>
+                  ) : (
+                    addressesLoaded && (
+                      <Button variant="outline" className="w-full gap-2" onClick={() => setShowAddressForm(true)}>
+                        <Plus className="w-4 h-4" />
+                        Add New Address
+                      </Button>
+                    )
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="instructions">Delivery Instructions (Optional)</Label>
@@ -172,31 +308,71 @@ const Checkout = () => {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Delivery Time</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DeliveryTimePicker restaurantId={restaurant.id} value={scheduledFor} onChange={setScheduledFor} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tip Your Rider</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">100% of the tip goes to the person delivering your order.</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  {TIP_PRESETS.map((amount) => (
+                    <Button
+                      key={amount}
+                      type="button"
+                      size="sm"
+                      variant={tipAmount === amount && !customTip ? "default" : "outline"}
+                      onClick={() => {
+                        setCustomTip("");
+                        setTipAmount(amount);
+                      }}
+                    >
+                      {amount === 0 ? "No Tip" : `₹${amount}`}
+                    </Button>
+                  ))}
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_TIP_AMOUNT}
+                    placeholder="Other"
+                    className="w-28"
+                    value={customTip}
+                    onChange={(e) => selectCustomTip(e.target.value)}
+                    aria-label="Custom tip amount"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Payment Method</CardTitle>
               </CardHeader>
               <CardContent>
-                <RadioGroup value={paymentMethod} onValueChange={setPaymentMethod}>
-                  <div className="flex items-center space-x-2 p-4 border rounded-lg cursor-pointer hover:bg-accent">
-                    <RadioGroupItem value="cod" id="cod" />
-                    <Label htmlFor="cod" className="cursor-pointer flex-1">
-                      Cash on Delivery
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2 p-4 border rounded-lg cursor-pointer hover:bg-accent">
-                    <RadioGroupItem value="card" id="card" />
-                    <Label htmlFor="card" className="cursor-pointer flex-1">
-                      Credit/Debit Card (Simulated)
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2 p-4 border rounded-lg cursor-pointer hover:bg-accent">
-                    <RadioGroupItem value="upi" id="upi" />
-                    <Label htmlFor="upi" className="cursor-pointer flex-1">
-                      UPI (Simulated)
-                    </Label>
-                  </div>
+                <RadioGroup value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => (
+                    <div key={method} className="flex items-center space-x-2 p-4 border rounded-lg cursor-pointer hover:bg-accent">
+                      <RadioGroupItem value={method} id={method} />
+                      <Label htmlFor={method} className="cursor-pointer flex-1">
+                        {PAYMENT_METHOD_LABELS[method]}
+                        {method !== "cod" && " (Simulated)"}
+                      </Label>
+                    </div>
+                  ))}
                 </RadioGroup>
+                {paymentMethod !== "cod" && (
+                  <p className="text-xs text-muted-foreground mt-3">
+                    You will pay right after placing the order. The restaurant only receives it once the payment succeeds.
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -219,40 +395,85 @@ const Checkout = () => {
                   </div>
 
                   <div className="space-y-3 border-t pt-4">
-                    {cartItems.map(({ item, quantity }: CartItem) => (
+                    {lines.map(({ item, quantity }) => (
                       <div key={item.id} className="flex justify-between items-start">
                         <div className="flex-1">
                           <p className="font-medium text-sm">{item.name}</p>
                           <p className="text-xs text-muted-foreground">
-                            ₹{parseFloat(item.price).toFixed(2)} × {quantity}
+                            ₹{Number(item.price).toFixed(2)} × {quantity}
                           </p>
+                          {invalidItem?.id === item.id && (
+                            <p className="text-xs text-destructive">{invalidItem.message}</p>
+                          )}
                         </div>
                         <p className="font-semibold text-sm">
-                          ₹{(parseFloat(item.price) * quantity).toFixed(2)}
+                          ₹{(Number(item.price) * quantity).toFixed(2)}
                         </p>
                       </div>
                     ))}
                   </div>
 
                   <div className="border-t pt-4 space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Subtotal</span>
-                      <span>₹{getTotalAmount().toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span>Delivery Fee</span>
-                      <span>₹0.00</span>
-                    </div>
+                    {appliedCoupon ? (
+                      <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-primary/10 text-sm">
+                        <span className="flex items-center gap-2">
+                          <TicketPercent className="w-4 h-4 text-primary" />
+                          <span>
+                            <span className="font-semibold">{appliedCoupon.code}</span>
+                            {appliedCoupon.description && (
+                              <span className="block text-xs text-muted-foreground">{appliedCoupon.description}</span>
+                            )}
+                          </span>
+                        </span>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-6 w-6"
+                          onClick={() => setAppliedCoupon(null)}
+                          aria-label="Remove coupon"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Coupon code"
+                          value={couponInput}
+                          onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                          onKeyDown={(e) => e.key === "Enter" && handleApplyCoupon()}
+                          maxLength={20}
+                          aria-label="Coupon code"
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={handleApplyCoupon}
+                          disabled={isApplyingCoupon || !couponInput.trim()}
+                        >
+                          Apply
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="border-t pt-4 space-y-2">
+                    {bill && <BillBreakdown bill={bill} couponCode={appliedCoupon?.code} />}
+                    {freeDeliveryShortfall && (
+                      <p className="text-xs text-primary">
+                        Add ₹{freeDeliveryShortfall.toFixed(2)} more for free delivery
+                      </p>
+                    )}
                     <div className="flex justify-between text-sm">
                       <span className="flex items-center gap-1">
                         <Flame className="w-4 h-4" />
                         Total Calories
                       </span>
-                      <span className="font-semibold">{getTotalCalories()} cal</span>
+                      <span className="font-semibold">{totalCalories} cal</span>
                     </div>
+                    <NutrientSummary nutrients={totalNutrients} />
                     <div className="flex justify-between text-lg font-bold border-t pt-2">
                       <span>Total Amount</span>
-                      <span>₹{getTotalAmount().toFixed(2)}</span>
+                      <span>₹{(bill?.total ?? totalAmount).toFixed(2)}</span>
                     </div>
                   </div>
 
@@ -260,9 +481,9 @@ const Checkout = () => {
                     className="w-full"
                     size="lg"
                     onClick={handlePlaceOrder}
-                    disabled={isLoading}
+                    disabled={isLoading || !bill}
                   >
-                    {isLoading ? "Placing Order..." : "Place Order"}
+                    {isLoading ? "Placing Order..." : paymentMethod === "cod" ? "Place Order" : "Place Order & Pay"}
                   </Button>
 
                   <p className="text-xs text-muted-foreground text-center">
@@ -274,6 +495,8 @@ const Checkout = () => {
           </div>
         </div>
       </div>
+
+      <PaymentDialog order={payingOrder} onPaid={finishOrder} onClose={leaveUnpaid} />
     </div>
   );
 };
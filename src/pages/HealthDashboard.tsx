@@ -2,14 +2,32 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Heart, TrendingUp, Flame, Leaf } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Heart, TrendingUp, Flame, Leaf, Target, FileDown, FileJson, FileSpreadsheet } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
+import MacroBreakdownChart from "@/components/MacroBreakdownChart";
+import DailyGoalRings from "@/components/DailyGoalRings";
+import NutritionTrends from "@/components/NutritionTrends";
+import MealLogs from "@/components/MealLogs";
+import { useDailyGoals } from "@/hooks/use-daily-goals";
+import { fromOrderItemSnapshot, sumNutrients } from "@/lib/nutrition";
+import { isHealthyOrderItem } from "@/lib/health-score";
+import { getKeptQuantity } from "@/lib/refunds";
+import { fetchMealLogs, fromMealLog, type MealLog } from "@/lib/meal-logs";
+import { downloadFile } from "@/lib/download";
+import { fetchMealEntries, toFhirBundle, toNutritionCsv } from "@/lib/nutrition-export";
 
 const HealthDashboard = () => {
   const [user, setUser] = useState<any>(null);
   const [healthData, setHealthData] = useState<any>(null);
   const [isRestaurantOwner, setIsRestaurantOwner] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [trendsVersion, setTrendsVersion] = useState(0);
+  const daily = useDailyGoals();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -57,11 +75,20 @@ const HealthDashboard = () => {
         order_items (
           calories_at_time,
           is_healthy_at_time,
+          health_grade_at_time,
           price_at_time,
-          quantity
+          quantity,
+          refunded_quantity,
+          protein_g_at_time,
+          carbohydrates_g_at_time,
+          fat_g_at_time,
+          fibre_g_at_time,
+          sugar_g_at_time,
+          sodium_mg_at_time
         )
       `)
       .eq("customer_id", user.id)
+      .not("status", "in", "(cancelled,awaiting_payment)")
       .gte("created_at", thirtyDaysAgo.toISOString());
 
     if (ordersError) {
@@ -69,6 +96,15 @@ const HealthDashboard = () => {
       return;
     }
 
+    // Meals logged by hand add to calories and nutrients only; they have no price
+    let mealLogs: MealLog[] = [];
+    try {
+      mealLogs = await fetchMealLogs(user.id, thirtyDaysAgo);
+    } catch (error) {
+      console.error("Error fetching meal logs:", error);
+    }
+    const loggedCalories = mealLogs.reduce((sum, log) => sum + log.calories, 0);
+
     // Calculate statistics
     let totalCalories = 0;
     let healthySpending = 0;
@@ -78,10 +114,13 @@ const HealthDashboard = () => {
 
     orders?.forEach((order: any) => {
       order.order_items?.forEach((item: any) => {
-        const itemTotal = item.price_at_time * item.quantity;
-        totalCalories += item.calories_at_time * item.quantity;
+        // Refunded items were neither paid for nor eaten
+        const quantity = getKeptQuantity(item);
+        if (quantity === 0) return;
+        const itemTotal = item.price_at_time * quantity;
+        totalCalories += item.calories_at_time * quantity;
         
-        if (item.is_healthy_at_time) {
+        if (isHealthyOrderItem(item)) {
           healthySpending += itemTotal;
           healthyOrders++;
         } else {
@@ -91,6 +130,15 @@ const HealthDashboard = () => {
       });
     });
 
+    totalCalories += loggedCalories;
+
+    const totalNutrients = sumNutrients([
+      ...(orders || []).flatMap((order) =>
+        order.order_items.map((item) => ({ nutrients: fromOrderItemSnapshot(item), quantity: getKeptQuantity(item) }))
+      ),
+      ...mealLogs.map((log) => ({ nutrients: fromMealLog(log), quantity: 1 })),
+    ]);
+
     const totalSpending = healthySpending + junkSpending;
     const healthyPercentage = totalSpending > 0 ? (healthySpending / totalSpending) * 100 : 0;
     const junkPercentage = totalSpending > 0 ? (junkSpending / totalSpending) * 100 : 0;
@@ -105,9 +153,45 @@ const HealthDashboard = () => {
       healthyOrders,
       junkOrders,
       totalOrders: orders?.length || 0,
+      totalNutrients,
+      loggedCalories,
+      loggedMeals: mealLogs.length,
     });
   };
 
+  const handleMealLogsChanged = () => {
+    fetchHealthData();
+    daily.refresh();
+    setTrendsVersion((version) => version + 1);
+  };
+
+  // Covers the same 30 days as the dashboard
+  const exportNutrition = async (exportFormat: "fhir" | "csv") => {
+    setIsExporting(true);
+    try {
+      const since = new Date();
+      since.setDate(since.getDate() - 30);
+      const meals = await fetchMealEntries(user.id, since);
+      if (meals.length === 0) {
+        toast.info("Nothing to export from the last 30 days");
+        return;
+      }
+
+      const date = format(new Date(), "yyyy-MM-dd");
+      if (exportFormat === "fhir") {
+        const bundle = toFhirBundle(meals, { id: user.id, email: user.email ?? "" });
+        downloadFile(JSON.stringify(bundle, null, 2), `foodwise-nutrition-${date}.fhir.json`, "application/fhir+json");
+      } else {
+        downloadFile(toNutritionCsv(meals), `foodwise-nutrition-${date}.csv`, "text/csv;charset=utf-8");
+      }
+    } catch (error) {
+      console.error("Error exporting nutrition:", error);
+      toast.error("Failed to export nutrition data");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const getRecommendation = () => {
     if (!healthData) return "";
     
@@ -132,19 +216,69 @@ const HealthDashboard = () => {
       <Navbar user={user} isRestaurantOwner={isRestaurantOwner} />
 
       <div className="container mx-auto px-4 py-8">
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+              <div className="w-12 h-12 rounded-full bg-gradient-to-r from-health-primary to-health-secondary flex items-center justify-center">
+                <Heart className="w-6 h-6 text-white" />
+              </div>
+              Your Health Dashboard
+            </h1>
+            <p className="text-muted-foreground">
+              Track your nutritional choices over the last 30 days
+            </p>
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="gap-2" disabled={isExporting}>
+                <FileDown className="w-4 h-4" />
+                {isExporting ? "Exporting..." : "Export Nutrition"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportNutrition("fhir")}>
+                <FileJson className="w-4 h-4 mr-2" />
+                FHIR Bundle (JSON)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportNutrition("csv")}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Meals & Daily Totals (CSV)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {!daily.isLoading && (
+          <Card className="mb-8">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2">
+                  <Target className="w-5 h-5 text-primary" />
+                  Today's Goals
+                </CardTitle>
+                <CardDescription>
+                  {daily.goals
+                    ? "What you've eaten today against your daily targets"
+                    : "Set up your nutrition profile to get daily calorie and macro targets"}
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => navigate("/my-nutrition/goals")}>
+                {daily.goals ? "Edit Goals" : "Set Goals"}
+              </Button>
+            </CardHeader>
+            {daily.goals && (
+              <CardContent>
+                <DailyGoalRings goals={daily.goals} intake={daily.intake} />
+              </CardContent>
+            )}
+          </Card>
+        )}
+
         <div className="mb-8">
-          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
-            <div className="w-12 h-12 rounded-full bg-gradient-to-r from-health-primary to-health-secondary flex items-center justify-center">
-              <Heart className="w-6 h-6 text-white" />
-            </div>
-            Your Health Dashboard
-          </h1>
-          <p className="text-muted-foreground">
-            Track your nutritional choices over the last 30 days
-          </p>
+          <MealLogs userId={user.id} onChanged={handleMealLogsChanged} />
         </div>
 
-        {healthData && healthData.totalOrders > 0 ? (
+        {healthData && (healthData.totalOrders > 0 || healthData.loggedMeals > 0) ? (
           <>
             {/* Stats Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
@@ -173,6 +307,11 @@ const HealthDashboard = () => {
                     <Flame className="w-8 h-8 text-secondary" />
                     <span className="text-3xl font-bold">{healthData.totalCalories.toLocaleString()}</span>
                   </div>
+                  {healthData.loggedCalories > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      incl. {healthData.loggedCalories.toLocaleString()} from logged meals
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -262,7 +401,7 @@ const HealthDashboard = () => {
                     <ul className="space-y-2 text-sm text-muted-foreground">
                       <li className="flex items-start gap-2">
                         <Leaf className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
-                        <span>Look for items marked as "Healthy" when ordering</span>
+                        <span>Look for dishes graded A or B when ordering</span>
                       </li>
                       <li className="flex items-start gap-2">
                         <Flame className="w-4 h-4 mt-0.5 text-secondary flex-shrink-0" />
@@ -277,6 +416,22 @@ const HealthDashboard = () => {
                 </CardContent>
               </Card>
             </div>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Macronutrient Breakdown</CardTitle>
+                <CardDescription>
+                  Total nutrients from your orders and logged meals in the last 30 days, where nutrition info is known
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <MacroBreakdownChart nutrients={healthData.totalNutrients} />
+              </CardContent>
+            </Card>
+
+            <div className="mt-6">
+              <NutritionTrends refreshKey={trendsVersion} />
+            </div>
           </>
         ) : (
           <Card>
@@ -284,7 +439,7 @@ const HealthDashboard = () => {
               <Heart className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-xl font-semibold mb-2">No Order History Yet</h3>
               <p className="text-muted-foreground mb-6">
-                Start ordering to see your personalized health insights!
+                Start ordering or log a meal to see your personalized health insights!
               </p>
             </CardContent>
           </Card>
@@ -15,6 +15,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { format, subDays } from "date-fns";
+import { DIETARY_TAGS, type DietaryTag } from "@/lib/dietary";
+import { getOpeningStatus } from "@/lib/opening-hours";
 
 const Home = () => {
   const [user, setUser] = useState<any>(null);
@@ -23,6 +26,7 @@ const Home = () => {
   const [filteredRestaurants, setFilteredRestaurants] = useState<any[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [cuisineFilter, setCuisineFilter] = useState("all");
+  const [dietFilter, setDietFilter] = useState<DietaryTag | "all">("all");
   const [isRestaurantOwner, setIsRestaurantOwner] = useState(false);
   const navigate = useNavigate();
 
@@ -61,7 +65,7 @@ const Home = () => {
 
   useEffect(() => {
     filterRestaurants();
-  }, [searchQuery, cuisineFilter, restaurants]);
+  }, [searchQuery, cuisineFilter, dietFilter, restaurants]);
 
   const checkUserRole = async () => {
     const { data } = await supabase
@@ -77,8 +81,10 @@ const Home = () => {
   const fetchRestaurants = async () => {
     const { data, error } = await supabase
       .from("restaurants")
-      .select("*")
+      .select("*, menu_items(dietary_tags), restaurant_opening_hours(day_of_week, opens_at, closes_at), restaurant_holidays(date)")
       .eq("is_active", true)
+      .eq("menu_items.is_available", true)
+      .gte("restaurant_holidays.date", format(subDays(new Date(), 1), "yyyy-MM-dd"))
       .order("rating", { ascending: false });
 
     if (error) {
@@ -86,7 +92,16 @@ const Home = () => {
       return;
     }
 
-    setRestaurants(data || []);
+    setRestaurants(
+      (data || []).map((restaurant) => ({
+        ...restaurant,
+        openingStatus: getOpeningStatus(
+          restaurant.restaurant_opening_hours,
+          restaurant.restaurant_holidays,
+          restaurant.time_zone
+        ),
+      }))
+    );
   };
 
   const filterRestaurants = () => {
@@ -105,6 +120,15 @@ const Home = () => {
       );
     }
 
+    if (dietFilter !== "all") {
+      filtered = filtered.filter((restaurant) =>
+        restaurant.menu_items?.some((item: { dietary_tags: DietaryTag[] }) => item.dietary_tags.includes(dietFilter))
+      );
+    }
+
+    // Closed restaurants go last; sort is stable so the rating order is kept
+    filtered.sort((a, b) => Number(b.openingStatus.isOpen) - Number(a.openingStatus.isOpen));
+
     setFilteredRestaurants(filtered);
   };
 
@@ -151,7 +175,7 @@ const Home = () => {
 
       {/* Filters */}
       <div className="container mx-auto px-4 py-6">
-        <div className="flex items-center gap-4">
+        <div className="flex flex-wrap items-center gap-4">
           <Select value={cuisineFilter} onValueChange={setCuisineFilter}>
             <SelectTrigger className="w-[200px]">
               <SelectValue placeholder="Filter by cuisine" />
@@ -164,6 +188,19 @@ const Home = () => {
               ))}
             </SelectContent>
           </Select>
+          <Select value={dietFilter} onValueChange={(value) => setDietFilter(value as DietaryTag | "all")}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Dietary options" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Dietary Options</SelectItem>
+              {DIETARY_TAGS.map(({ key, label }) => (
+                <SelectItem key={key} value={key}>
+                  Has {label.toLowerCase()} options
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <span className="text-sm text-muted-foreground">
             {filteredRestaurants.length} restaurant{filteredRestaurants.length !== 1 ? "s" : ""} found
           </span>
@@ -187,7 +224,9 @@ const Home = () => {
                 imageUrl={restaurant.image_url}
                 cuisineType={restaurant.cuisine_type}
                 rating={restaurant.rating}
+                reviewCount={restaurant.review_count}
                 deliveryTime={restaurant.delivery_time_minutes}
+                openingStatus={restaurant.openingStatus}
               />
             ))}
           </div>
@@ -4,16 +4,53 @@ import { supabase } from "@/integrations/supabase/client";
 import Navbar from "@/components/Navbar";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import HealthGradeBadge from "@/components/HealthGradeBadge";
+import ReorderDialog from "@/components/ReorderDialog";
+import ReviewDialog, { type ReviewableOrder } from "@/components/ReviewDialog";
+import ScheduledOrders from "@/components/ScheduledOrders";
+import CancelOrderDialog, { type CancellingOrder } from "@/components/CancelOrderDialog";
+import BillBreakdown from "@/components/BillBreakdown";
+import PaymentDialog, { type PayingOrder } from "@/components/PaymentDialog";
+import ExportOrdersDialog from "@/components/ExportOrdersDialog";
+import StarRating from "@/components/StarRating";
 import { Separator } from "@/components/ui/separator";
-import { ShoppingBag, Calendar, MapPin, Clock } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ShoppingBag, Calendar, CalendarClock, MapPin, Clock, Star, RotateCcw, XCircle, CreditCard, Banknote, FileText, FileCode, Download, Printer, FileDown } from "lucide-react";
+import { toast } from "sonner";
 import { format } from "date-fns";
+import type { HealthGrade } from "@/lib/health-score";
+import { useCart } from "@/hooks/use-cart";
+import { buildReorderPlan, type ReorderPlan } from "@/lib/reorder";
+import { parseAddressSnapshot } from "@/lib/addresses";
+import { formatScheduledFor, isUpcomingScheduledOrder } from "@/lib/scheduling";
+import { canCancelOrder, describeCancellation } from "@/lib/cancellation";
+import { getOrderBill } from "@/lib/pricing";
+import { getLatestPayment, PAYMENT_METHOD_LABELS, type PaymentMethod, type PaymentStatus } from "@/lib/payments";
+import { getKeptQuantity, REFUND_STATUS_LABELS, type RefundStatus } from "@/lib/refunds";
+import {
+  canIssueInvoice,
+  getInvoiceNumber,
+  printHtml,
+  renderMonthlyStatement,
+  renderMonthlyStatementPdf,
+  renderOrderInvoice,
+  renderOrderInvoicePdf,
+} from "@/lib/invoices";
+import { downloadFile } from "@/lib/download";
+import type { jsPDF } from "jspdf";
+import type { Json } from "@/integrations/supabase/types";
+import { getStatusColor, ORDER_STATUS_LABELS, type OrderStatus } from "@/lib/order-status";
 
 interface OrderItem {
   id: string;
+  menu_item_id: string;
   quantity: number;
+  refunded_quantity: number;
   price_at_time: number;
   calories_at_time: number;
   is_healthy_at_time: boolean;
+  health_grade_at_time: HealthGrade | null;
   menu_items: {
     name: string;
     description: string;
@@ -22,18 +59,43 @@ interface OrderItem {
 
 interface Order {
   id: string;
+  restaurant_id: string;
   created_at: string;
-  status: string;
+  invoice_number: number | null;
+  status: OrderStatus;
   total_amount: number;
+  refunded_amount: number;
+  subtotal_amount: number;
+  discount_amount: number;
+  coupon_code: string | null;
+  delivery_fee: number;
+  packaging_charge: number;
+  tax_amount: number;
+  tip_amount: number;
+  rounding_adjustment: number;
   delivery_address: string;
+  delivery_address_snapshot: Json | null;
   delivery_instructions: string | null;
+  scheduled_for: string | null;
+  cancelled_at: string | null;
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+  payment_method: PaymentMethod;
+  payments: { status: PaymentStatus; failure_reason: string | null; created_at: string }[];
+  refunds: { id: string; amount: number; reason: string; status: RefundStatus; created_at: string }[];
   restaurants: {
     name: string;
     cuisine_type: string;
+    cancellation_grace_minutes: number;
+    gstin: string | null;
+    address: string | null;
   };
   order_items: OrderItem[];
+  reviews: { rating: number } | null;
 }
 
+type DocumentFormat = "pdf" | "html" | "print";
+
 const MyOrders = () => {
   const [user, setUser] = useState<any>(null);
   const [orders, setOrders] = useState<Order[]>([]);
@@ -41,6 +103,13 @@ const MyOrders = () => {
   const [loading, setLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [reviewingOrder, setReviewingOrder] = useState<ReviewableOrder | null>(null);
+  const [reorder, setReorder] = useState<{ restaurantName: string; plan: ReorderPlan } | null>(null);
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+  const [cancellingOrder, setCancellingOrder] = useState<CancellingOrder | null>(null);
+  const [payingOrder, setPayingOrder] = useState<PayingOrder | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const cart = useCart();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -85,21 +154,59 @@ const MyOrders = () => {
       .from("orders")
       .select(`
         id,
+        restaurant_id,
         created_at,
+        invoice_number,
         status,
         total_amount,
+        refunded_amount,
+        subtotal_amount,
+        discount_amount,
+        coupon_code,
+        delivery_fee,
+        packaging_charge,
+        tax_amount,
+        tip_amount,
+        rounding_adjustment,
         delivery_address,
+        delivery_address_snapshot,
         delivery_instructions,
+        scheduled_for,
+        cancelled_at,
+        cancelled_by,
+        cancellation_reason,
+        payment_method,
+        payments (
+          status,
+          failure_reason,
+          created_at
+        ),
+        refunds (
+          id,
+          amount,
+          reason,
+          status,
+          created_at
+        ),
         restaurants (
           name,
-          cuisine_type
+          cuisine_type,
+          cancellation_grace_minutes,
+          gstin,
+          address
+        ),
+        reviews (
+          rating
         ),
         order_items (
           id,
+          menu_item_id,
           quantity,
+          refunded_quantity,
           price_at_time,
           calories_at_time,
           is_healthy_at_time,
+          health_grade_at_time,
           menu_items (
             name,
             description
@@ -119,31 +226,106 @@ const MyOrders = () => {
     setLoading(false);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "pending": return "bg-yellow-500";
-      case "confirmed": return "bg-blue-500";
-      case "preparing": return "bg-purple-500";
-      case "on_the_way": return "bg-orange-500";
-      case "delivered": return "bg-green-500";
-      case "cancelled": return "bg-red-500";
-      default: return "bg-gray-500";
+  const openReview = (order: Order) => {
+    const dishes = new Map(order.order_items.map((item) => [item.menu_item_id, item.menu_items.name]));
+    setReviewingOrder({
+      id: order.id,
+      restaurantName: order.restaurants.name,
+      dishes: Array.from(dishes, ([menuItemId, name]) => ({ menuItemId, name })),
+    });
+  };
+
+  const startReorder = async (order: Order) => {
+    setReorderingId(order.id);
+    try {
+      const plan = await buildReorderPlan(
+        order.restaurant_id,
+        order.order_items.map((item) => ({
+          menuItemId: item.menu_item_id,
+          name: item.menu_items.name,
+          quantity: item.quantity,
+          priceAtTime: item.price_at_time,
+        }))
+      );
+      setReorder({ restaurantName: order.restaurants.name, plan });
+    } catch (error) {
+      console.error("Error preparing reorder:", error);
+      toast.error("Failed to load the current menu");
+    } finally {
+      setReorderingId(null);
     }
   };
 
+  const confirmReorder = () => {
+    if (!reorder?.plan.restaurant) return;
+    cart.replaceCart(reorder.plan.restaurant, reorder.plan.lines);
+    setReorder(null);
+    navigate("/checkout");
+  };
+
   const getTotalCalories = (items: OrderItem[]) => {
-    return items.reduce((sum, item) => sum + (item.calories_at_time * item.quantity), 0);
+    // Refunded items were not eaten
+    return items.reduce((sum, item) => sum + (item.calories_at_time * getKeptQuantity(item)), 0);
   };
 
   const getMonthlyStats = () => {
-    const totalSpent = orders.reduce((sum, order) => sum + Number(order.total_amount), 0);
+    const totalSpent = orders
+      .filter((order) => order.status !== "awaiting_payment")
+      .reduce((sum, order) => sum + Number(order.total_amount) - Number(order.refunded_amount), 0);
     const totalCalories = orders.reduce((sum, order) => sum + getTotalCalories(order.order_items), 0);
     const totalOrders = orders.length;
     
     return { totalSpent, totalCalories, totalOrders };
   };
 
+  const describePayment = (order: Order) => {
+    const latest = getLatestPayment(order.payments);
+    if (order.status === "awaiting_payment") {
+      return latest?.status === "failed"
+        ? `Payment failed${latest.failure_reason ? `: ${latest.failure_reason}` : ""}`
+        : "Not paid yet";
+    }
+    if (latest?.status === "refunded") return `Refunded to ${PAYMENT_METHOD_LABELS[order.payment_method]}`;
+    return order.payment_method === "cod" ? PAYMENT_METHOD_LABELS.cod : `Paid by ${PAYMENT_METHOD_LABELS[order.payment_method]}`;
+  };
+
+  // Invoices and statements are generated in the browser, as a PDF file, an HTML file or for printing
+  const exportDocument = (
+    as: DocumentFormat,
+    filename: string,
+    renderPdf: () => jsPDF,
+    renderHtml: () => string
+  ) => {
+    if (as === "pdf") {
+      renderPdf().save(`${filename}.pdf`);
+    } else if (as === "html") {
+      downloadFile(renderHtml(), `${filename}.html`, "text/html;charset=utf-8");
+    } else if (!printHtml(renderHtml())) {
+      toast.error("Allow pop-ups for this site to print");
+    }
+  };
+
+  const exportInvoice = (order: Order, as: DocumentFormat) =>
+    exportDocument(
+      as,
+      getInvoiceNumber(order),
+      () => renderOrderInvoicePdf(order, user.email ?? ""),
+      () => renderOrderInvoice(order, user.email ?? "")
+    );
+
+  const exportStatement = (as: DocumentFormat) => {
+    const month = new Date(selectedYear, selectedMonth, 1);
+    exportDocument(
+      as,
+      `foodwise-statement-${format(month, "yyyy-MM")}`,
+      () => renderMonthlyStatementPdf(orders, month, user.email ?? ""),
+      () => renderMonthlyStatement(orders, month, user.email ?? "")
+    );
+  };
+
   const stats = getMonthlyStats();
+  // Upcoming scheduled orders are listed in their own section
+  const pastOrders = orders.filter((order) => !isUpcomingScheduledOrder(order));
 
   if (!user) return null;
 
@@ -172,7 +354,7 @@ const MyOrders = () => {
               Select Month
             </CardTitle>
           </CardHeader>
-          <CardContent className="flex gap-4">
+          <CardContent className="flex flex-wrap gap-4">
             <select
               value={selectedMonth}
               onChange={(e) => setSelectedMonth(Number(e.target.value))}
@@ -198,6 +380,32 @@ const MyOrders = () => {
                 );
               })}
             </select>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2 sm:ml-auto" disabled={loading || orders.length === 0}>
+                  <FileText className="w-4 h-4" />
+                  Monthly Statement
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportStatement("pdf")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download PDF
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportStatement("html")}>
+                  <FileCode className="w-4 h-4 mr-2" />
+                  Download HTML
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportStatement("print")}>
+                  <Printer className="w-4 h-4 mr-2" />
+                  Print
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" className="gap-2" onClick={() => setExportOpen(true)}>
+              <FileDown className="w-4 h-4" />
+              Export Data
+            </Button>
           </CardContent>
         </Card>
 
@@ -237,6 +445,8 @@ const MyOrders = () => {
           </Card>
         </div>
 
+        <ScheduledOrders customerId={user.id} onCancelled={fetchOrders} />
+
         {/* Orders List */}
         <div className="space-y-4">
           {loading ? (
@@ -245,7 +455,7 @@ const MyOrders = () => {
                 <p className="text-muted-foreground">Loading orders...</p>
               </CardContent>
             </Card>
-          ) : orders.length === 0 ? (
+          ) : pastOrders.length === 0 ? (
             <Card>
               <CardContent className="py-12 text-center">
                 <ShoppingBag className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
@@ -256,7 +466,7 @@ const MyOrders = () => {
               </CardContent>
             </Card>
           ) : (
-            orders.map((order) => (
+            pastOrders.map((order) => (
               <Card key={order.id}>
                 <CardHeader>
                   <div className="flex justify-between items-start">
@@ -265,19 +475,30 @@ const MyOrders = () => {
                         {order.restaurants.name}
                         <Badge variant="secondary">{order.restaurants.cuisine_type}</Badge>
                       </CardTitle>
-                      <CardDescription className="flex items-center gap-4 mt-2">
+                      <CardDescription className="flex flex-wrap items-center gap-4 mt-2">
                         <span className="flex items-center gap-1">
                           <Clock className="w-4 h-4" />
                           {format(new Date(order.created_at), "MMM dd, yyyy 'at' hh:mm a")}
                         </span>
+                        {order.scheduled_for && (
+                          <span className="flex items-center gap-1">
+                            <CalendarClock className="w-4 h-4" />
+                            Scheduled for {formatScheduledFor(order.scheduled_for)}
+                          </span>
+                        )}
                         <span className="flex items-center gap-1">
                           <MapPin className="w-4 h-4" />
+                          {order.delivery_address_snapshot && (
+                            <span className="font-medium">
+                              {parseAddressSnapshot(order.delivery_address_snapshot)?.label}
+                            </span>
+                          )}
                           {order.delivery_address}
                         </span>
                       </CardDescription>
                     </div>
                     <Badge className={getStatusColor(order.status)}>
-                      {order.status.replace("_", " ").toUpperCase()}
+                      {ORDER_STATUS_LABELS[order.status].toUpperCase()}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -288,14 +509,17 @@ const MyOrders = () => {
                         <div className="flex-1">
                           <div className="flex items-center gap-2">
                             <span className="font-medium">{item.menu_items.name}</span>
-                            {item.is_healthy_at_time && (
+                            {item.health_grade_at_time ? (
+                              <HealthGradeBadge grade={item.health_grade_at_time} />
+                            ) : item.is_healthy_at_time && (
                               <Badge variant="outline" className="text-xs bg-green-500/10 text-green-700">
                                 Healthy
                               </Badge>
                             )}
                           </div>
                           <p className="text-sm text-muted-foreground">
-                            Qty: {item.quantity} • {item.calories_at_time * item.quantity} cal
+                            Qty: {item.quantity} • {item.calories_at_time * getKeptQuantity(item)} cal
+                            {item.refunded_quantity > 0 && ` • ${item.refunded_quantity} refunded`}
                           </p>
                         </div>
                         <span className="font-semibold">
@@ -304,15 +528,123 @@ const MyOrders = () => {
                       </div>
                     ))}
                     <Separator />
+                    <BillBreakdown bill={getOrderBill(order)} couponCode={order.coupon_code} />
                     <div className="flex justify-between items-center font-bold text-lg">
                       <span>Total ({getTotalCalories(order.order_items)} cal)</span>
                       <span>₹{Number(order.total_amount).toFixed(2)}</span>
                     </div>
+                    <p
+                      className={`text-sm flex items-center gap-2 ${
+                        order.status === "awaiting_payment" ? "text-destructive" : "text-muted-foreground"
+                      }`}
+                    >
+                      <CreditCard className="w-4 h-4" />
+                      {describePayment(order)}
+                    </p>
                     {order.delivery_instructions && (
                       <div className="text-sm text-muted-foreground mt-2">
                         <span className="font-medium">Note:</span> {order.delivery_instructions}
                       </div>
                     )}
+                    {order.status === "cancelled" && (
+                      <div className="flex items-center gap-2 rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+                        <XCircle className="w-4 h-4 flex-shrink-0" />
+                        {describeCancellation(order.cancelled_by, order.cancellation_reason)}
+                      </div>
+                    )}
+                    {order.refunds.map((refund) => (
+                      <div
+                        key={refund.id}
+                        className={`flex items-start gap-2 rounded-lg p-3 text-sm ${
+                          refund.status === "failed" ? "bg-destructive/10 text-destructive" : "bg-muted text-muted-foreground"
+                        }`}
+                      >
+                        <Banknote className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        <span>
+                          {REFUND_STATUS_LABELS[refund.status]}: ₹{Number(refund.amount).toFixed(2)}
+                          {order.payment_method !== "cod" && ` to your ${PAYMENT_METHOD_LABELS[order.payment_method]}`}
+                          {" "}({refund.reason})
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap justify-end items-center gap-3 pt-2">
+                      {canIssueInvoice(order) && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" className="gap-2">
+                              <FileText className="w-4 h-4" />
+                              Invoice
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => exportInvoice(order, "pdf")}>
+                              <Download className="w-4 h-4 mr-2" />
+                              Download PDF
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => exportInvoice(order, "html")}>
+                              <FileCode className="w-4 h-4 mr-2" />
+                              Download HTML
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => exportInvoice(order, "print")}>
+                              <Printer className="w-4 h-4 mr-2" />
+                              Print
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                      {order.status === "awaiting_payment" && (
+                        <Button
+                          size="sm"
+                          className="gap-2"
+                          onClick={() =>
+                            setPayingOrder({
+                              id: order.id,
+                              amount: Number(order.total_amount),
+                              method: order.payment_method,
+                              restaurantName: order.restaurants.name,
+                            })
+                          }
+                        >
+                          <CreditCard className="w-4 h-4" />
+                          Complete Payment
+                        </Button>
+                      )}
+                      {canCancelOrder(order, order.restaurants.cancellation_grace_minutes) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2 text-destructive"
+                          onClick={() =>
+                            setCancellingOrder({ id: order.id, restaurantName: order.restaurants.name })
+                          }
+                        >
+                          <XCircle className="w-4 h-4" />
+                          Cancel Order
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => startReorder(order)}
+                        disabled={reorderingId === order.id}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        {reorderingId === order.id ? "Checking menu..." : "Reorder"}
+                      </Button>
+                      {order.status === "delivered" &&
+                        (order.reviews ? (
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            Your rating
+                            <StarRating value={order.reviews.rating} />
+                          </div>
+                        ) : (
+                          <Button variant="outline" size="sm" className="gap-2" onClick={() => openReview(order)}>
+                            <Star className="w-4 h-4" />
+                            Rate Order
+                          </Button>
+                        ))}
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -320,6 +652,45 @@ const MyOrders = () => {
           )}
         </div>
       </div>
+
+      <ReorderDialog
+        restaurantName={reorder?.restaurantName ?? ""}
+        plan={reorder?.plan ?? null}
+        onOpenChange={(open) => !open && setReorder(null)}
+        onConfirm={confirmReorder}
+      />
+
+      <CancelOrderDialog
+        order={cancellingOrder}
+        onOpenChange={(open) => !open && setCancellingOrder(null)}
+        onCancelled={fetchOrders}
+      />
+
+      <PaymentDialog
+        order={payingOrder}
+        onPaid={() => {
+          setPayingOrder(null);
+          toast.success("Payment received. Your order has been sent to the restaurant.");
+          fetchOrders();
+        }}
+        onClose={() => setPayingOrder(null)}
+      />
+
+      <ExportOrdersDialog
+        // Starts from the month being viewed whenever that changes
+        key={`${selectedYear}-${selectedMonth}`}
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        customerId={user.id}
+        defaultFrom={new Date(selectedYear, selectedMonth, 1)}
+        defaultTo={new Date(selectedYear, selectedMonth + 1, 0)}
+      />
+
+      <ReviewDialog
+        order={reviewingOrder}
+        onOpenChange={(open) => !open && setReviewingOrder(null)}
+        onSubmitted={fetchOrders}
+      />
     </div>
   );
 };
@@ -0,0 +1,367 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Target } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ACTIVITY_LEVELS,
+  calculateBmr,
+  calculateTdee,
+  fetchNutritionProfile,
+  NUTRITION_GOALS,
+  suggestDailyGoals,
+} from "@/lib/nutrition-goals";
+import type { User } from "@supabase/supabase-js";
+
+const profileSchema = z.object({
+  age: z.coerce.number().int("Age must be a whole number").min(13, "You must be at least 13").max(120),
+  sex: z.enum(Constants.public.Enums.biological_sex),
+  height_cm: z.coerce.number().min(100, "Enter a height between 100 and 250 cm").max(250, "Enter a height between 100 and 250 cm"),
+  weight_kg: z.coerce.number().min(30, "Enter a weight between 30 and 300 kg").max(300, "Enter a weight between 30 and 300 kg"),
+  activity_level: z.enum(Constants.public.Enums.activity_level),
+  goal: z.enum(Constants.public.Enums.nutrition_goal),
+  calorie_goal: z.coerce.number().int().positive("Calorie goal must be greater than 0"),
+  protein_goal_g: z.coerce.number().int().nonnegative(),
+  carbohydrates_goal_g: z.coerce.number().int().nonnegative(),
+  fat_goal_g: z.coerce.number().int().nonnegative(),
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+const GOAL_FIELDS = [
+  { name: "calorie_goal", label: "Calories (cal)" },
+  { name: "protein_goal_g", label: "Protein (g)" },
+  { name: "carbohydrates_goal_g", label: "Carbs (g)" },
+  { name: "fat_goal_g", label: "Fat (g)" },
+] as const;
+
+const NutritionProfile = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [goalsEdited, setGoalsEdited] = useState(false);
+  const navigate = useNavigate();
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      age: "" as unknown as number,
+      sex: "female",
+      height_cm: "" as unknown as number,
+      weight_kg: "" as unknown as number,
+      activity_level: "moderate",
+      goal: "maintain",
+      calorie_goal: "" as unknown as number,
+      protein_goal_g: "" as unknown as number,
+      carbohydrates_goal_g: "" as unknown as number,
+      fat_goal_g: "" as unknown as number,
+    },
+  });
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user) {
+      loadProfile();
+    }
+  }, [user]);
+
+  const loadProfile = async () => {
+    try {
+      const profile = await fetchNutritionProfile(user.id);
+      if (profile) {
+        const suggested = suggestDailyGoals(profile, profile.activity_level, profile.goal);
+        setGoalsEdited(
+          suggested.calories !== profile.calorie_goal ||
+            suggested.protein_g !== profile.protein_goal_g ||
+            suggested.carbohydrates_g !== profile.carbohydrates_goal_g ||
+            suggested.fat_g !== profile.fat_goal_g
+        );
+        form.reset({
+          age: profile.age,
+          sex: profile.sex,
+          height_cm: profile.height_cm,
+          weight_kg: profile.weight_kg,
+          activity_level: profile.activity_level,
+          goal: profile.goal,
+          calorie_goal: profile.calorie_goal,
+          protein_goal_g: profile.protein_goal_g,
+          carbohydrates_goal_g: profile.carbohydrates_goal_g,
+          fat_goal_g: profile.fat_goal_g,
+        });
+      }
+    } catch (error) {
+      console.error("Error loading nutrition profile:", error);
+      toast.error("Failed to load your nutrition profile");
+    }
+    setIsLoaded(true);
+  };
+
+  const values = form.watch();
+  const metrics = {
+    age: Number(values.age),
+    sex: values.sex,
+    height_cm: Number(values.height_cm),
+    weight_kg: Number(values.weight_kg),
+  };
+  const hasMetrics = metrics.age > 0 && metrics.height_cm > 0 && metrics.weight_kg > 0;
+  const suggestion = hasMetrics ? suggestDailyGoals(metrics, values.activity_level, values.goal) : null;
+
+  // Keep the goals in step with the suggestion until the user edits them by hand
+  useEffect(() => {
+    if (!suggestion || goalsEdited) return;
+    form.setValue("calorie_goal", suggestion.calories);
+    form.setValue("protein_goal_g", suggestion.protein_g);
+    form.setValue("carbohydrates_goal_g", suggestion.carbohydrates_g);
+    form.setValue("fat_goal_g", suggestion.fat_g);
+  }, [suggestion?.calories, suggestion?.protein_g, suggestion?.carbohydrates_g, suggestion?.fat_g, goalsEdited]);
+
+  const applySuggestion = () => setGoalsEdited(false);
+
+  const handleSave = async (data: ProfileFormValues) => {
+    const { error } = await supabase.from("nutrition_profiles").upsert({
+      user_id: user.id,
+      age: data.age,
+      sex: data.sex,
+      height_cm: data.height_cm,
+      weight_kg: data.weight_kg,
+      activity_level: data.activity_level,
+      goal: data.goal,
+      calorie_goal: data.calorie_goal,
+      protein_goal_g: data.protein_goal_g,
+      carbohydrates_goal_g: data.carbohydrates_goal_g,
+      fat_goal_g: data.fat_goal_g,
+    });
+
+    if (error) {
+      toast.error(error.message || "Failed to save your nutrition profile");
+      return;
+    }
+
+    toast.success("Daily goals saved");
+    navigate("/my-nutrition");
+  };
+
+  if (!user || !isLoaded) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <Button variant="ghost" size="sm" className="mb-4 gap-2" onClick={() => navigate("/my-nutrition")}>
+          <ArrowLeft className="w-4 h-4" />
+          Back to Health Dashboard
+        </Button>
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+            <div className="w-12 h-12 rounded-full bg-gradient-to-r from-health-primary to-health-secondary flex items-center justify-center">
+              <Target className="w-6 h-6 text-white" />
+            </div>
+            Daily Goals
+          </h1>
+          <p className="text-muted-foreground">
+            Tell us a little about yourself and we'll suggest daily calorie and macro targets
+          </p>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>About You</CardTitle>
+                <CardDescription>Only you can see this information</CardDescription>
+              </CardHeader>
+              <CardContent className="grid sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="age"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Age</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="13" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sex"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sex</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="female">Female</SelectItem>
+                          <SelectItem value="male">Male</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="height_cm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Height (cm)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="100" step="0.1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="weight_kg"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Weight (kg)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="30" step="0.1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="activity_level"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Activity level</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ACTIVITY_LEVELS.map(({ key, label, description }) => (
+                            <SelectItem key={key} value={key}>
+                              {label} · {description}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="goal"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Goal</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {NUTRITION_GOALS.map(({ key, label }) => (
+                            <SelectItem key={key} value={key}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Daily Targets</CardTitle>
+                  <CardDescription>
+                    {hasMetrics
+                      ? `BMR ${Math.round(calculateBmr(metrics))} cal · maintenance ${Math.round(
+                          calculateTdee(metrics, values.activity_level)
+                        )} cal`
+                      : "Fill in your details to see suggested targets"}
+                  </CardDescription>
+                </div>
+                {suggestion && goalsEdited && (
+                  <Button type="button" variant="outline" size="sm" onClick={applySuggestion}>
+                    Use Suggested
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {GOAL_FIELDS.map(({ name, label }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1"
+                            {...field}
+                            onChange={(event) => {
+                              setGoalsEdited(true);
+                              field.onChange(event);
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end">
+              <Button type="submit" size="lg" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : "Save Goals"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
+
+export default NutritionProfile;
@@ -5,8 +5,9 @@ import Navbar from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Clock, Star, Plus, Minus, ShoppingCart, Leaf, Flame } from "lucide-react";
+import { Clock, Star, Plus, Minus, ShoppingCart, Flame, ThumbsUp } from "lucide-react";
 import { toast } from "sonner";
+import { format, subDays } from "date-fns";
 import {
   Sheet,
   SheetContent,
@@ -15,15 +16,51 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import CartSummary from "@/components/CartSummary";
+import DietaryTags from "@/components/DietaryTags";
+import HealthGradeBadge from "@/components/HealthGradeBadge";
+import OpeningStatusBadge from "@/components/OpeningStatusBadge";
+import ReviewList from "@/components/ReviewList";
+import NutrientSummary from "@/components/NutrientSummary";
+import { useCart, type CartMenuItem } from "@/hooks/use-cart";
+import { groupMenuItems } from "@/lib/menu";
+import { ALLERGENS, containsAllergen, type Allergen } from "@/lib/dietary";
+import { getThumbsUpPercentage } from "@/lib/reviews";
+import { describeOpeningStatus, getOpeningStatus } from "@/lib/opening-hours";
+import type { Tables } from "@/integrations/supabase/types";
 import restaurantPlaceholder from "@/assets/restaurant-placeholder.png";
 
+const ALLERGEN_FILTER_KEY = "foodwise-excluded-allergens";
+
+const readExcludedAllergens = (): Allergen[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ALLERGEN_FILTER_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
 const Restaurant = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const [user, setUser] = useState<any>(null);
   const [restaurant, setRestaurant] = useState<any>(null);
   const [menuItems, setMenuItems] = useState<any[]>([]);
-  const [cart, setCart] = useState<Map<string, { item: any; quantity: number }>>(new Map());
+  const [dishRatings, setDishRatings] = useState<Record<string, Tables<"menu_item_dish_ratings">>>({});
+  const [pendingItem, setPendingItem] = useState<CartMenuItem | null>(null);
+  const [excludedAllergens, setExcludedAllergens] = useState<Allergen[]>(readExcludedAllergens);
+  const cart = useCart();
   const [isRestaurantOwner, setIsRestaurantOwner] = useState(false);
 
   useEffect(() => {
@@ -48,6 +85,16 @@ const Restaurant = () => {
     }
   }, [user, id]);
 
+  useEffect(() => {
+    localStorage.setItem(ALLERGEN_FILTER_KEY, JSON.stringify(excludedAllergens));
+  }, [excludedAllergens]);
+
+  const toggleAllergen = (allergen: Allergen) => {
+    setExcludedAllergens((current) =>
+      current.includes(allergen) ? current.filter((a) => a !== allergen) : [...current, allergen]
+    );
+  };
+
   const checkUserRole = async () => {
     const { data } = await supabase
       .from("user_roles")
@@ -61,8 +108,9 @@ const Restaurant = () => {
   const fetchRestaurant = async () => {
     const { data, error } = await supabase
       .from("restaurants")
-      .select("*")
+      .select("*, restaurant_opening_hours(day_of_week, opens_at, closes_at), restaurant_holidays(date)")
       .eq("id", id)
+      .gte("restaurant_holidays.date", format(subDays(new Date(), 1), "yyyy-MM-dd"))
       .single();
 
     if (error) {
@@ -88,64 +136,61 @@ const Restaurant = () => {
     }
 
     setMenuItems(data || []);
+    fetchDishRatings((data || []).map((item) => item.id));
   };
 
-  const addToCart = (item: any) => {
-    const newCart = new Map(cart);
-    const existing = newCart.get(item.id);
-    if (existing) {
-      newCart.set(item.id, { item, quantity: existing.quantity + 1 });
-    } else {
-      newCart.set(item.id, { item, quantity: 1 });
-    }
-    setCart(newCart);
-    toast.success(`Added ${item.name} to cart`);
-  };
+  const fetchDishRatings = async (menuItemIds: string[]) => {
+    if (menuItemIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from("menu_item_dish_ratings")
+      .select("*")
+      .in("menu_item_id", menuItemIds);
 
-  const updateQuantity = (itemId: string, change: number) => {
-    const newCart = new Map(cart);
-    const existing = newCart.get(itemId);
-    if (existing) {
-      const newQuantity = existing.quantity + change;
-      if (newQuantity <= 0) {
-        newCart.delete(itemId);
-      } else {
-        newCart.set(itemId, { ...existing, quantity: newQuantity });
-      }
-      setCart(newCart);
+    if (error) {
+      console.error("Error fetching dish ratings:", error);
+      return;
     }
+
+    setDishRatings(Object.fromEntries((data || []).map((rating) => [rating.menu_item_id, rating])));
   };
 
-  const getTotalAmount = () => {
-    return Array.from(cart.values()).reduce(
-      (sum, { item, quantity }) => sum + item.price * quantity,
-      0
-    );
+  const addToCart = (item: CartMenuItem) => {
+    if (cart.restaurant && cart.restaurant.id !== restaurant.id) {
+      setPendingItem(item);
+      return;
+    }
+    cart.addItem(restaurant, item);
+    toast.success(`Added ${item.name} to cart`);
   };
 
-  const getTotalCalories = () => {
-    return Array.from(cart.values()).reduce(
-      (sum, { item, quantity }) => sum + item.calories * quantity,
-      0
-    );
+  const confirmReplaceCart = () => {
+    if (!pendingItem) return;
+    cart.addItem(restaurant, pendingItem);
+    toast.success(`Started a new cart with ${pendingItem.name}`);
+    setPendingItem(null);
   };
 
   const handleCheckout = () => {
-    if (cart.size === 0) {
+    if (cart.itemCount === 0) {
       toast.error("Your cart is empty");
       return;
     }
-    navigate("/checkout", { state: { cart, restaurant } });
+    navigate("/checkout");
   };
 
-  const groupedItems: Record<string, any[]> = menuItems.reduce((acc, item) => {
-    if (!acc[item.category]) acc[item.category] = [];
-    acc[item.category].push(item);
-    return acc;
-  }, {} as Record<string, any[]>);
-
   if (!user || !restaurant) return null;
 
+  const visibleItems = menuItems.filter((item) => !containsAllergen(item, excludedAllergens));
+  const hiddenCount = menuItems.length - visibleItems.length;
+  const undeclaredHiddenCount = excludedAllergens.length > 0 ? menuItems.filter((item) => !item.allergens).length : 0;
+  const groupedItems = groupMenuItems(visibleItems, restaurant.menu_category_order);
+  const openingStatus = getOpeningStatus(
+    restaurant.restaurant_opening_hours,
+    restaurant.restaurant_holidays,
+    restaurant.time_zone
+  );
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar user={user} isRestaurantOwner={isRestaurantOwner} />
@@ -168,12 +213,16 @@ const Restaurant = () => {
               </Badge>
               <div className="flex items-center gap-1">
                 <Star className="w-5 h-5 fill-yellow-400 text-yellow-400" />
-                <span>{restaurant.rating.toFixed(1)}</span>
+                <span>
+                  {restaurant.rating.toFixed(1)}
+                  {restaurant.review_count > 0 && ` (${restaurant.review_count})`}
+                </span>
               </div>
               <div className="flex items-center gap-1">
                 <Clock className="w-5 h-5" />
                 <span>{restaurant.delivery_time_minutes} min</span>
               </div>
+              <OpeningStatusBadge status={openingStatus} className="rounded-full bg-white/90 px-2 py-1" />
             </div>
           </div>
         </div>
@@ -181,9 +230,42 @@ const Restaurant = () => {
 
       {/* Menu Items */}
       <div className="container mx-auto px-4 py-8">
+        {!openingStatus.isOpen && (
+          <div className="mb-6 rounded-lg border border-destructive/40 bg-destructive/10 p-4 text-sm">
+            <p className="font-medium">{restaurant.name} is closed right now.</p>
+            <p className="text-muted-foreground">
+              {openingStatus.nextOpen ? `${describeOpeningStatus(openingStatus)}. ` : ""}
+              You can browse the menu, but orders can only be placed during opening hours.
+            </p>
+          </div>
+        )}
         <div className="grid lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2">
-            {Object.entries(groupedItems).map(([category, items]) => (
+            <div className="mb-6">
+              <p className="text-sm font-medium mb-2">Hide dishes containing</p>
+              <div className="flex flex-wrap gap-2">
+                {ALLERGENS.map(({ key, label, icon: Icon }) => (
+                  <Button
+                    key={key}
+                    size="sm"
+                    variant={excludedAllergens.includes(key) ? "default" : "outline"}
+                    className="rounded-full gap-1"
+                    onClick={() => toggleAllergen(key)}
+                    aria-pressed={excludedAllergens.includes(key)}
+                  >
+                    <Icon className="w-3 h-3" />
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {hiddenCount > 0 && (
+                <p className="text-sm text-muted-foreground mt-2">
+                  {hiddenCount} dish{hiddenCount !== 1 ? "es" : ""} hidden by your allergen filters
+                  {undeclaredHiddenCount > 0 && `, including ${undeclaredHiddenCount} without declared allergens`}
+                </p>
+              )}
+            </div>
+            {groupedItems.map(([category, items]) => (
               <div key={category} className="mb-8">
                 <h2 className="text-2xl font-bold mb-4 capitalize">{category}</h2>
                 <div className="space-y-4">
@@ -194,39 +276,42 @@ const Restaurant = () => {
                           <div className="flex-1">
                             <div className="flex items-start gap-2 mb-2">
                               <h3 className="font-semibold text-lg">{item.name}</h3>
-                              {item.is_healthy && (
-                                <Badge variant="outline" className="text-primary border-primary">
-                                  <Leaf className="w-3 h-3 mr-1" />
-                                  Healthy
-                                </Badge>
-                              )}
+                              <HealthGradeBadge grade={item.health_grade} className="mt-1" />
                             </div>
                             <p className="text-sm text-muted-foreground mb-2">{item.description}</p>
+                            <DietaryTags allergens={item.allergens} dietaryTags={item.dietary_tags} className="mb-2" />
                             <div className="flex items-center gap-4 text-sm">
                               <span className="font-semibold text-primary">₹{item.price}</span>
                               <div className="flex items-center gap-1 text-muted-foreground">
                                 <Flame className="w-4 h-4" />
                                 <span>{item.calories} cal</span>
                               </div>
+                              {getThumbsUpPercentage(dishRatings[item.id]) !== null && (
+                                <div className="flex items-center gap-1 text-muted-foreground">
+                                  <ThumbsUp className="w-4 h-4" />
+                                  <span>{getThumbsUpPercentage(dishRatings[item.id])}%</span>
+                                </div>
+                              )}
                             </div>
+                            <NutrientSummary nutrients={item} compact className="mt-1" />
                           </div>
                           <div className="flex items-center">
-                            {cart.has(item.id) ? (
+                            {cart.getQuantity(item.id) > 0 ? (
                               <div className="flex items-center gap-2">
                                 <Button
                                   size="icon"
                                   variant="outline"
-                                  onClick={() => updateQuantity(item.id, -1)}
+                                  onClick={() => cart.updateQuantity(item.id, -1)}
                                 >
                                   <Minus className="w-4 h-4" />
                                 </Button>
                                 <span className="w-8 text-center font-semibold">
-                                  {cart.get(item.id)?.quantity}
+                                  {cart.getQuantity(item.id)}
                                 </span>
                                 <Button
                                   size="icon"
                                   variant="outline"
-                                  onClick={() => updateQuantity(item.id, 1)}
+                                  onClick={() => cart.updateQuantity(item.id, 1)}
                                 >
                                   <Plus className="w-4 h-4" />
                                 </Button>
@@ -245,6 +330,12 @@ const Restaurant = () => {
                 </div>
               </div>
             ))}
+
+            <ReviewList
+              restaurantId={restaurant.id}
+              rating={Number(restaurant.rating)}
+              reviewCount={restaurant.review_count}
+            />
           </div>
 
           {/* Cart Sidebar (Desktop) */}
@@ -255,36 +346,7 @@ const Restaurant = () => {
                   <ShoppingCart className="w-5 h-5" />
                   Your Cart
                 </h3>
-                {cart.size === 0 ? (
-                  <p className="text-muted-foreground text-center py-8">Your cart is empty</p>
-                ) : (
-                  <>
-                    <div className="space-y-3 mb-4">
-                      {Array.from(cart.values()).map(({ item, quantity }) => (
-                        <div key={item.id} className="flex justify-between items-start">
-                          <div className="flex-1">
-                            <p className="font-medium">{item.name}</p>
-                            <p className="text-sm text-muted-foreground">₹{item.price} × {quantity}</p>
-                          </div>
-                          <p className="font-semibold">₹{(item.price * quantity).toFixed(2)}</p>
-                        </div>
-                      ))}
-                    </div>
-                    <div className="border-t pt-4 space-y-2">
-                      <div className="flex justify-between text-sm">
-                        <span>Total Calories</span>
-                        <span className="font-semibold">{getTotalCalories()} cal</span>
-                      </div>
-                      <div className="flex justify-between text-lg font-bold">
-                        <span>Total Amount</span>
-                        <span>₹{getTotalAmount().toFixed(2)}</span>
-                      </div>
-                    </div>
-                    <Button className="w-full mt-4" size="lg" onClick={handleCheckout}>
-                      Proceed to Checkout
-                    </Button>
-                  </>
-                )}
+                <CartSummary currentRestaurantId={restaurant.id} onCheckout={handleCheckout} />
               </CardContent>
             </Card>
           </div>
@@ -299,9 +361,9 @@ const Restaurant = () => {
             size="icon"
           >
             <ShoppingCart className="w-6 h-6" />
-            {cart.size > 0 && (
+            {cart.itemCount > 0 && (
               <span className="absolute -top-1 -right-1 bg-accent text-accent-foreground rounded-full w-5 h-5 text-xs flex items-center justify-center">
-                {cart.size}
+                {cart.itemCount}
               </span>
             )}
           </Button>
@@ -314,39 +376,26 @@ const Restaurant = () => {
             </SheetDescription>
           </SheetHeader>
           <div className="mt-6">
-            {cart.size === 0 ? (
-              <p className="text-muted-foreground text-center py-8">Your cart is empty</p>
-            ) : (
-              <>
-                <div className="space-y-3 mb-4">
-                  {Array.from(cart.values()).map(({ item, quantity }) => (
-                    <div key={item.id} className="flex justify-between items-start">
-                      <div className="flex-1">
-                        <p className="font-medium">{item.name}</p>
-                        <p className="text-sm text-muted-foreground">₹{item.price} × {quantity}</p>
-                      </div>
-                      <p className="font-semibold">₹{(item.price * quantity).toFixed(2)}</p>
-                    </div>
-                  ))}
-                </div>
-                <div className="border-t pt-4 space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Total Calories</span>
-                    <span className="font-semibold">{getTotalCalories()} cal</span>
-                  </div>
-                  <div className="flex justify-between text-lg font-bold">
-                    <span>Total Amount</span>
-                    <span>₹{getTotalAmount().toFixed(2)}</span>
-                  </div>
-                </div>
-                <Button className="w-full mt-4" size="lg" onClick={handleCheckout}>
-                  Proceed to Checkout
-                </Button>
-              </>
-            )}
+            <CartSummary currentRestaurantId={restaurant.id} onCheckout={handleCheckout} />
           </div>
         </SheetContent>
       </Sheet>
+
+      <AlertDialog open={!!pendingItem} onOpenChange={(open) => !open && setPendingItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace cart items?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your cart contains items from {cart.restaurant?.name}. Adding {pendingItem?.name} will
+              clear your current cart and start a new one from {restaurant.name}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Current Cart</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReplaceCart}>Replace Cart</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -4,7 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import Navbar from "@/components/Navbar";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Store, DollarSign, ShoppingBag, TrendingUp } from "lucide-react";
+import { Store, DollarSign, ShoppingBag, TrendingUp, ClipboardList, UtensilsCrossed, MessageSquare, Clock, Receipt, TicketPercent } from "lucide-react";
 import { toast } from "sonner";
 
 const RestaurantDashboard = () => {
@@ -69,7 +69,8 @@ const RestaurantDashboard = () => {
     const { data: orders } = await supabase
       .from("orders")
       .select("*, order_items(*)")
-      .eq("restaurant_id", restaurantId);
+      .eq("restaurant_id", restaurantId)
+      .neq("status", "awaiting_payment");
 
     // Fetch menu items count
     const { count: menuItemsCount } = await supabase
@@ -78,7 +79,8 @@ const RestaurantDashboard = () => {
       .eq("restaurant_id", restaurantId);
 
     const totalOrders = orders?.length || 0;
-    const totalRevenue = orders?.reduce((sum, order) => sum + parseFloat(String(order.total_amount)), 0) || 0;
+    const totalRevenue =
+      orders?.reduce((sum, order) => sum + parseFloat(String(order.total_amount)) - parseFloat(String(order.refunded_amount)), 0) || 0;
 
     setStats({
       totalOrders,
@@ -108,6 +110,20 @@ const RestaurantDashboard = () => {
 
         {restaurant ? (
           <>
+            {!restaurant.is_active && (
+              <Card className="mb-8 border-primary/40 bg-primary/5">
+                <CardContent className="py-6 flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <h3 className="font-semibold">Finish setting up your restaurant</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Customers can't see {restaurant.name} until you add a menu item and go live.
+                    </p>
+                  </div>
+                  <Button onClick={() => navigate("/restaurant-onboarding")}>Continue Setup</Button>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Restaurant Info */}
             <Card className="mb-8">
               <CardHeader>
@@ -189,9 +205,35 @@ const RestaurantDashboard = () => {
                 <CardTitle>Quick Actions</CardTitle>
                 <CardDescription>Manage your restaurant efficiently</CardDescription>
               </CardHeader>
-              <CardContent className="space-y-2">
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-3">
+                  <Button onClick={() => navigate("/restaurant-dashboard/orders")} className="gap-2">
+                    <ClipboardList className="w-4 h-4" />
+                    View Order Board
+                  </Button>
+                  <Button variant="outline" onClick={() => navigate("/restaurant-dashboard/menu")} className="gap-2">
+                    <UtensilsCrossed className="w-4 h-4" />
+                    Manage Menu
+                  </Button>
+                  <Button variant="outline" onClick={() => navigate("/restaurant-dashboard/reviews")} className="gap-2">
+                    <MessageSquare className="w-4 h-4" />
+                    Reviews
+                  </Button>
+                  <Button variant="outline" onClick={() => navigate("/restaurant-dashboard/hours")} className="gap-2">
+                    <Clock className="w-4 h-4" />
+                    Hours & Cancellations
+                  </Button>
+                  <Button variant="outline" onClick={() => navigate("/restaurant-dashboard/pricing")} className="gap-2">
+                    <Receipt className="w-4 h-4" />
+                    Delivery & Charges
+                  </Button>
+                  <Button variant="outline" onClick={() => navigate("/restaurant-dashboard/promotions")} className="gap-2">
+                    <TicketPercent className="w-4 h-4" />
+                    Promotions
+                  </Button>
+                </div>
                 <p className="text-muted-foreground">
-                  More features coming soon! You'll be able to manage menu items, view orders, and update restaurant details.
+                  More features coming soon! You'll be able to update restaurant details.
                 </p>
               </CardContent>
             </Card>
@@ -204,7 +246,7 @@ const RestaurantDashboard = () => {
               <p className="text-muted-foreground mb-6">
                 You don't have a restaurant registered yet.
               </p>
-              <Button variant="hero">
+              <Button variant="hero" onClick={() => navigate("/restaurant-onboarding")}>
                 Register Your Restaurant
               </Button>
             </CardContent>
@@ -0,0 +1,385 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import OpeningStatusBadge from "@/components/OpeningStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, CalendarOff, Clock, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { DAY_NAMES, formatTime, getOpeningStatus, type OpeningHoursSlot } from "@/lib/opening-hours";
+import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Monday first, as owners usually think of their week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const RestaurantHours = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [restaurant, setRestaurant] = useState<Tables<"restaurants"> | null>(null);
+  const [slots, setSlots] = useState<OpeningHoursSlot[]>([]);
+  const [holidays, setHolidays] = useState<Tables<"restaurant_holidays">[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayReason, setHolidayReason] = useState("");
+  const [graceMinutes, setGraceMinutes] = useState("");
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRestaurant();
+    }
+  }, [user]);
+
+  const fetchRestaurant = async () => {
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "restaurant_owner")
+      .maybeSingle();
+
+    if (!roleData) {
+      toast.error("Access denied. Restaurant owner role required.");
+      navigate("/");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("restaurants")
+      .select("*")
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      navigate("/restaurant-dashboard");
+      return;
+    }
+
+    setRestaurant(data);
+    setGraceMinutes(String(data.cancellation_grace_minutes));
+    fetchHours(data.id);
+  };
+
+  const fetchHours = async (restaurantId: string) => {
+    const [{ data: hoursData, error: hoursError }, { data: holidayData, error: holidayError }] = await Promise.all([
+      supabase
+        .from("restaurant_opening_hours")
+        .select("day_of_week, opens_at, closes_at")
+        .eq("restaurant_id", restaurantId)
+        .order("opens_at"),
+      supabase
+        .from("restaurant_holidays")
+        .select("*")
+        .eq("restaurant_id", restaurantId)
+        .gte("date", format(new Date(), "yyyy-MM-dd"))
+        .order("date"),
+    ]);
+
+    if (hoursError || holidayError) {
+      toast.error("Failed to load opening hours");
+      return;
+    }
+
+    setSlots((hoursData || []).map((slot) => ({ ...slot, opens_at: formatTime(slot.opens_at), closes_at: formatTime(slot.closes_at) })));
+    setHolidays(holidayData || []);
+  };
+
+  const addSlot = (dayOfWeek: number) => {
+    setSlots((current) => [...current, { day_of_week: dayOfWeek, opens_at: "11:00", closes_at: "23:00" }]);
+  };
+
+  const updateSlot = (index: number, changes: Partial<OpeningHoursSlot>) => {
+    setSlots((current) => current.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  const removeSlot = (index: number) => {
+    setSlots((current) => current.filter((_, i) => i !== index));
+  };
+
+  // Copies Monday's slots to every other day
+  const copyMondayToAll = () => {
+    const monday = slots.filter((slot) => slot.day_of_week === 1);
+    setSlots(WEEK_ORDER.flatMap((day) => monday.map((slot) => ({ ...slot, day_of_week: day }))));
+  };
+
+  const saveHours = async () => {
+    if (slots.some((slot) => !slot.opens_at || !slot.closes_at)) {
+      toast.error("Enter an opening and closing time for every slot");
+      return;
+    }
+
+    setIsSaving(true);
+    // Replaced in one transaction so the restaurant never briefly has no hours
+    const { error } = await supabase.rpc("set_opening_hours", {
+      _restaurant_id: restaurant.id,
+      _slots: slots.map(({ day_of_week, opens_at, closes_at }) => ({ day_of_week, opens_at, closes_at })),
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to save opening hours");
+      return;
+    }
+
+    toast.success("Opening hours saved");
+    fetchHours(restaurant.id);
+  };
+
+  const addHoliday = async () => {
+    if (!holidayDate) {
+      toast.error("Choose a date");
+      return;
+    }
+
+    const { error } = await supabase.from("restaurant_holidays").insert({
+      restaurant_id: restaurant.id,
+      date: holidayDate,
+      reason: holidayReason.trim() || null,
+    });
+
+    if (error) {
+      toast.error(error.code === "23505" ? "That date is already marked as closed" : "Failed to add closure");
+      return;
+    }
+
+    toast.success("Closure added");
+    setHolidayDate("");
+    setHolidayReason("");
+    fetchHours(restaurant.id);
+  };
+
+  const removeHoliday = async (holidayId: string) => {
+    const { error } = await supabase.from("restaurant_holidays").delete().eq("id", holidayId);
+
+    if (error) {
+      toast.error("Failed to remove closure");
+      return;
+    }
+
+    fetchHours(restaurant.id);
+  };
+
+  const saveGraceMinutes = async () => {
+    const minutes = Number(graceMinutes);
+    if (graceMinutes === "" || !Number.isInteger(minutes) || minutes < 0 || minutes > 60) {
+      toast.error("Enter a whole number of minutes between 0 and 60");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("restaurants")
+      .update({ cancellation_grace_minutes: minutes })
+      .eq("id", restaurant.id)
+      .select()
+      .single();
+
+    if (error) {
+      toast.error("Failed to save cancellation window");
+      return;
+    }
+
+    setRestaurant(data);
+    toast.success("Cancellation window saved");
+  };
+
+  if (!user || !restaurant) return null;
+
+  const openingStatus = getOpeningStatus(slots, holidays, restaurant.time_zone);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} isRestaurantOwner={true} />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <Button variant="ghost" size="sm" className="mb-4 gap-2" onClick={() => navigate("/restaurant-dashboard")}>
+          <ArrowLeft className="w-4 h-4" />
+          Back to Dashboard
+        </Button>
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+            <div className="w-12 h-12 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center">
+              <Clock className="w-6 h-6 text-white" />
+            </div>
+            Hours & Cancellations
+          </h1>
+          <p className="text-muted-foreground flex items-center gap-2">
+            Times are in {restaurant.time_zone}.
+            <OpeningStatusBadge status={openingStatus} />
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Weekly Hours</CardTitle>
+              <CardDescription>
+                Customers can only order while you are open. Add two slots for a split day, and set a closing time
+                before the opening time for hours that run past midnight. With no hours at all you are always open.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {WEEK_ORDER.map((day) => (
+                <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 border-b pb-4 last:border-0">
+                  <p className="font-medium w-28 pt-2">{DAY_NAMES[day]}</p>
+                  <div className="flex-1 space-y-2">
+                    {slots.every((slot) => slot.day_of_week !== day) && (
+                      <p className="text-sm text-muted-foreground pt-2">{slots.length > 0 ? "Closed" : "Open all day"}</p>
+                    )}
+                    {slots.map((slot, index) =>
+                      slot.day_of_week === day ? (
+                        <div key={index} className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            className="w-32"
+                            value={slot.opens_at}
+                            onChange={(e) => updateSlot(index, { opens_at: e.target.value })}
+                            aria-label={`${DAY_NAMES[day]} opening time`}
+                          />
+                          <span className="text-muted-foreground">to</span>
+                          <Input
+                            type="time"
+                            className="w-32"
+                            value={slot.closes_at}
+                            onChange={(e) => updateSlot(index, { closes_at: e.target.value })}
+                            aria-label={`${DAY_NAMES[day]} closing time`}
+                          />
+                          <Button variant="ghost" size="icon" onClick={() => removeSlot(index)} aria-label="Remove slot">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ) : null
+                    )}
+                  </div>
+                  <Button variant="outline" size="sm" className="gap-1" onClick={() => addSlot(day)}>
+                    <Plus className="w-4 h-4" />
+                    Add Slot
+                  </Button>
+                </div>
+              ))}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={copyMondayToAll} disabled={!slots.some((slot) => slot.day_of_week === 1)}>
+                  Copy Monday to All Days
+                </Button>
+                <Button onClick={saveHours} disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Save Hours"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Holiday Closures</CardTitle>
+              <CardDescription>Days you are closed regardless of your weekly hours.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="holiday-date">Date</Label>
+                  <Input
+                    id="holiday-date"
+                    type="date"
+                    min={format(new Date(), "yyyy-MM-dd")}
+                    value={holidayDate}
+                    onChange={(e) => setHolidayDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="holiday-reason">Reason (Optional)</Label>
+                  <Input
+                    id="holiday-reason"
+                    placeholder="e.g., Diwali"
+                    maxLength={100}
+                    value={holidayReason}
+                    onChange={(e) => setHolidayReason(e.target.value)}
+                  />
+                </div>
+                <Button onClick={addHoliday} className="gap-1">
+                  <Plus className="w-4 h-4" />
+                  Add Closure
+                </Button>
+              </div>
+
+              {holidays.length === 0 ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <CalendarOff className="w-4 h-4" />
+                  No upcoming closures.
+                </p>
+              ) : (
+                <div className="divide-y rounded-lg border">
+                  {holidays.map((holiday) => (
+                    <div key={holiday.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <div>
+                        <p className="font-medium text-sm">{format(new Date(`${holiday.date}T00:00:00`), "EEEE, MMM dd, yyyy")}</p>
+                        {holiday.reason && <p className="text-xs text-muted-foreground">{holiday.reason}</p>}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeHoliday(holiday.id)}
+                        aria-label="Remove closure"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer Cancellations</CardTitle>
+              <CardDescription>
+                Customers can cancel while an order is pending. After you accept it, they can still cancel within this
+                many minutes of placing it. Scheduled orders follow their own cutoff.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="grace-minutes">Grace window (minutes)</Label>
+                <Input
+                  id="grace-minutes"
+                  type="number"
+                  min={0}
+                  max={60}
+                  className="w-32"
+                  value={graceMinutes}
+                  onChange={(e) => setGraceMinutes(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={saveGraceMinutes}
+                disabled={graceMinutes === String(restaurant.cancellation_grace_minutes)}
+              >
+                Save
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestaurantHours;
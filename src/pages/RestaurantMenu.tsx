@@ -0,0 +1,327 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import DietaryTags from "@/components/DietaryTags";
+import HealthGradeBadge from "@/components/HealthGradeBadge";
+import MenuItemForm from "@/components/MenuItemForm";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowDown, ArrowLeft, ArrowUp, Flame, Pencil, Plus, Trash2, UtensilsCrossed } from "lucide-react";
+import { toast } from "sonner";
+import { groupMenuItems, toMenuItemPayload, type MenuItemFormValues } from "@/lib/menu";
+import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+type MenuItem = Tables<"menu_items">;
+
+const RestaurantMenu = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [restaurant, setRestaurant] = useState<Tables<"restaurants"> | null>(null);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingItem, setDeletingItem] = useState<MenuItem | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRestaurant();
+    }
+  }, [user]);
+
+  const fetchRestaurant = async () => {
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "restaurant_owner")
+      .maybeSingle();
+
+    if (!roleData) {
+      toast.error("Access denied. Restaurant owner role required.");
+      navigate("/");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("restaurants")
+      .select("*")
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      navigate("/restaurant-dashboard");
+      return;
+    }
+
+    setRestaurant(data);
+    fetchMenuItems(data.id);
+  };
+
+  const fetchMenuItems = async (restaurantId: string) => {
+    const { data, error } = await supabase
+      .from("menu_items")
+      .select("*")
+      .eq("restaurant_id", restaurantId)
+      .order("name");
+
+    if (error) {
+      toast.error("Failed to load menu");
+      return;
+    }
+
+    setMenuItems(data || []);
+  };
+
+  const openForm = (item: MenuItem | null) => {
+    setEditingItem(item);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (values: MenuItemFormValues) => {
+    const payload = toMenuItemPayload(values);
+
+    const { error } = editingItem
+      ? await supabase.from("menu_items").update(payload).eq("id", editingItem.id)
+      : await supabase.from("menu_items").insert([{ ...payload, restaurant_id: restaurant.id }]);
+
+    if (error) {
+      toast.error(error.message || "Failed to save menu item");
+      return;
+    }
+
+    toast.success(editingItem ? "Menu item updated" : "Menu item added");
+    setIsFormOpen(false);
+    fetchMenuItems(restaurant.id);
+  };
+
+  const toggleAvailability = async (item: MenuItem, isAvailable: boolean) => {
+    setMenuItems((items) => items.map((i) => (i.id === item.id ? { ...i, is_available: isAvailable } : i)));
+
+    const { error } = await supabase
+      .from("menu_items")
+      .update({ is_available: isAvailable })
+      .eq("id", item.id);
+
+    if (error) {
+      toast.error("Failed to update availability");
+      fetchMenuItems(restaurant.id);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingItem) return;
+
+    const { error } = await supabase.from("menu_items").delete().eq("id", deletingItem.id);
+
+    if (error) {
+      // 23503: the item is referenced by past orders
+      toast.error(
+        error.code === "23503"
+          ? `${deletingItem.name} appears in past orders. Mark it unavailable instead.`
+          : "Failed to delete menu item"
+      );
+    } else {
+      toast.success("Menu item deleted");
+      fetchMenuItems(restaurant.id);
+    }
+    setDeletingItem(null);
+  };
+
+  const moveCategory = async (categories: string[], index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= categories.length) return;
+
+    const reordered = [...categories];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRestaurant({ ...restaurant, menu_category_order: reordered });
+
+    const { error } = await supabase
+      .from("restaurants")
+      .update({ menu_category_order: reordered })
+      .eq("id", restaurant.id);
+
+    if (error) {
+      toast.error("Failed to reorder categories");
+      setRestaurant(restaurant);
+    }
+  };
+
+  if (!user || !restaurant) return null;
+
+  const groupedItems = groupMenuItems(menuItems, restaurant.menu_category_order);
+  const categories = groupedItems.map(([category]) => category);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} isRestaurantOwner={true} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" size="sm" className="mb-4 gap-2" onClick={() => navigate("/restaurant-dashboard")}>
+          <ArrowLeft className="w-4 h-4" />
+          Back to Dashboard
+        </Button>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+              <div className="w-12 h-12 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center">
+                <UtensilsCrossed className="w-6 h-6 text-white" />
+              </div>
+              Menu
+            </h1>
+            <p className="text-muted-foreground">
+              Add dishes, update prices and nutrition, and control what customers can order
+            </p>
+          </div>
+          <Button onClick={() => openForm(null)} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Add Item
+          </Button>
+        </div>
+
+        {groupedItems.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <UtensilsCrossed className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-xl font-semibold mb-2">Your menu is empty</h3>
+              <p className="text-muted-foreground">Add your first dish to start taking orders.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {groupedItems.map(([category, items], index) => (
+              <Card key={category}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="capitalize">{category}</CardTitle>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      disabled={index === 0}
+                      onClick={() => moveCategory(categories, index, -1)}
+                      aria-label={`Move ${category} up`}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      disabled={index === categories.length - 1}
+                      onClick={() => moveCategory(categories, index, 1)}
+                      aria-label={`Move ${category} down`}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {items.map((item) => (
+                    <div key={item.id} className="flex items-center gap-4 py-3">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className={`font-medium ${item.is_available ? "" : "text-muted-foreground line-through"}`}>
+                            {item.name}
+                          </span>
+                          <HealthGradeBadge grade={item.health_grade} />
+                        </div>
+                        <DietaryTags allergens={item.allergens} dietaryTags={item.dietary_tags} className="my-1" />
+                        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                          <span className="font-semibold text-primary">₹{item.price}</span>
+                          <span className="flex items-center gap-1">
+                            <Flame className="w-4 h-4" />
+                            {item.calories} cal
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Switch
+                          checked={!!item.is_available}
+                          onCheckedChange={(checked) => toggleAvailability(item, checked)}
+                          aria-label={`${item.name} availability`}
+                        />
+                        <span className="hidden sm:inline w-20">{item.is_available ? "Available" : "Sold out"}</span>
+                      </div>
+                      <Button size="icon" variant="ghost" onClick={() => openForm(item)} aria-label={`Edit ${item.name}`}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="text-destructive"
+                        onClick={() => setDeletingItem(item)}
+                        aria-label={`Delete ${item.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingItem ? `Edit ${editingItem.name}` : "Add Menu Item"}</DialogTitle>
+          </DialogHeader>
+          <MenuItemForm
+            key={editingItem?.id ?? "new"}
+            item={editingItem}
+            categories={categories}
+            submitLabel={editingItem ? "Save Changes" : "Add Item"}
+            onSubmit={handleSave}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingItem} onOpenChange={(open) => !open && setDeletingItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingItem?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the dish from your menu. Items that have been ordered before
+              can only be marked unavailable.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RestaurantMenu;
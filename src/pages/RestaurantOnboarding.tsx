@@ -0,0 +1,414 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import MenuItemForm from "@/components/MenuItemForm";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Check, Flame, Store } from "lucide-react";
+import { toast } from "sonner";
+import { completeRestaurantOnboarding, registerRestaurant, RestaurantError } from "@/lib/restaurants";
+import { toMenuItemPayload, type MenuItemFormValues } from "@/lib/menu";
+import restaurantPlaceholder from "@/assets/restaurant-placeholder.png";
+import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+const CUISINE_SUGGESTIONS = [
+  "Indian",
+  "South Indian",
+  "Chinese",
+  "Italian",
+  "Mexican",
+  "Continental",
+  "Healthy",
+  "Fast Food",
+  "Desserts",
+];
+
+const STEPS = [
+  { title: "Business Details", description: "Tell customers who you are" },
+  { title: "Cuisine & Delivery", description: "What you serve and how fast" },
+  { title: "Restaurant Image", description: "Make a great first impression" },
+  { title: "First Menu Items", description: "Add at least one dish" },
+  { title: "Go Live", description: "Review and open for orders" },
+];
+
+const restaurantDetailsSchema = z.object({
+  name: z.string().trim().min(1, "Restaurant name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+  cuisine_type: z.string().trim().min(1, "Cuisine is required").max(50),
+  delivery_time_minutes: z.coerce
+    .number()
+    .int("Delivery time must be a whole number of minutes")
+    .min(5, "Delivery time must be at least 5 minutes")
+    .max(180, "Delivery time must be at most 180 minutes"),
+  image_url: z.string().trim().url("Enter a valid image URL").or(z.literal("")).optional(),
+});
+
+type RestaurantDetailsValues = z.infer<typeof restaurantDetailsSchema>;
+
+const STEP_FIELDS: (keyof RestaurantDetailsValues)[][] = [
+  ["name", "description"],
+  ["cuisine_type", "delivery_time_minutes"],
+  ["image_url"],
+];
+
+const RestaurantOnboarding = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [step, setStep] = useState(0);
+  const [restaurant, setRestaurant] = useState<Tables<"restaurants"> | null>(null);
+  const [menuItems, setMenuItems] = useState<Tables<"menu_items">[]>([]);
+  const [menuFormKey, setMenuFormKey] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const navigate = useNavigate();
+
+  const form = useForm<RestaurantDetailsValues>({
+    resolver: zodResolver(restaurantDetailsSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      cuisine_type: "",
+      delivery_time_minutes: 30,
+      image_url: "",
+    },
+  });
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchExistingRestaurant();
+    }
+  }, [user]);
+
+  // Owners who left part-way through resume at the menu step
+  const fetchExistingRestaurant = async () => {
+    const { data } = await supabase
+      .from("restaurants")
+      .select("*")
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    if (!data) return;
+
+    if (data.is_active) {
+      navigate("/restaurant-dashboard");
+      return;
+    }
+
+    setRestaurant(data);
+    fetchMenuItems(data.id);
+    setStep(3);
+  };
+
+  const fetchMenuItems = async (restaurantId: string) => {
+    const { data } = await supabase
+      .from("menu_items")
+      .select("*")
+      .eq("restaurant_id", restaurantId)
+      .order("created_at");
+    setMenuItems(data || []);
+  };
+
+  const handleNext = async () => {
+    const isValid = await form.trigger(STEP_FIELDS[step]);
+    if (!isValid) return;
+
+    if (step < 2) {
+      setStep(step + 1);
+      return;
+    }
+
+    const values = form.getValues();
+    setIsSubmitting(true);
+    try {
+      const restaurantId = await registerRestaurant({
+        name: values.name,
+        description: values.description,
+        cuisineType: values.cuisine_type,
+        deliveryTimeMinutes: values.delivery_time_minutes,
+        imageUrl: values.image_url,
+      });
+
+      const { data } = await supabase.from("restaurants").select("*").eq("id", restaurantId).single();
+      setRestaurant(data);
+      toast.success("Restaurant registered! Now add your first dishes.");
+      setStep(3);
+    } catch (error) {
+      toast.error(error instanceof RestaurantError ? error.message : "Failed to register restaurant");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddMenuItem = async (values: MenuItemFormValues) => {
+    const { error } = await supabase
+      .from("menu_items")
+      .insert([{ ...toMenuItemPayload(values), restaurant_id: restaurant.id }]);
+
+    if (error) {
+      toast.error(error.message || "Failed to add menu item");
+      return;
+    }
+
+    toast.success(`Added ${values.name}`);
+    setMenuFormKey((key) => key + 1);
+    fetchMenuItems(restaurant.id);
+  };
+
+  const handleGoLive = async () => {
+    setIsSubmitting(true);
+    try {
+      await completeRestaurantOnboarding(restaurant.id);
+      toast.success(`${restaurant.name} is now live!`);
+      navigate("/restaurant-dashboard");
+    } catch (error) {
+      toast.error(error instanceof RestaurantError ? error.message : "Failed to complete setup");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!user) return null;
+
+  const imageUrl = form.watch("image_url");
+  const categories = Array.from(new Set(menuItems.map((item) => item.category)));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} isRestaurantOwner={!!restaurant} />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+            <div className="w-12 h-12 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center">
+              <Store className="w-6 h-6 text-white" />
+            </div>
+            Register Your Restaurant
+          </h1>
+          <p className="text-muted-foreground">
+            Step {step + 1} of {STEPS.length}: {STEPS[step].title}
+          </p>
+          <Progress value={((step + 1) / STEPS.length) * 100} className="mt-4" />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{STEPS[step].title}</CardTitle>
+            <CardDescription>{STEPS[step].description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {step < 3 && (
+              <Form {...form}>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleNext();
+                  }}
+                  className="space-y-4"
+                >
+                  {step === 0 && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Restaurant Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., Green Bowl Kitchen" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="description"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Description</FormLabel>
+                            <FormControl>
+                              <Textarea rows={3} placeholder="What makes your food special?" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+
+                  {step === 1 && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="cuisine_type"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Cuisine</FormLabel>
+                            <FormControl>
+                              <Input list="cuisine-suggestions" placeholder="e.g., South Indian" {...field} />
+                            </FormControl>
+                            <datalist id="cuisine-suggestions">
+                              {CUISINE_SUGGESTIONS.map((cuisine) => (
+                                <option key={cuisine} value={cuisine} />
+                              ))}
+                            </datalist>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="delivery_time_minutes"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Average Delivery Time (minutes)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="5" max="180" step="1" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+
+                  {step === 2 && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="image_url"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Image URL (Optional)</FormLabel>
+                            <FormControl>
+                              <Input type="url" placeholder="https://..." {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="aspect-video overflow-hidden rounded-lg bg-muted">
+                        <img
+                          src={imageUrl || restaurantPlaceholder}
+                          alt="Restaurant preview"
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  <div className="flex justify-between pt-4">
+                    <Button type="button" variant="outline" disabled={step === 0} onClick={() => setStep(step - 1)}>
+                      Back
+                    </Button>
+                    <Button type="submit" disabled={isSubmitting}>
+                      {step === 2 ? (isSubmitting ? "Registering..." : "Register Restaurant") : "Next"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+
+            {step === 3 && restaurant && (
+              <div className="space-y-6">
+                {menuItems.length > 0 && (
+                  <div className="space-y-2">
+                    {menuItems.map((item) => (
+                      <div key={item.id} className="flex justify-between items-center p-3 border rounded-lg">
+                        <div>
+                          <p className="font-medium">{item.name}</p>
+                          <p className="text-sm text-muted-foreground capitalize">{item.category}</p>
+                        </div>
+                        <div className="text-right text-sm">
+                          <p className="font-semibold text-primary">₹{item.price}</p>
+                          <p className="flex items-center gap-1 text-muted-foreground">
+                            <Flame className="w-3 h-3" />
+                            {item.calories} cal
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="border rounded-lg p-4">
+                  <h3 className="font-semibold mb-4">Add a dish</h3>
+                  <MenuItemForm
+                    key={menuFormKey}
+                    categories={categories}
+                    submitLabel="Add Dish"
+                    onSubmit={handleAddMenuItem}
+                  />
+                </div>
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={() => navigate("/restaurant-dashboard")}>
+                    Finish Later
+                  </Button>
+                  <Button disabled={menuItems.length === 0} onClick={() => setStep(4)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {step === 4 && restaurant && (
+              <div className="space-y-6">
+                <div className="flex gap-4">
+                  <img
+                    src={restaurant.image_url || restaurantPlaceholder}
+                    alt={restaurant.name}
+                    className="w-32 h-24 rounded-lg object-cover"
+                  />
+                  <div>
+                    <h3 className="text-xl font-semibold">{restaurant.name}</h3>
+                    <p className="text-sm text-muted-foreground">{restaurant.description}</p>
+                    <p className="text-sm mt-1">
+                      {restaurant.cuisine_type} • {restaurant.delivery_time_minutes} min delivery
+                    </p>
+                  </div>
+                </div>
+                <p className="flex items-center gap-2 text-sm">
+                  <Check className="w-4 h-4 text-primary" />
+                  {menuItems.length} menu item{menuItems.length !== 1 ? "s" : ""} ready
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Going live makes your restaurant visible to customers. You can keep editing your menu afterwards.
+                </p>
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={() => setStep(3)}>
+                    Back
+                  </Button>
+                  <Button variant="hero" disabled={isSubmitting} onClick={handleGoLive}>
+                    {isSubmitting ? "Going live..." : "Go Live"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default RestaurantOnboarding;
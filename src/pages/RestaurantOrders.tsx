@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import OrderBoard from "@/components/OrderBoard";
+import OrderHistory from "@/components/OrderHistory";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, ClipboardList } from "lucide-react";
+import { toast } from "sonner";
+import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+const RestaurantOrders = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [restaurant, setRestaurant] = useState<Tables<"restaurants"> | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRestaurant();
+    }
+  }, [user]);
+
+  const fetchRestaurant = async () => {
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "restaurant_owner")
+      .maybeSingle();
+
+    if (!roleData) {
+      toast.error("Access denied. Restaurant owner role required.");
+      navigate("/");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("restaurants")
+      .select("*")
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      navigate("/restaurant-dashboard");
+      return;
+    }
+
+    setRestaurant(data);
+  };
+
+  if (!user || !restaurant) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} isRestaurantOwner={true} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" size="sm" className="mb-4 gap-2" onClick={() => navigate("/restaurant-dashboard")}>
+          <ArrowLeft className="w-4 h-4" />
+          Back to Dashboard
+        </Button>
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+            <div className="w-12 h-12 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center">
+              <ClipboardList className="w-6 h-6 text-white" />
+            </div>
+            Order Board
+          </h1>
+          <p className="text-muted-foreground">
+            Live orders for {restaurant.name}. New orders appear automatically.
+          </p>
+        </div>
+
+        <OrderBoard restaurantId={restaurant.id} />
+        <OrderHistory restaurantId={restaurant.id} />
+      </div>
+    </div>
+  );
+};
+
+export default RestaurantOrders;
@@ -0,0 +1,265 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import BillBreakdown from "@/components/BillBreakdown";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ArrowLeft, Receipt } from "lucide-react";
+import { toast } from "sonner";
+import { calculateBill } from "@/lib/pricing";
+import { GSTIN_PATTERN } from "@/lib/invoices";
+import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+const pricingSchema = z.object({
+  delivery_fee: z.coerce.number().min(0, "Must be 0 or more").max(500),
+  // Empty means delivery is never free
+  free_delivery_threshold: z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    z.coerce.number().positive("Must be greater than 0").optional()
+  ),
+  packaging_charge: z.coerce.number().min(0, "Must be 0 or more").max(200),
+  gstin: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((value) => value === "" || GSTIN_PATTERN.test(value), "Enter a valid 15-character GSTIN"),
+  address: z.string().trim().max(300),
+});
+
+type PricingFormValues = z.infer<typeof pricingSchema>;
+
+// Used for the example bill on this page
+const SAMPLE_SUBTOTAL = 400;
+
+const RestaurantPricing = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [restaurant, setRestaurant] = useState<Tables<"restaurants"> | null>(null);
+  const navigate = useNavigate();
+
+  const form = useForm<PricingFormValues>({
+    resolver: zodResolver(pricingSchema),
+    defaultValues: { delivery_fee: 0, free_delivery_threshold: undefined, packaging_charge: 0, gstin: "", address: "" },
+  });
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRestaurant();
+    }
+  }, [user]);
+
+  const fetchRestaurant = async () => {
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "restaurant_owner")
+      .maybeSingle();
+
+    if (!roleData) {
+      toast.error("Access denied. Restaurant owner role required.");
+      navigate("/");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("restaurants")
+      .select("*")
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      navigate("/restaurant-dashboard");
+      return;
+    }
+
+    setRestaurant(data);
+    form.reset({
+      delivery_fee: data.delivery_fee,
+      free_delivery_threshold: data.free_delivery_threshold ?? ("" as unknown as number),
+      packaging_charge: data.packaging_charge,
+      gstin: data.gstin ?? "",
+      address: data.address ?? "",
+    });
+  };
+
+  const onSubmit = async (values: PricingFormValues) => {
+    const { data, error } = await supabase
+      .from("restaurants")
+      .update({
+        delivery_fee: values.delivery_fee,
+        free_delivery_threshold: values.free_delivery_threshold ?? null,
+        packaging_charge: values.packaging_charge,
+        gstin: values.gstin || null,
+        address: values.address || null,
+      })
+      .eq("id", restaurant.id)
+      .select()
+      .single();
+
+    if (error) {
+      toast.error("Failed to save charges");
+      return;
+    }
+
+    setRestaurant(data);
+    toast.success("Charges saved");
+  };
+
+  const values = form.watch();
+
+  if (!user || !restaurant) return null;
+
+  const toNumber = (value: unknown) => (value === "" || value == null || isNaN(Number(value)) ? 0 : Number(value));
+  const sampleBill = calculateBill(SAMPLE_SUBTOTAL, {
+    delivery_fee: toNumber(values.delivery_fee),
+    free_delivery_threshold: toNumber(values.free_delivery_threshold) || null,
+    packaging_charge: toNumber(values.packaging_charge),
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} isRestaurantOwner={true} />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <Button variant="ghost" size="sm" className="mb-4 gap-2" onClick={() => navigate("/restaurant-dashboard")}>
+          <ArrowLeft className="w-4 h-4" />
+          Back to Dashboard
+        </Button>
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+            <div className="w-12 h-12 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center">
+              <Receipt className="w-6 h-6 text-white" />
+            </div>
+            Delivery & Charges
+          </h1>
+          <p className="text-muted-foreground">GST and rounding are added automatically at checkout.</p>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Charges</CardTitle>
+              <CardDescription>Applied to every order placed with {restaurant.name}.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="delivery_fee"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Delivery Fee (₹)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="free_delivery_threshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Free Delivery Above (₹)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" placeholder="Never" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormDescription>Orders with an item total at or above this amount pay no delivery fee.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="packaging_charge"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Packaging Charge per Order (₹)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="gstin"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GSTIN (Optional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="22AAAAA0000A1Z5" maxLength={15} {...field} />
+                        </FormControl>
+                        <FormDescription>Printed on customer invoices so they can claim GST.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Registered Address (Optional)</FormLabel>
+                        <FormControl>
+                          <Textarea rows={2} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={form.formState.isSubmitting}>
+                      {form.formState.isSubmitting ? "Saving..." : "Save Charges"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Example Bill</CardTitle>
+              <CardDescription>For an item total of ₹{SAMPLE_SUBTOTAL}, without a tip.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <BillBreakdown bill={sampleBill} />
+              <div className="flex justify-between font-bold border-t pt-2">
+                <span>Customer Pays</span>
+                <span>₹{sampleBill.total.toFixed(2)}</span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestaurantPricing;
@@ -0,0 +1,299 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import PromotionForm, { type PromotionFormValues } from "@/components/PromotionForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Leaf, Plus, TicketPercent, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  describeConditions,
+  formatDiscount,
+  getPromotionState,
+  toPromotionPayload,
+  type Promotion,
+  type PromotionState,
+} from "@/lib/promotions";
+import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+const STATE_STYLES: Record<PromotionState, string> = {
+  active: "bg-green-500",
+  scheduled: "bg-blue-500",
+  expired: "bg-gray-500",
+  paused: "bg-yellow-500",
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { day: "numeric", month: "short", hour: "numeric", minute: "2-digit" });
+
+const RestaurantPromotions = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [restaurant, setRestaurant] = useState<Tables<"restaurants"> | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingPromotion, setDeletingPromotion] = useState<Promotion | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRestaurant();
+    }
+  }, [user]);
+
+  const fetchRestaurant = async () => {
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "restaurant_owner")
+      .maybeSingle();
+
+    if (!roleData) {
+      toast.error("Access denied. Restaurant owner role required.");
+      navigate("/");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("restaurants")
+      .select("*")
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      navigate("/restaurant-dashboard");
+      return;
+    }
+
+    setRestaurant(data);
+    fetchPromotions(data.id);
+  };
+
+  const fetchPromotions = async (restaurantId: string) => {
+    const [promotionsResult, ordersResult] = await Promise.all([
+      supabase
+        .from("promotions")
+        .select("*")
+        .eq("restaurant_id", restaurantId)
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("orders")
+        .select("promotion_id")
+        .eq("restaurant_id", restaurantId)
+        .neq("status", "cancelled")
+        .not("promotion_id", "is", null),
+    ]);
+
+    if (promotionsResult.error) {
+      toast.error("Failed to load promotions");
+      return;
+    }
+
+    setPromotions(promotionsResult.data || []);
+    setUsage(
+      (ordersResult.data || []).reduce((acc, order) => {
+        acc[order.promotion_id] = (acc[order.promotion_id] ?? 0) + 1;
+        return acc;
+      }, {} as Record<string, number>)
+    );
+  };
+
+  const handleCreate = async (values: PromotionFormValues) => {
+    const { error } = await supabase
+      .from("promotions")
+      .insert({ ...toPromotionPayload(values), restaurant_id: restaurant.id });
+
+    if (error) {
+      // 23505: codes are unique across all restaurants
+      toast.error(error.code === "23505" ? `${values.code} is already taken. Try another code.` : "Failed to create promotion");
+      return;
+    }
+
+    toast.success(`${values.code} created`);
+    setIsFormOpen(false);
+    fetchPromotions(restaurant.id);
+  };
+
+  const toggleActive = async (promotion: Promotion, isActive: boolean) => {
+    setPromotions((items) => items.map((p) => (p.id === promotion.id ? { ...p, is_active: isActive } : p)));
+
+    const { error } = await supabase
+      .from("promotions")
+      .update({ is_active: isActive })
+      .eq("id", promotion.id);
+
+    if (error) {
+      toast.error("Failed to update promotion");
+      fetchPromotions(restaurant.id);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingPromotion) return;
+
+    const { error } = await supabase.from("promotions").delete().eq("id", deletingPromotion.id);
+
+    if (error) {
+      // 23503: the promotion is referenced by past orders
+      toast.error(
+        error.code === "23503"
+          ? `${deletingPromotion.code} has been used on orders. Switch it off instead.`
+          : "Failed to delete promotion"
+      );
+    } else {
+      toast.success("Promotion deleted");
+      fetchPromotions(restaurant.id);
+    }
+    setDeletingPromotion(null);
+  };
+
+  if (!user || !restaurant) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} isRestaurantOwner={true} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" size="sm" className="mb-4 gap-2" onClick={() => navigate("/restaurant-dashboard")}>
+          <ArrowLeft className="w-4 h-4" />
+          Back to Dashboard
+        </Button>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+              <div className="w-12 h-12 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center">
+                <TicketPercent className="w-6 h-6 text-white" />
+              </div>
+              Promotions
+            </h1>
+            <p className="text-muted-foreground">Create coupon codes customers can apply at checkout</p>
+          </div>
+          <Button onClick={() => setIsFormOpen(true)} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New Promotion
+          </Button>
+        </div>
+
+        {promotions.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <TicketPercent className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-xl font-semibold mb-2">No promotions yet</h3>
+              <p className="text-muted-foreground">
+                Try a healthy-items-only code to nudge customers towards better choices.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {promotions.map((promotion) => {
+              const state = getPromotionState(promotion);
+              return (
+                <Card key={promotion.id}>
+                  <CardContent className="flex flex-wrap items-center gap-4 py-4">
+                    <div className="flex-1 min-w-[240px] space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono font-bold text-lg">{promotion.code}</span>
+                        <Badge className={STATE_STYLES[state]}>{state.toUpperCase()}</Badge>
+                        {promotion.healthy_only && (
+                          <Badge variant="outline" className="gap-1 text-green-600 border-green-600">
+                            <Leaf className="w-3 h-3" />
+                            Healthy only
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="font-medium">{formatDiscount(promotion)}</p>
+                      {promotion.description && (
+                        <p className="text-sm text-muted-foreground">{promotion.description}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">{describeConditions(promotion).join(" • ")}</p>
+                      <p className="text-xs text-muted-foreground">
+                        From {formatDateTime(promotion.starts_at)}
+                        {promotion.ends_at ? ` until ${formatDateTime(promotion.ends_at)}` : ""}
+                        {" • "}
+                        Used {usage[promotion.id] ?? 0} {usage[promotion.id] === 1 ? "time" : "times"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Switch
+                        checked={promotion.is_active}
+                        onCheckedChange={(checked) => toggleActive(promotion, checked)}
+                        aria-label={`${promotion.code} active`}
+                      />
+                      <span className="hidden sm:inline w-12">{promotion.is_active ? "On" : "Off"}</span>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-destructive"
+                      onClick={() => setDeletingPromotion(promotion)}
+                      aria-label={`Delete ${promotion.code}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Promotion</DialogTitle>
+          </DialogHeader>
+          <PromotionForm onSubmit={handleCreate} onCancel={() => setIsFormOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingPromotion} onOpenChange={(open) => !open && setDeletingPromotion(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingPromotion?.code}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Customers will no longer be able to use this code. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RestaurantPromotions;
@@ -0,0 +1,228 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import StarRating from "@/components/StarRating";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, MessageSquare, ThumbsDown, ThumbsUp } from "lucide-react";
+import { toast } from "sonner";
+import { replyToReview } from "@/lib/reviews";
+import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Review = Tables<"reviews"> & {
+  profiles: { full_name: string } | null;
+  review_dish_ratings: { thumbs_up: boolean; menu_items: { name: string } | null }[];
+};
+
+const RestaurantReviews = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [restaurant, setRestaurant] = useState<Tables<"restaurants"> | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (!session) navigate("/login");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRestaurant();
+    }
+  }, [user]);
+
+  const fetchRestaurant = async () => {
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "restaurant_owner")
+      .maybeSingle();
+
+    if (!roleData) {
+      toast.error("Access denied. Restaurant owner role required.");
+      navigate("/");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("restaurants")
+      .select("*")
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      navigate("/restaurant-dashboard");
+      return;
+    }
+
+    setRestaurant(data);
+    fetchReviews(data.id);
+  };
+
+  const fetchReviews = async (restaurantId: string) => {
+    const { data, error } = await supabase
+      .from("reviews")
+      .select(`
+        *,
+        profiles (full_name),
+        review_dish_ratings (
+          thumbs_up,
+          menu_items (name)
+        )
+      `)
+      .eq("restaurant_id", restaurantId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Failed to load reviews");
+      return;
+    }
+
+    setReviews(data || []);
+  };
+
+  const startReply = (review: Review) => {
+    setDrafts((current) => ({ ...current, [review.id]: review.owner_reply ?? "" }));
+    setEditingId(review.id);
+  };
+
+  const saveReply = async (review: Review) => {
+    setSavingId(review.id);
+    try {
+      await replyToReview(review.id, drafts[review.id] ?? "");
+      toast.success("Reply posted");
+      setEditingId(null);
+      fetchReviews(restaurant.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save reply");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!user || !restaurant) return null;
+
+  const unanswered = reviews.filter((review) => !review.owner_reply).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} isRestaurantOwner={true} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" size="sm" className="mb-4 gap-2" onClick={() => navigate("/restaurant-dashboard")}>
+          <ArrowLeft className="w-4 h-4" />
+          Back to Dashboard
+        </Button>
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+            <div className="w-12 h-12 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center">
+              <MessageSquare className="w-6 h-6 text-white" />
+            </div>
+            Reviews
+          </h1>
+          <p className="text-muted-foreground flex items-center gap-2">
+            <StarRating value={Math.round(Number(restaurant.rating))} />
+            {Number(restaurant.rating).toFixed(1)} from {restaurant.review_count} review
+            {restaurant.review_count !== 1 ? "s" : ""}
+            {unanswered > 0 && ` · ${unanswered} awaiting a reply`}
+          </p>
+        </div>
+
+        {reviews.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <MessageSquare className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-xl font-semibold mb-2">No reviews yet</h3>
+              <p className="text-muted-foreground">Customers can review their orders once they are delivered.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <Card key={review.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-lg">{review.profiles?.full_name || "Customer"}</CardTitle>
+                      <CardDescription>{format(new Date(review.created_at), "MMM dd, yyyy 'at' hh:mm a")}</CardDescription>
+                    </div>
+                    <StarRating value={review.rating} />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {review.comment && <p>{review.comment}</p>}
+                  {review.review_dish_ratings.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {review.review_dish_ratings.map((dish, index) => (
+                        <Badge key={index} variant="outline" className="gap-1">
+                          {dish.thumbs_up ? (
+                            <ThumbsUp className="w-3 h-3 text-primary" />
+                          ) : (
+                            <ThumbsDown className="w-3 h-3 text-destructive" />
+                          )}
+                          {dish.menu_items?.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  {editingId === review.id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        rows={3}
+                        maxLength={1000}
+                        placeholder="Thank the customer or respond to their feedback"
+                        value={drafts[review.id] ?? ""}
+                        onChange={(e) => setDrafts((current) => ({ ...current, [review.id]: e.target.value }))}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={() => saveReply(review)} disabled={savingId === review.id}>
+                          {savingId === review.id ? "Posting..." : "Post Reply"}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : review.owner_reply ? (
+                    <div className="pl-3 border-l-2 border-primary/40 text-sm">
+                      <p className="font-medium mb-1">Your reply</p>
+                      <p className="text-muted-foreground">{review.owner_reply}</p>
+                      <Button variant="link" size="sm" className="px-0" onClick={() => startReply(review)}>
+                        Edit reply
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => startReply(review)}>
+                      Reply
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RestaurantReviews;
@@ -0,0 +1,77 @@
+// Captures a customer's authorised payment and sends the order to the
+// restaurant. This runs with the service role so that only the server, after
+// the gateway has taken the money, can mark an order paid.
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface AuthorisedPayment {
+  id: string;
+  amount: number;
+  provider_reference: string | null;
+}
+
+// Collects an authorised amount with each gateway, throwing if it refuses. A
+// real gateway is called here with its secret key, never from the browser.
+const CAPTURERS: Record<string, (payment: AuthorisedPayment) => Promise<void>> = {};
+
+// The simulated gateway captures whatever it authorised, so it is only
+// accepted where ALLOW_MOCK_PAYMENTS=true, i.e. in development
+if (Deno.env.get("ALLOW_MOCK_PAYMENTS") === "true") {
+  CAPTURERS.mock = async () => undefined;
+}
+
+// Errors mirror Postgres ones ({ message, hint }) so the app handles both alike
+const respond = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return respond(401, { message: "You must be signed in to pay", hint: "not_authenticated" });
+
+  const { paymentId } = await req.json().catch(() => ({ paymentId: null }));
+
+  const { data: payment } = await admin
+    .from("payments")
+    .select("id, amount, provider, provider_reference, status, orders!inner (customer_id)")
+    .eq("id", paymentId)
+    .maybeSingle();
+
+  if (!payment || payment.orders.customer_id !== user.id) {
+    return respond(404, { message: "Payment not found", hint: "payment_not_found" });
+  }
+
+  if (payment.status !== "authorised") {
+    return respond(409, {
+      message: `Cannot change payment status from ${payment.status} to captured`,
+      hint: "invalid_payment_transition",
+    });
+  }
+
+  const capture = CAPTURERS[payment.provider];
+  try {
+    if (!capture) throw new Error(`Unknown payment provider ${payment.provider}`);
+    await capture({ id: payment.id, amount: Number(payment.amount), provider_reference: payment.provider_reference });
+  } catch (error) {
+    return respond(402, {
+      message: error instanceof Error ? error.message : "The payment could not be captured",
+      hint: "declined",
+    });
+  }
+
+  const { error } = await admin.rpc("capture_payment", { _payment_id: payment.id });
+  if (error) return respond(409, { message: error.message, hint: error.hint });
+
+  return respond(200, { captured: true });
+});
@@ -0,0 +1,97 @@
+-- Place orders through a single transactional function so prices, calories and
+-- health flags always come from menu_items rather than from the client.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _delivery_address TEXT,
+  _delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF COALESCE(btrim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please enter delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  INSERT INTO public.orders (customer_id, restaurant_id, delivery_address, delivery_instructions, total_amount, status)
+  VALUES (_customer_id, _restaurant_id, btrim(_delivery_address), NULLIF(btrim(_delivery_instructions), ''), 0, 'pending')
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time)
+    VALUES (_order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy);
+
+    _total := _total + _menu_item.price * _line.quantity;
+  END LOOP;
+
+  UPDATE public.orders SET total_amount = _total WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, TEXT, TEXT) TO authenticated;
+
+-- Orders are now only created through place_order
+DROP POLICY "Customers can create orders" ON public.orders;
+DROP POLICY "Customers can insert order items" ON public.order_items;
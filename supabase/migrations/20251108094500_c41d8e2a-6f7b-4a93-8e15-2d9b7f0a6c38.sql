@@ -0,0 +1,86 @@
+-- Order status lifecycle: pending → confirmed → preparing → on_the_way → delivered,
+-- with cancellation allowed until the order leaves the restaurant
+CREATE TYPE public.order_status AS ENUM ('pending', 'confirmed', 'preparing', 'on_the_way', 'delivered', 'cancelled');
+
+ALTER TABLE public.orders ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.orders ALTER COLUMN status TYPE public.order_status USING status::public.order_status;
+ALTER TABLE public.orders ALTER COLUMN status SET DEFAULT 'pending';
+
+-- Allowed status transitions (kept in sync with src/lib/order-status.ts)
+CREATE TABLE public.order_status_transitions (
+  from_status public.order_status NOT NULL,
+  to_status public.order_status NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.order_status_transitions (from_status, to_status) VALUES
+  ('pending', 'confirmed'),
+  ('pending', 'cancelled'),
+  ('confirmed', 'preparing'),
+  ('confirmed', 'cancelled'),
+  ('preparing', 'on_the_way'),
+  ('preparing', 'cancelled'),
+  ('on_the_way', 'delivered');
+
+-- Audit trail of every status change
+CREATE TABLE public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  from_status public.order_status,
+  to_status public.order_status NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX order_status_history_order_id_idx ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view order status transitions" ON public.order_status_transitions FOR SELECT USING (true);
+
+CREATE POLICY "Users can view status history of their orders" ON public.order_status_history FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.orders WHERE id = order_status_history.order_id AND (customer_id = auth.uid() OR restaurant_id IN (SELECT id FROM public.restaurants WHERE owner_id = auth.uid())))
+);
+
+-- Reject status changes that are not in the transition table
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM public.order_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'P0001', HINT = 'invalid_status_transition';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_orders_status_transition BEFORE UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status_transition();
+CREATE TRIGGER log_orders_status_change AFTER INSERT OR UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.log_order_status_change();
+
+-- Backfill the initial state of existing orders
+INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, status, NULL, created_at FROM public.orders;
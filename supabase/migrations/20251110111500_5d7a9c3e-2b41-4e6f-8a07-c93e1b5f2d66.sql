@@ -0,0 +1,3 @@
+-- Stream order changes to restaurant owners' order boards
+ALTER TABLE public.orders REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
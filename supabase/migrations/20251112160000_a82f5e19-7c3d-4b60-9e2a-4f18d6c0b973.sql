@@ -0,0 +1,11 @@
+-- Menu management: owner-defined category order and basic sanity checks on items
+ALTER TABLE public.restaurants ADD COLUMN menu_category_order TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.menu_items ADD CONSTRAINT menu_items_price_positive CHECK (price > 0);
+ALTER TABLE public.menu_items ADD CONSTRAINT menu_items_calories_positive CHECK (calories > 0);
+
+-- Deleting a menu item must not erase it from past orders; owners mark such items unavailable instead
+ALTER TABLE public.order_items DROP CONSTRAINT order_items_menu_item_id_fkey;
+ALTER TABLE public.order_items
+  ADD CONSTRAINT order_items_menu_item_id_fkey
+  FOREIGN KEY (menu_item_id) REFERENCES public.menu_items(id) ON DELETE RESTRICT;
@@ -0,0 +1,96 @@
+-- Restaurant onboarding: any signed-in user can register one restaurant, which
+-- grants them the restaurant_owner role. The restaurant stays hidden until the
+-- owner completes setup by adding at least one available menu item.
+CREATE OR REPLACE FUNCTION public.register_restaurant(
+  _name TEXT,
+  _cuisine_type TEXT,
+  _delivery_time_minutes INTEGER,
+  _description TEXT DEFAULT NULL,
+  _image_url TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner_id UUID := auth.uid();
+  _restaurant_id UUID;
+BEGIN
+  IF _owner_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to register a restaurant'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.restaurants WHERE owner_id = _owner_id) THEN
+    RAISE EXCEPTION 'You have already registered a restaurant'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_exists';
+  END IF;
+
+  IF COALESCE(btrim(_name), '') = '' OR COALESCE(btrim(_cuisine_type), '') = '' THEN
+    RAISE EXCEPTION 'Restaurant name and cuisine are required'
+      USING ERRCODE = 'P0001', HINT = 'missing_details';
+  END IF;
+
+  IF _delivery_time_minutes IS NULL OR _delivery_time_minutes NOT BETWEEN 5 AND 180 THEN
+    RAISE EXCEPTION 'Delivery time must be between 5 and 180 minutes'
+      USING ERRCODE = 'P0001', HINT = 'invalid_delivery_time';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_owner_id, 'restaurant_owner')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  INSERT INTO public.restaurants (owner_id, name, description, cuisine_type, delivery_time_minutes, image_url, is_active)
+  VALUES (_owner_id, btrim(_name), NULLIF(btrim(_description), ''), btrim(_cuisine_type), _delivery_time_minutes, NULLIF(btrim(_image_url), ''), false)
+  RETURNING id INTO _restaurant_id;
+
+  RETURN _restaurant_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_restaurant_onboarding(_restaurant_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Restaurant not found'
+      USING ERRCODE = 'P0001', HINT = 'not_owner';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.menu_items WHERE restaurant_id = _restaurant_id AND is_available = true
+  ) THEN
+    RAISE EXCEPTION 'Add at least one available menu item before going live'
+      USING ERRCODE = 'P0001', HINT = 'menu_empty';
+  END IF;
+
+  UPDATE public.restaurants SET is_active = true WHERE id = _restaurant_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_restaurant(TEXT, TEXT, INTEGER, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.register_restaurant(TEXT, TEXT, INTEGER, TEXT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_restaurant_onboarding(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_restaurant_onboarding(UUID) TO authenticated;
+
+-- Owners edit their restaurant's details directly, but is_active is only
+-- switched on by complete_restaurant_onboarding and rating is not theirs to
+-- set. New owner-editable columns must be granted alongside them.
+REVOKE INSERT, UPDATE ON public.restaurants FROM authenticated, anon;
+GRANT UPDATE (
+  name,
+  description,
+  cuisine_type,
+  delivery_time_minutes,
+  image_url,
+  menu_category_order
+) ON public.restaurants TO authenticated;
+
+-- Restaurants are created through register_restaurant, which starts them inactive
+DROP POLICY "Restaurant owners can insert restaurants" ON public.restaurants;
@@ -0,0 +1,113 @@
+-- Per-serving macro and micronutrients on menu items. NULL means the restaurant
+-- has not provided the value.
+ALTER TABLE public.menu_items
+  ADD COLUMN protein_g DECIMAL(6,1) CHECK (protein_g >= 0),
+  ADD COLUMN carbohydrates_g DECIMAL(6,1) CHECK (carbohydrates_g >= 0),
+  ADD COLUMN fat_g DECIMAL(6,1) CHECK (fat_g >= 0),
+  ADD COLUMN fibre_g DECIMAL(6,1) CHECK (fibre_g >= 0),
+  ADD COLUMN sugar_g DECIMAL(6,1) CHECK (sugar_g >= 0),
+  ADD COLUMN sodium_mg INTEGER CHECK (sodium_mg >= 0);
+
+-- Snapshot of the nutrients at the time of ordering, like calories_at_time
+ALTER TABLE public.order_items
+  ADD COLUMN protein_g_at_time DECIMAL(6,1),
+  ADD COLUMN carbohydrates_g_at_time DECIMAL(6,1),
+  ADD COLUMN fat_g_at_time DECIMAL(6,1),
+  ADD COLUMN fibre_g_at_time DECIMAL(6,1),
+  ADD COLUMN sugar_g_at_time DECIMAL(6,1),
+  ADD COLUMN sodium_mg_at_time INTEGER;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _delivery_address TEXT,
+  _delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF COALESCE(btrim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please enter delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  INSERT INTO public.orders (customer_id, restaurant_id, delivery_address, delivery_instructions, total_amount, status)
+  VALUES (_customer_id, _restaurant_id, btrim(_delivery_address), NULLIF(btrim(_delivery_instructions), ''), 0, 'pending')
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time,
+      protein_g_at_time, carbohydrates_g_at_time, fat_g_at_time, fibre_g_at_time, sugar_g_at_time, sodium_mg_at_time
+    )
+    VALUES (
+      _order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy,
+      _menu_item.protein_g, _menu_item.carbohydrates_g, _menu_item.fat_g, _menu_item.fibre_g, _menu_item.sugar_g, _menu_item.sodium_mg
+    );
+
+    _total := _total + _menu_item.price * _line.quantity;
+  END LOOP;
+
+  UPDATE public.orders SET total_amount = _total WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,185 @@
+-- Computed health score replacing the owner-set is_healthy flag.
+-- A Nutri-Score-style per-serving score: negative points for energy, sugar,
+-- sodium and fat, positive points for protein and fibre, mapped to grades A–E.
+-- Missing nutrients score zero points. Keep in sync with src/lib/health-score.ts.
+CREATE TYPE public.health_grade AS ENUM ('A', 'B', 'C', 'D', 'E');
+
+-- Number of thresholds that _value exceeds
+CREATE OR REPLACE FUNCTION public.health_points(_value NUMERIC, _thresholds NUMERIC[])
+RETURNS INTEGER
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT COUNT(*)::INTEGER FROM unnest(_thresholds) AS threshold WHERE COALESCE(_value, 0) > threshold
+$$;
+
+CREATE OR REPLACE FUNCTION public.compute_health_score(
+  _calories INTEGER,
+  _sugar_g NUMERIC,
+  _sodium_mg NUMERIC,
+  _fat_g NUMERIC,
+  _protein_g NUMERIC,
+  _fibre_g NUMERIC
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _negative INTEGER;
+  _protein INTEGER;
+  _fibre INTEGER;
+BEGIN
+  _negative :=
+    public.health_points(_calories, ARRAY[200, 300, 400, 500, 600, 700, 800, 900, 1000, 1100])
+    + public.health_points(_sugar_g, ARRAY[5, 10, 15, 20, 25, 30, 35, 40, 45, 50])
+    + public.health_points(_sodium_mg, ARRAY[200, 400, 600, 800, 1000, 1200, 1400, 1600, 1800, 2000])
+    + public.health_points(_fat_g, ARRAY[5, 10, 15, 20, 25, 30, 35, 40, 45, 50]);
+  _protein := public.health_points(_protein_g, ARRAY[5, 10, 15, 20, 25]);
+  _fibre := public.health_points(_fibre_g, ARRAY[2, 4, 6, 8, 10]);
+
+  -- As in Nutri-Score, protein cannot offset a heavily penalised dish
+  IF _negative >= 11 THEN
+    _protein := 0;
+  END IF;
+
+  RETURN _negative - _protein - _fibre;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.health_grade_for_score(_score INTEGER)
+RETURNS public.health_grade
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT (CASE
+    WHEN _score <= 0 THEN 'A'
+    WHEN _score <= 5 THEN 'B'
+    WHEN _score <= 11 THEN 'C'
+    WHEN _score <= 17 THEN 'D'
+    ELSE 'E'
+  END)::public.health_grade
+$$;
+
+ALTER TABLE public.menu_items
+  ADD COLUMN health_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN health_grade public.health_grade NOT NULL DEFAULT 'C';
+
+ALTER TABLE public.order_items ADD COLUMN health_grade_at_time public.health_grade;
+
+-- is_healthy is kept for existing readers but now follows the grade
+CREATE OR REPLACE FUNCTION public.set_menu_item_health_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.health_score := public.compute_health_score(NEW.calories, NEW.sugar_g, NEW.sodium_mg, NEW.fat_g, NEW.protein_g, NEW.fibre_g);
+  NEW.health_grade := public.health_grade_for_score(NEW.health_score);
+  NEW.is_healthy := NEW.health_grade IN ('A', 'B');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_menu_items_health_score BEFORE INSERT OR UPDATE ON public.menu_items FOR EACH ROW EXECUTE FUNCTION public.set_menu_item_health_score();
+
+-- Score existing menu items
+UPDATE public.menu_items SET health_score = 0;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _delivery_address TEXT,
+  _delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF COALESCE(btrim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please enter delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  INSERT INTO public.orders (customer_id, restaurant_id, delivery_address, delivery_instructions, total_amount, status)
+  VALUES (_customer_id, _restaurant_id, btrim(_delivery_address), NULLIF(btrim(_delivery_instructions), ''), 0, 'pending')
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time,
+      protein_g_at_time, carbohydrates_g_at_time, fat_g_at_time, fibre_g_at_time, sugar_g_at_time, sodium_mg_at_time,
+      health_grade_at_time
+    )
+    VALUES (
+      _order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy,
+      _menu_item.protein_g, _menu_item.carbohydrates_g, _menu_item.fat_g, _menu_item.fibre_g, _menu_item.sugar_g, _menu_item.sodium_mg,
+      _menu_item.health_grade
+    );
+
+    _total := _total + _menu_item.price * _line.quantity;
+  END LOOP;
+
+  UPDATE public.orders SET total_amount = _total WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
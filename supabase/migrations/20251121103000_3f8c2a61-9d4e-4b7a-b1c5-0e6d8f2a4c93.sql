@@ -0,0 +1,25 @@
+-- Allergen and dietary tags on menu items
+CREATE TYPE public.allergen AS ENUM ('gluten', 'dairy', 'nuts', 'peanuts', 'egg', 'soy', 'fish', 'shellfish', 'sesame');
+CREATE TYPE public.dietary_tag AS ENUM ('vegetarian', 'vegan', 'jain', 'halal');
+
+ALTER TABLE public.menu_items
+  ADD COLUMN allergens public.allergen[] NOT NULL DEFAULT '{}',
+  ADD COLUMN dietary_tags public.dietary_tag[] NOT NULL DEFAULT '{}';
+
+-- Vegan and Jain dishes are vegetarian; vegetarian dishes cannot contain fish
+-- or shellfish, and vegan dishes cannot contain dairy or egg either
+ALTER TABLE public.menu_items
+  ADD CONSTRAINT menu_items_vegan_is_vegetarian CHECK (
+    NOT (dietary_tags && ARRAY['vegan', 'jain']::public.dietary_tag[])
+    OR 'vegetarian' = ANY(dietary_tags)
+  ),
+  ADD CONSTRAINT menu_items_vegetarian_allergens CHECK (
+    NOT ('vegetarian' = ANY(dietary_tags))
+    OR NOT (allergens && ARRAY['fish', 'shellfish']::public.allergen[])
+  ),
+  ADD CONSTRAINT menu_items_vegan_allergens CHECK (
+    NOT ('vegan' = ANY(dietary_tags))
+    OR NOT (allergens && ARRAY['dairy', 'egg']::public.allergen[])
+  );
+
+CREATE INDEX idx_menu_items_dietary_tags ON public.menu_items USING GIN (dietary_tags);
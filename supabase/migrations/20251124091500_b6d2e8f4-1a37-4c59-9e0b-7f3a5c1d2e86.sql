@@ -0,0 +1,30 @@
+-- Private nutrition profile used to suggest daily calorie and macro goals.
+-- Kept out of public.profiles, which every user can read.
+CREATE TYPE public.biological_sex AS ENUM ('female', 'male');
+CREATE TYPE public.activity_level AS ENUM ('sedentary', 'light', 'moderate', 'active', 'very_active');
+CREATE TYPE public.nutrition_goal AS ENUM ('lose', 'maintain', 'gain');
+
+CREATE TABLE public.nutrition_profiles (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  age INTEGER NOT NULL CHECK (age BETWEEN 13 AND 120),
+  sex public.biological_sex NOT NULL,
+  height_cm DECIMAL(5,1) NOT NULL CHECK (height_cm BETWEEN 100 AND 250),
+  weight_kg DECIMAL(5,1) NOT NULL CHECK (weight_kg BETWEEN 30 AND 300),
+  activity_level public.activity_level NOT NULL DEFAULT 'moderate',
+  goal public.nutrition_goal NOT NULL DEFAULT 'maintain',
+  calorie_goal INTEGER NOT NULL CHECK (calorie_goal > 0),
+  protein_goal_g INTEGER NOT NULL CHECK (protein_goal_g >= 0),
+  carbohydrates_goal_g INTEGER NOT NULL CHECK (carbohydrates_goal_g >= 0),
+  fat_goal_g INTEGER NOT NULL CHECK (fat_goal_g >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.nutrition_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own nutrition profile" ON public.nutrition_profiles FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own nutrition profile" ON public.nutrition_profiles FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own nutrition profile" ON public.nutrition_profiles FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own nutrition profile" ON public.nutrition_profiles FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_nutrition_profiles_updated_at BEFORE UPDATE ON public.nutrition_profiles FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,118 @@
+-- Nutrition trends for the health dashboard, aggregated in the database.
+
+-- One row per ordered line with its totals and healthy flag. Orders placed
+-- before health grades existed fall back to the old is_healthy snapshot.
+CREATE VIEW public.customer_order_lines
+WITH (security_invoker = true) AS
+SELECT
+  o.id AS order_id,
+  o.customer_id,
+  o.created_at,
+  o.status,
+  oi.quantity,
+  oi.calories_at_time * oi.quantity AS calories,
+  oi.price_at_time * oi.quantity AS amount,
+  COALESCE(oi.health_grade_at_time IN ('A', 'B'), oi.is_healthy_at_time) AS is_healthy
+FROM public.orders o
+JOIN public.order_items oi ON oi.order_id = o.id;
+
+GRANT SELECT ON public.customer_order_lines TO authenticated;
+
+-- Calories, healthy/junk spend and order counts for the signed-in customer,
+-- per day, week or month between two local dates (inclusive). Empty periods
+-- are returned as zeros so charts have a continuous axis.
+CREATE OR REPLACE FUNCTION public.nutrition_trends(
+  _from DATE,
+  _to DATE,
+  _bucket TEXT DEFAULT 'day',
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  period_start DATE,
+  order_count INTEGER,
+  calories BIGINT,
+  healthy_spend NUMERIC,
+  junk_spend NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in' USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unsupported period %', _bucket USING ERRCODE = 'P0001', HINT = 'invalid_bucket';
+  END IF;
+
+  IF _from IS NULL OR _to IS NULL OR _to < _from THEN
+    RAISE EXCEPTION 'The start date must be on or before the end date' USING ERRCODE = 'P0001', HINT = 'invalid_range';
+  END IF;
+
+  IF _to - _from > 366 THEN
+    RAISE EXCEPTION 'Choose a range of one year or less' USING ERRCODE = 'P0001', HINT = 'range_too_large';
+  END IF;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT generate_series(
+      date_trunc(_bucket, _from::TIMESTAMP),
+      date_trunc(_bucket, _to::TIMESTAMP),
+      ('1 ' || _bucket)::INTERVAL
+    )::DATE AS period_start
+  ),
+  lines AS (
+    SELECT
+      date_trunc(_bucket, l.created_at AT TIME ZONE _time_zone)::DATE AS period_start,
+      l.order_id,
+      l.calories,
+      l.amount,
+      l.is_healthy
+    FROM public.customer_order_lines l
+    WHERE l.customer_id = auth.uid()
+      AND l.status <> 'cancelled'
+      AND (l.created_at AT TIME ZONE _time_zone)::DATE BETWEEN _from AND _to
+  )
+  SELECT
+    p.period_start,
+    COUNT(DISTINCT l.order_id)::INTEGER,
+    COALESCE(SUM(l.calories), 0)::BIGINT,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.is_healthy), 0),
+    COALESCE(SUM(l.amount) FILTER (WHERE NOT l.is_healthy), 0)
+  FROM periods p
+  LEFT JOIN lines l ON l.period_start = p.period_start
+  GROUP BY p.period_start
+  ORDER BY p.period_start;
+END;
+$$;
+
+-- Totals for the signed-in customer between two instants, used for
+-- period-over-period comparisons
+CREATE OR REPLACE FUNCTION public.nutrition_totals(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  order_count INTEGER,
+  calories BIGINT,
+  healthy_spend NUMERIC,
+  junk_spend NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(DISTINCT l.order_id)::INTEGER,
+    COALESCE(SUM(l.calories), 0)::BIGINT,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.is_healthy), 0),
+    COALESCE(SUM(l.amount) FILTER (WHERE NOT l.is_healthy), 0)
+  FROM public.customer_order_lines l
+  WHERE l.customer_id = auth.uid()
+    AND l.status <> 'cancelled'
+    AND l.created_at >= _from
+    AND l.created_at < _to
+$$;
+
+GRANT EXECUTE ON FUNCTION public.nutrition_trends(DATE, DATE, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.nutrition_totals(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
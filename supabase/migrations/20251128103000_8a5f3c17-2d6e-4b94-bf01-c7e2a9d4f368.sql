@@ -0,0 +1,209 @@
+-- Customer reviews of delivered orders, with optional thumbs up/down per dish
+-- and a single reply from the restaurant owner.
+CREATE TABLE public.reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 1000),
+  owner_reply TEXT CHECK (char_length(owner_reply) <= 1000),
+  owner_replied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE public.review_dish_ratings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  thumbs_up BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (review_id, menu_item_id)
+);
+
+CREATE INDEX idx_reviews_restaurant_id ON public.reviews(restaurant_id, created_at DESC);
+CREATE INDEX idx_review_dish_ratings_menu_item_id ON public.review_dish_ratings(menu_item_id);
+
+ALTER TABLE public.restaurants ADD COLUMN review_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_dish_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reviews" ON public.reviews FOR SELECT USING (true);
+
+-- Only the customer of a delivered order from this restaurant can review it
+CREATE POLICY "Customers can review delivered orders" ON public.reviews FOR INSERT WITH CHECK (
+  auth.uid() = customer_id
+  AND EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = reviews.order_id
+      AND orders.customer_id = auth.uid()
+      AND orders.restaurant_id = reviews.restaurant_id
+      AND orders.status = 'delivered'
+  )
+);
+
+CREATE POLICY "Customers can update own reviews" ON public.reviews FOR UPDATE USING (auth.uid() = customer_id);
+CREATE POLICY "Customers can delete own reviews" ON public.reviews FOR DELETE USING (auth.uid() = customer_id);
+
+-- Customers may only write their own rating and comment; owner replies go
+-- through reply_to_review
+REVOKE INSERT, UPDATE ON public.reviews FROM authenticated, anon;
+GRANT INSERT (order_id, restaurant_id, customer_id, rating, comment) ON public.reviews TO authenticated;
+GRANT UPDATE (rating, comment) ON public.reviews TO authenticated;
+
+CREATE POLICY "Anyone can view dish ratings" ON public.review_dish_ratings FOR SELECT USING (true);
+
+-- Dishes can only be rated on the customer's own review, for dishes in that order
+CREATE POLICY "Customers can rate dishes they ordered" ON public.review_dish_ratings FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM public.reviews
+    JOIN public.order_items ON order_items.order_id = reviews.order_id
+    WHERE reviews.id = review_dish_ratings.review_id
+      AND reviews.customer_id = auth.uid()
+      AND order_items.menu_item_id = review_dish_ratings.menu_item_id
+  )
+);
+
+CREATE POLICY "Customers can delete own dish ratings" ON public.review_dish_ratings FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM public.reviews
+    WHERE reviews.id = review_dish_ratings.review_id AND reviews.customer_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_reviews_updated_at BEFORE UPDATE ON public.reviews FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep restaurants.rating and review_count in step with the reviews
+CREATE OR REPLACE FUNCTION public.refresh_restaurant_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _restaurant_id UUID := COALESCE(NEW.restaurant_id, OLD.restaurant_id);
+BEGIN
+  UPDATE public.restaurants
+  SET
+    rating = COALESCE((SELECT ROUND(AVG(rating), 1) FROM public.reviews WHERE restaurant_id = _restaurant_id), 0),
+    review_count = (SELECT COUNT(*) FROM public.reviews WHERE restaurant_id = _restaurant_id)
+  WHERE id = _restaurant_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_restaurant_rating_on_review
+AFTER INSERT OR DELETE OR UPDATE OF rating ON public.reviews
+FOR EACH ROW EXECUTE FUNCTION public.refresh_restaurant_rating();
+
+-- Thumbs up/down totals per dish
+CREATE VIEW public.menu_item_dish_ratings
+WITH (security_invoker = true) AS
+SELECT
+  menu_item_id,
+  COUNT(*) FILTER (WHERE thumbs_up)::INTEGER AS thumbs_up,
+  COUNT(*) FILTER (WHERE NOT thumbs_up)::INTEGER AS thumbs_down
+FROM public.review_dish_ratings
+GROUP BY menu_item_id;
+
+GRANT SELECT ON public.menu_item_dish_ratings TO anon, authenticated;
+
+-- Reviews a delivered order with a 1–5 star rating, an optional comment and
+-- optional thumbs for dishes in the order: [{ "menu_item_id": uuid, "thumbs_up": bool }].
+-- Runs as the caller so the RLS policies above still apply.
+CREATE OR REPLACE FUNCTION public.submit_review(
+  _order_id UUID,
+  _rating INTEGER,
+  _comment TEXT DEFAULT NULL,
+  _dish_ratings JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order RECORD;
+  _review_id UUID;
+  _dish RECORD;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to leave a review' USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT id, restaurant_id, status INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND customer_id = _customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0001', HINT = 'order_not_found';
+  END IF;
+
+  IF _order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'You can review an order once it has been delivered' USING ERRCODE = 'P0001', HINT = 'order_not_delivered';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reviews WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'You have already reviewed this order' USING ERRCODE = 'P0001', HINT = 'review_exists';
+  END IF;
+
+  IF _rating IS NULL OR _rating < 1 OR _rating > 5 THEN
+    RAISE EXCEPTION 'Choose a rating from 1 to 5 stars' USING ERRCODE = 'P0001', HINT = 'invalid_rating';
+  END IF;
+
+  INSERT INTO public.reviews (order_id, restaurant_id, customer_id, rating, comment)
+  VALUES (_order_id, _order.restaurant_id, _customer_id, _rating, NULLIF(btrim(_comment), ''))
+  RETURNING id INTO _review_id;
+
+  FOR _dish IN
+    SELECT (value->>'menu_item_id')::UUID AS menu_item_id, (value->>'thumbs_up')::BOOLEAN AS thumbs_up
+    FROM jsonb_array_elements(COALESCE(_dish_ratings, '[]'::jsonb))
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.order_items WHERE order_id = _order_id AND menu_item_id = _dish.menu_item_id
+    ) THEN
+      RAISE EXCEPTION 'That dish is not part of this order'
+        USING ERRCODE = 'P0001', HINT = 'item_not_in_order', DETAIL = _dish.menu_item_id::TEXT;
+    END IF;
+
+    INSERT INTO public.review_dish_ratings (review_id, menu_item_id, thumbs_up)
+    VALUES (_review_id, _dish.menu_item_id, _dish.thumbs_up);
+  END LOOP;
+
+  RETURN _review_id;
+END;
+$$;
+
+-- Sets or replaces the owner's reply to a review of their restaurant
+CREATE OR REPLACE FUNCTION public.reply_to_review(_review_id UUID, _reply TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.reviews
+    JOIN public.restaurants ON restaurants.id = reviews.restaurant_id
+    WHERE reviews.id = _review_id AND restaurants.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the restaurant owner can reply to this review' USING ERRCODE = 'P0001', HINT = 'not_owner';
+  END IF;
+
+  IF NULLIF(btrim(_reply), '') IS NULL THEN
+    RAISE EXCEPTION 'Write a reply first' USING ERRCODE = 'P0001', HINT = 'empty_reply';
+  END IF;
+
+  UPDATE public.reviews
+  SET owner_reply = btrim(_reply), owner_replied_at = NOW()
+  WHERE id = _review_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reply_to_review(UUID, TEXT) TO authenticated;
@@ -0,0 +1,200 @@
+-- Saved delivery addresses. Orders keep a snapshot of the chosen address so
+-- later edits to the address book do not rewrite order history.
+CREATE TABLE public.addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 30),
+  line1 TEXT NOT NULL CHECK (char_length(btrim(line1)) > 0),
+  line2 TEXT,
+  landmark TEXT,
+  city TEXT NOT NULL CHECK (char_length(btrim(city)) > 0),
+  pincode TEXT NOT NULL CHECK (pincode ~ '^[1-9][0-9]{5}$'),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_addresses_user_id ON public.addresses(user_id);
+CREATE UNIQUE INDEX addresses_one_default_per_user ON public.addresses(user_id) WHERE is_default;
+
+ALTER TABLE public.addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own addresses" ON public.addresses FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own addresses" ON public.addresses FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own addresses" ON public.addresses FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own addresses" ON public.addresses FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_addresses_updated_at BEFORE UPDATE ON public.addresses FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A user's first address becomes the default, and choosing a new default
+-- clears the previous one
+CREATE OR REPLACE FUNCTION public.set_default_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.addresses WHERE user_id = NEW.user_id AND id <> NEW.id) THEN
+    NEW.is_default := true;
+  END IF;
+
+  IF NEW.is_default THEN
+    UPDATE public.addresses SET is_default = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_default_address BEFORE INSERT OR UPDATE OF is_default ON public.addresses FOR EACH ROW EXECUTE FUNCTION public.set_default_address();
+
+-- Single-line form used for orders.delivery_address
+CREATE OR REPLACE FUNCTION public.format_address(_address public.addresses)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT concat_ws(', ',
+    btrim(_address.line1),
+    NULLIF(btrim(_address.line2), ''),
+    NULLIF('Near ' || btrim(_address.landmark), 'Near '),
+    btrim(_address.city) || ' - ' || _address.pincode
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.address_snapshot(_address public.addresses)
+RETURNS JSONB
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'label', _address.label,
+    'line1', _address.line1,
+    'line2', _address.line2,
+    'landmark', _address.landmark,
+    'city', _address.city,
+    'pincode', _address.pincode
+  )
+$$;
+
+ALTER TABLE public.orders
+  ADD COLUMN address_id UUID REFERENCES public.addresses(id) ON DELETE SET NULL,
+  ADD COLUMN delivery_address_snapshot JSONB;
+
+-- place_order now takes a saved address instead of free text
+DROP FUNCTION public.place_order(UUID, JSONB, TEXT, TEXT);
+
+CREATE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+  _address public.addresses%ROWTYPE;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF _address_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  SELECT * INTO _address FROM public.addresses WHERE id = _address_id AND user_id = _customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That delivery address could not be found'
+      USING ERRCODE = 'P0001', HINT = 'address_not_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  INSERT INTO public.orders (
+    customer_id, restaurant_id, address_id, delivery_address, delivery_address_snapshot,
+    delivery_instructions, total_amount, status
+  )
+  VALUES (
+    _customer_id, _restaurant_id, _address.id, public.format_address(_address), public.address_snapshot(_address),
+    NULLIF(btrim(_delivery_instructions), ''), 0, 'pending'
+  )
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time,
+      protein_g_at_time, carbohydrates_g_at_time, fat_g_at_time, fibre_g_at_time, sugar_g_at_time, sodium_mg_at_time,
+      health_grade_at_time
+    )
+    VALUES (
+      _order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy,
+      _menu_item.protein_g, _menu_item.carbohydrates_g, _menu_item.fat_g, _menu_item.fibre_g, _menu_item.sugar_g, _menu_item.sodium_mg,
+      _menu_item.health_grade
+    );
+
+    _total := _total + _menu_item.price * _line.quantity;
+  END LOOP;
+
+  UPDATE public.orders SET total_amount = _total WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT) TO authenticated;
@@ -0,0 +1,205 @@
+-- Weekly opening hours and holiday closures. Times are wall-clock times in the
+-- restaurant's own time zone. A slot whose closing time is not after its
+-- opening time runs past midnight into the next day.
+ALTER TABLE public.restaurants ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+GRANT UPDATE (time_zone) ON public.restaurants TO authenticated;
+
+CREATE TABLE public.restaurant_opening_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  -- 0 = Sunday, matching EXTRACT(DOW) and Date.getDay()
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  opens_at TIME NOT NULL,
+  closes_at TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_restaurant_opening_hours_restaurant_id ON public.restaurant_opening_hours(restaurant_id);
+
+CREATE TABLE public.restaurant_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (restaurant_id, date)
+);
+
+ALTER TABLE public.restaurant_opening_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.restaurant_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view opening hours" ON public.restaurant_opening_hours FOR SELECT USING (true);
+CREATE POLICY "Restaurant owners can manage opening hours" ON public.restaurant_opening_hours FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.restaurants WHERE id = restaurant_opening_hours.restaurant_id AND owner_id = auth.uid())
+);
+
+CREATE POLICY "Anyone can view holidays" ON public.restaurant_holidays FOR SELECT USING (true);
+CREATE POLICY "Restaurant owners can manage holidays" ON public.restaurant_holidays FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.restaurants WHERE id = restaurant_holidays.restaurant_id AND owner_id = auth.uid())
+);
+
+-- A restaurant without any opening hours is treated as always open. A holiday
+-- closes the slots that start on that date; a slot from the previous evening
+-- still runs past midnight.
+CREATE OR REPLACE FUNCTION public.is_restaurant_open(_restaurant_id UUID, _at TIMESTAMPTZ DEFAULT NOW())
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _local TIMESTAMP;
+  _today DATE;
+  _time TIME;
+BEGIN
+  SELECT _at AT TIME ZONE time_zone INTO _local FROM public.restaurants WHERE id = _restaurant_id;
+
+  IF _local IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.restaurant_opening_hours WHERE restaurant_id = _restaurant_id) THEN
+    RETURN true;
+  END IF;
+
+  _today := _local::DATE;
+  _time := _local::TIME;
+
+  RETURN (
+    NOT EXISTS (SELECT 1 FROM public.restaurant_holidays WHERE restaurant_id = _restaurant_id AND date = _today)
+    AND EXISTS (
+      SELECT 1 FROM public.restaurant_opening_hours
+      WHERE restaurant_id = _restaurant_id
+        AND day_of_week = EXTRACT(DOW FROM _today)
+        AND opens_at <= _time
+        AND (closes_at > _time OR closes_at <= opens_at)
+    )
+  ) OR (
+    NOT EXISTS (SELECT 1 FROM public.restaurant_holidays WHERE restaurant_id = _restaurant_id AND date = _today - 1)
+    AND EXISTS (
+      SELECT 1 FROM public.restaurant_opening_hours
+      WHERE restaurant_id = _restaurant_id
+        AND day_of_week = EXTRACT(DOW FROM _today - 1)
+        AND closes_at <= opens_at
+        AND _time < closes_at
+    )
+  );
+END;
+$$;
+
+-- Orders are only accepted while the restaurant is open
+CREATE OR REPLACE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+  _address public.addresses%ROWTYPE;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF _address_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  SELECT * INTO _address FROM public.addresses WHERE id = _address_id AND user_id = _customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That delivery address could not be found'
+      USING ERRCODE = 'P0001', HINT = 'address_not_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  IF NOT public.is_restaurant_open(_restaurant_id) THEN
+    RAISE EXCEPTION 'This restaurant is closed right now'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+  END IF;
+
+  INSERT INTO public.orders (
+    customer_id, restaurant_id, address_id, delivery_address, delivery_address_snapshot,
+    delivery_instructions, total_amount, status
+  )
+  VALUES (
+    _customer_id, _restaurant_id, _address.id, public.format_address(_address), public.address_snapshot(_address),
+    NULLIF(btrim(_delivery_instructions), ''), 0, 'pending'
+  )
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time,
+      protein_g_at_time, carbohydrates_g_at_time, fat_g_at_time, fibre_g_at_time, sugar_g_at_time, sodium_mg_at_time,
+      health_grade_at_time
+    )
+    VALUES (
+      _order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy,
+      _menu_item.protein_g, _menu_item.carbohydrates_g, _menu_item.fat_g, _menu_item.fibre_g, _menu_item.sugar_g, _menu_item.sodium_mg,
+      _menu_item.health_grade
+    );
+
+    _total := _total + _menu_item.price * _line.quantity;
+  END LOOP;
+
+  UPDATE public.orders SET total_amount = _total WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
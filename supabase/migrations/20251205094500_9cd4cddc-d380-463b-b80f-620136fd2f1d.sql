@@ -0,0 +1,208 @@
+-- Orders scheduled for a later delivery time. The slot must be far enough
+-- ahead, within the booking horizon and inside the restaurant's opening hours.
+ALTER TABLE public.orders ADD COLUMN scheduled_for TIMESTAMPTZ;
+
+CREATE INDEX idx_orders_scheduled_for ON public.orders(scheduled_for) WHERE scheduled_for IS NOT NULL;
+
+-- Scheduling rules, mirrored in src/lib/scheduling.ts
+CREATE OR REPLACE FUNCTION public.schedule_lead_time()
+RETURNS INTERVAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$ SELECT INTERVAL '60 minutes' $$;
+
+CREATE OR REPLACE FUNCTION public.schedule_horizon()
+RETURNS INTERVAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$ SELECT INTERVAL '7 days' $$;
+
+CREATE OR REPLACE FUNCTION public.scheduled_cancel_cutoff()
+RETURNS INTERVAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$ SELECT INTERVAL '60 minutes' $$;
+
+DROP FUNCTION public.place_order(UUID, JSONB, UUID, TEXT);
+
+CREATE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_instructions TEXT DEFAULT NULL,
+  _scheduled_for TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+  _address public.addresses%ROWTYPE;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF _address_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  SELECT * INTO _address FROM public.addresses WHERE id = _address_id AND user_id = _customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That delivery address could not be found'
+      USING ERRCODE = 'P0001', HINT = 'address_not_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  IF _scheduled_for IS NULL THEN
+    IF NOT public.is_restaurant_open(_restaurant_id) THEN
+      RAISE EXCEPTION 'This restaurant is closed right now'
+        USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+    END IF;
+  ELSE
+    IF _scheduled_for < NOW() + public.schedule_lead_time() THEN
+      RAISE EXCEPTION 'Scheduled orders must be placed at least % minutes ahead', EXTRACT(EPOCH FROM public.schedule_lead_time()) / 60
+        USING ERRCODE = 'P0001', HINT = 'invalid_schedule';
+    END IF;
+
+    IF _scheduled_for > NOW() + public.schedule_horizon() THEN
+      RAISE EXCEPTION 'Orders can be scheduled at most % days ahead', EXTRACT(DAY FROM public.schedule_horizon())
+        USING ERRCODE = 'P0001', HINT = 'invalid_schedule';
+    END IF;
+
+    IF NOT public.is_restaurant_open(_restaurant_id, _scheduled_for) THEN
+      RAISE EXCEPTION 'This restaurant is closed at the selected time'
+        USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    customer_id, restaurant_id, address_id, delivery_address, delivery_address_snapshot,
+    delivery_instructions, scheduled_for, total_amount, status
+  )
+  VALUES (
+    _customer_id, _restaurant_id, _address.id, public.format_address(_address), public.address_snapshot(_address),
+    NULLIF(btrim(_delivery_instructions), ''), _scheduled_for, 0, 'pending'
+  )
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time,
+      protein_g_at_time, carbohydrates_g_at_time, fat_g_at_time, fibre_g_at_time, sugar_g_at_time, sodium_mg_at_time,
+      health_grade_at_time
+    )
+    VALUES (
+      _order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy,
+      _menu_item.protein_g, _menu_item.carbohydrates_g, _menu_item.fat_g, _menu_item.fibre_g, _menu_item.sugar_g, _menu_item.sodium_mg,
+      _menu_item.health_grade
+    );
+
+    _total := _total + _menu_item.price * _line.quantity;
+  END LOOP;
+
+  UPDATE public.orders SET total_amount = _total WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- Customers may cancel a scheduled order until the cutoff before its slot,
+-- as long as the restaurant has not started preparing it
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to cancel an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id AND customer_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'P0001', HINT = 'order_not_found';
+  END IF;
+
+  IF _order.scheduled_for IS NULL THEN
+    RAISE EXCEPTION 'Only scheduled orders can be cancelled'
+      USING ERRCODE = 'P0001', HINT = 'not_cancellable';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This order can no longer be cancelled'
+      USING ERRCODE = 'P0001', HINT = 'not_cancellable';
+  END IF;
+
+  IF NOW() > _order.scheduled_for - public.scheduled_cancel_cutoff() THEN
+    RAISE EXCEPTION 'Scheduled orders can only be cancelled up to % minutes before delivery', EXTRACT(EPOCH FROM public.scheduled_cancel_cutoff()) / 60
+      USING ERRCODE = 'P0001', HINT = 'cancel_cutoff_passed';
+  END IF;
+
+  UPDATE public.orders SET status = 'cancelled' WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID) TO authenticated;
@@ -0,0 +1,91 @@
+-- Customer cancellations. Immediate orders can be cancelled while pending or
+-- within the restaurant's grace window after being placed; scheduled orders
+-- until the cutoff before their slot. The reason and who cancelled are kept
+-- on the order.
+ALTER TABLE public.restaurants
+  ADD COLUMN cancellation_grace_minutes SMALLINT NOT NULL DEFAULT 5 CHECK (cancellation_grace_minutes BETWEEN 0 AND 60);
+GRANT UPDATE (cancellation_grace_minutes) ON public.restaurants TO authenticated;
+
+ALTER TABLE public.orders
+  ADD COLUMN cancelled_at TIMESTAMPTZ,
+  ADD COLUMN cancelled_by TEXT CHECK (cancelled_by IN ('customer', 'restaurant')),
+  ADD COLUMN cancellation_reason TEXT CHECK (char_length(cancellation_reason) <= 500);
+
+-- Stamp every cancellation; anything not done through cancel_order comes from
+-- the restaurant's order board
+CREATE OR REPLACE FUNCTION public.set_order_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    NEW.cancelled_at := NOW();
+    NEW.cancelled_by := COALESCE(NEW.cancelled_by, 'restaurant');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_orders_cancellation BEFORE UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.set_order_cancellation();
+
+UPDATE public.orders SET cancelled_at = updated_at, cancelled_by = 'restaurant' WHERE status = 'cancelled';
+
+DROP FUNCTION public.cancel_order(UUID);
+
+CREATE FUNCTION public.cancel_order(_order_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _grace INTERVAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to cancel an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please tell us why you are cancelling'
+      USING ERRCODE = 'P0001', HINT = 'missing_reason';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id AND customer_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'P0001', HINT = 'order_not_found';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This order can no longer be cancelled'
+      USING ERRCODE = 'P0001', HINT = 'not_cancellable';
+  END IF;
+
+  IF _order.scheduled_for IS NOT NULL THEN
+    IF NOW() > _order.scheduled_for - public.scheduled_cancel_cutoff() THEN
+      RAISE EXCEPTION 'Scheduled orders can only be cancelled up to % minutes before delivery', EXTRACT(EPOCH FROM public.scheduled_cancel_cutoff()) / 60
+        USING ERRCODE = 'P0001', HINT = 'cancel_cutoff_passed';
+    END IF;
+  ELSIF _order.status <> 'pending' THEN
+    SELECT make_interval(mins => cancellation_grace_minutes) INTO _grace
+    FROM public.restaurants WHERE id = _order.restaurant_id;
+
+    IF NOW() > _order.created_at + _grace THEN
+      RAISE EXCEPTION 'The restaurant has accepted this order and it can no longer be cancelled'
+        USING ERRCODE = 'P0001', HINT = 'cancel_cutoff_passed';
+    END IF;
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'cancelled', cancelled_by = 'customer', cancellation_reason = btrim(_reason)
+  WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT) TO authenticated;
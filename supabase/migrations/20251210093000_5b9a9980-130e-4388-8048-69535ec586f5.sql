@@ -0,0 +1,223 @@
+-- Itemised order pricing. Restaurants set a delivery fee, an order size above
+-- which delivery is free and a packaging charge; GST, the rider tip and
+-- rounding to the nearest rupee are applied on top. src/lib/pricing.ts mirrors
+-- calculate_order_charges for the bill shown at checkout.
+ALTER TABLE public.restaurants
+  ADD COLUMN delivery_fee DECIMAL(10,2) NOT NULL DEFAULT 30 CHECK (delivery_fee >= 0),
+  ADD COLUMN free_delivery_threshold DECIMAL(10,2) CHECK (free_delivery_threshold > 0),
+  ADD COLUMN packaging_charge DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (packaging_charge >= 0);
+GRANT UPDATE (delivery_fee, free_delivery_threshold, packaging_charge) ON public.restaurants TO authenticated;
+
+ALTER TABLE public.orders
+  ADD COLUMN subtotal_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN delivery_fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN packaging_charge DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN tip_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN rounding_adjustment DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Orders placed before itemised pricing were charged the item subtotal only
+UPDATE public.orders SET subtotal_amount = total_amount;
+
+CREATE OR REPLACE FUNCTION public.gst_rate()
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+AS $$ SELECT 0.05::NUMERIC $$;
+
+CREATE OR REPLACE FUNCTION public.max_tip_amount()
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+AS $$ SELECT 500::NUMERIC $$;
+
+CREATE OR REPLACE FUNCTION public.calculate_order_charges(
+  _restaurant_id UUID,
+  _subtotal DECIMAL(10,2),
+  _tip_amount DECIMAL(10,2),
+  OUT delivery_fee DECIMAL(10,2),
+  OUT packaging_charge DECIMAL(10,2),
+  OUT tax_amount DECIMAL(10,2),
+  OUT tip_amount DECIMAL(10,2),
+  OUT rounding_adjustment DECIMAL(10,2),
+  OUT total_amount DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _restaurant public.restaurants%ROWTYPE;
+  _before_rounding DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _restaurant FROM public.restaurants WHERE id = _restaurant_id;
+
+  delivery_fee := CASE
+    WHEN _restaurant.free_delivery_threshold IS NOT NULL AND _subtotal >= _restaurant.free_delivery_threshold THEN 0
+    ELSE _restaurant.delivery_fee
+  END;
+  packaging_charge := _restaurant.packaging_charge;
+  tax_amount := ROUND((_subtotal + packaging_charge) * public.gst_rate(), 2);
+  tip_amount := _tip_amount;
+
+  _before_rounding := _subtotal + delivery_fee + packaging_charge + tax_amount + tip_amount;
+  total_amount := ROUND(_before_rounding);
+  rounding_adjustment := total_amount - _before_rounding;
+END;
+$$;
+
+DROP FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ);
+
+CREATE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_instructions TEXT DEFAULT NULL,
+  _scheduled_for TIMESTAMPTZ DEFAULT NULL,
+  _tip_amount DECIMAL(10,2) DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+  _address public.addresses%ROWTYPE;
+  _charges RECORD;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF COALESCE(_tip_amount, 0) < 0 OR COALESCE(_tip_amount, 0) > public.max_tip_amount() THEN
+    RAISE EXCEPTION 'Tip must be between 0 and %', public.max_tip_amount()
+      USING ERRCODE = 'P0001', HINT = 'invalid_tip';
+  END IF;
+
+  IF _address_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  SELECT * INTO _address FROM public.addresses WHERE id = _address_id AND user_id = _customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That delivery address could not be found'
+      USING ERRCODE = 'P0001', HINT = 'address_not_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  IF _scheduled_for IS NULL THEN
+    IF NOT public.is_restaurant_open(_restaurant_id) THEN
+      RAISE EXCEPTION 'This restaurant is closed right now'
+        USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+    END IF;
+  ELSE
+    IF _scheduled_for < NOW() + public.schedule_lead_time() THEN
+      RAISE EXCEPTION 'Scheduled orders must be placed at least % minutes ahead', EXTRACT(EPOCH FROM public.schedule_lead_time()) / 60
+        USING ERRCODE = 'P0001', HINT = 'invalid_schedule';
+    END IF;
+
+    IF _scheduled_for > NOW() + public.schedule_horizon() THEN
+      RAISE EXCEPTION 'Orders can be scheduled at most % days ahead', EXTRACT(DAY FROM public.schedule_horizon())
+        USING ERRCODE = 'P0001', HINT = 'invalid_schedule';
+    END IF;
+
+    IF NOT public.is_restaurant_open(_restaurant_id, _scheduled_for) THEN
+      RAISE EXCEPTION 'This restaurant is closed at the selected time'
+        USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    customer_id, restaurant_id, address_id, delivery_address, delivery_address_snapshot,
+    delivery_instructions, scheduled_for, total_amount, status
+  )
+  VALUES (
+    _customer_id, _restaurant_id, _address.id, public.format_address(_address), public.address_snapshot(_address),
+    NULLIF(btrim(_delivery_instructions), ''), _scheduled_for, 0, 'pending'
+  )
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time,
+      protein_g_at_time, carbohydrates_g_at_time, fat_g_at_time, fibre_g_at_time, sugar_g_at_time, sodium_mg_at_time,
+      health_grade_at_time
+    )
+    VALUES (
+      _order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy,
+      _menu_item.protein_g, _menu_item.carbohydrates_g, _menu_item.fat_g, _menu_item.fibre_g, _menu_item.sugar_g, _menu_item.sodium_mg,
+      _menu_item.health_grade
+    );
+
+    _total := _total + _menu_item.price * _line.quantity;
+  END LOOP;
+
+  SELECT * INTO _charges FROM public.calculate_order_charges(_restaurant_id, _total, COALESCE(_tip_amount, 0));
+
+  UPDATE public.orders
+  SET subtotal_amount = _total,
+      delivery_fee = _charges.delivery_fee,
+      packaging_charge = _charges.packaging_charge,
+      tax_amount = _charges.tax_amount,
+      tip_amount = _charges.tip_amount,
+      rounding_adjustment = _charges.rounding_adjustment,
+      total_amount = _charges.total_amount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ, DECIMAL) TO authenticated;
@@ -0,0 +1,366 @@
+-- Coupons. A promotion belongs to one restaurant, or to none when it is
+-- platform-wide; platform-wide promotions are created from the SQL editor as
+-- there is no admin role yet. The discount comes off the item total before
+-- delivery and GST are worked out. A "healthy only" promotion discounts only
+-- items graded A or B and needs at least one of them in the cart.
+CREATE TYPE public.discount_type AS ENUM ('percent', 'flat');
+
+CREATE TABLE public.promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9]{4,20}$'),
+  description TEXT,
+  discount_type public.discount_type NOT NULL,
+  discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+  -- Cap on a percentage discount
+  max_discount DECIMAL(10,2) CHECK (max_discount > 0),
+  min_order_value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_order_value >= 0),
+  per_user_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_user_limit > 0),
+  healthy_only BOOLEAN NOT NULL DEFAULT false,
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (discount_type = 'flat' OR discount_value <= 100),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX idx_promotions_restaurant_id ON public.promotions(restaurant_id);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- Customers never read promotions directly; codes are checked through
+-- preview_coupon and place_order
+CREATE POLICY "Restaurant owners can manage their promotions" ON public.promotions FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.restaurants WHERE id = promotions.restaurant_id AND owner_id = auth.uid())
+);
+
+CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON public.promotions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A promotion that has been used cannot be deleted, only switched off
+ALTER TABLE public.orders
+  ADD COLUMN promotion_id UUID REFERENCES public.promotions(id),
+  ADD COLUMN coupon_code TEXT,
+  ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_orders_promotion_id ON public.orders(promotion_id);
+
+-- Checks a coupon against the cart and returns the discount it gives. Raises
+-- with a coupon_* hint when the coupon cannot be used.
+CREATE OR REPLACE FUNCTION public.evaluate_promotion(
+  _code TEXT,
+  _restaurant_id UUID,
+  _customer_id UUID,
+  _subtotal DECIMAL(10,2),
+  _healthy_subtotal DECIMAL(10,2),
+  OUT promotion_id UUID,
+  OUT code TEXT,
+  OUT description TEXT,
+  OUT discount_amount DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions%ROWTYPE;
+  _eligible DECIMAL(10,2);
+  _times_used INTEGER;
+BEGIN
+  SELECT * INTO _promotion FROM public.promotions p
+  WHERE p.code = upper(btrim(_code)) AND p.is_active AND p.starts_at <= NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That coupon code is not valid'
+      USING ERRCODE = 'P0001', HINT = 'coupon_not_found';
+  END IF;
+
+  IF _promotion.ends_at IS NOT NULL AND _promotion.ends_at <= NOW() THEN
+    RAISE EXCEPTION 'That coupon has expired'
+      USING ERRCODE = 'P0001', HINT = 'coupon_expired';
+  END IF;
+
+  IF _promotion.restaurant_id IS NOT NULL AND _promotion.restaurant_id <> _restaurant_id THEN
+    RAISE EXCEPTION 'That coupon cannot be used at this restaurant'
+      USING ERRCODE = 'P0001', HINT = 'coupon_wrong_restaurant';
+  END IF;
+
+  IF _subtotal < _promotion.min_order_value THEN
+    RAISE EXCEPTION 'Add items worth ₹% to use this coupon', _promotion.min_order_value
+      USING ERRCODE = 'P0001', HINT = 'coupon_min_order';
+  END IF;
+
+  SELECT COUNT(*) INTO _times_used FROM public.orders o
+  WHERE o.promotion_id = _promotion.id AND o.customer_id = _customer_id AND o.status <> 'cancelled';
+
+  IF _times_used >= _promotion.per_user_limit THEN
+    RAISE EXCEPTION 'You have already used this coupon'
+      USING ERRCODE = 'P0001', HINT = 'coupon_limit_reached';
+  END IF;
+
+  _eligible := CASE WHEN _promotion.healthy_only THEN _healthy_subtotal ELSE _subtotal END;
+
+  IF _eligible <= 0 THEN
+    RAISE EXCEPTION 'This coupon only applies to healthy items (grade A or B)'
+      USING ERRCODE = 'P0001', HINT = 'coupon_no_healthy_items';
+  END IF;
+
+  discount_amount := CASE _promotion.discount_type
+    WHEN 'percent' THEN LEAST(ROUND(_eligible * _promotion.discount_value / 100, 2), COALESCE(_promotion.max_discount, _eligible))
+    ELSE LEAST(_promotion.discount_value, _eligible)
+  END;
+  promotion_id := _promotion.id;
+  code := _promotion.code;
+  description := _promotion.description;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_promotion(TEXT, UUID, UUID, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Lets checkout show the discount before the order is placed
+CREATE OR REPLACE FUNCTION public.preview_coupon(_restaurant_id UUID, _items JSONB, _code TEXT)
+RETURNS TABLE (code TEXT, description TEXT, discount_amount DECIMAL(10,2))
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subtotal DECIMAL(10,2);
+  _healthy_subtotal DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to use a coupon'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(m.price * (elem->>'quantity')::INTEGER), 0),
+    COALESCE(SUM(m.price * (elem->>'quantity')::INTEGER) FILTER (WHERE m.is_healthy), 0)
+  INTO _subtotal, _healthy_subtotal
+  FROM jsonb_array_elements(_items) AS elem
+  JOIN public.menu_items m ON m.id = (elem->>'menu_item_id')::UUID AND m.restaurant_id = _restaurant_id;
+
+  RETURN QUERY
+  SELECT p.code, p.description, p.discount_amount
+  FROM public.evaluate_promotion(_code, _restaurant_id, auth.uid(), _subtotal, _healthy_subtotal) p;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_coupon(UUID, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_coupon(UUID, JSONB, TEXT) TO authenticated;
+
+DROP FUNCTION public.calculate_order_charges(UUID, DECIMAL, DECIMAL);
+
+-- Free delivery and GST are based on the item total after the discount
+CREATE FUNCTION public.calculate_order_charges(
+  _restaurant_id UUID,
+  _subtotal DECIMAL(10,2),
+  _tip_amount DECIMAL(10,2),
+  _discount_amount DECIMAL(10,2) DEFAULT 0,
+  OUT delivery_fee DECIMAL(10,2),
+  OUT packaging_charge DECIMAL(10,2),
+  OUT tax_amount DECIMAL(10,2),
+  OUT tip_amount DECIMAL(10,2),
+  OUT rounding_adjustment DECIMAL(10,2),
+  OUT total_amount DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _restaurant public.restaurants%ROWTYPE;
+  _discounted DECIMAL(10,2) := _subtotal - _discount_amount;
+  _before_rounding DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _restaurant FROM public.restaurants WHERE id = _restaurant_id;
+
+  delivery_fee := CASE
+    WHEN _restaurant.free_delivery_threshold IS NOT NULL AND _discounted >= _restaurant.free_delivery_threshold THEN 0
+    ELSE _restaurant.delivery_fee
+  END;
+  packaging_charge := _restaurant.packaging_charge;
+  tax_amount := ROUND((_discounted + packaging_charge) * public.gst_rate(), 2);
+  tip_amount := _tip_amount;
+
+  _before_rounding := _discounted + delivery_fee + packaging_charge + tax_amount + tip_amount;
+  total_amount := ROUND(_before_rounding);
+  rounding_adjustment := total_amount - _before_rounding;
+END;
+$$;
+
+DROP FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ, DECIMAL);
+
+CREATE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_instructions TEXT DEFAULT NULL,
+  _scheduled_for TIMESTAMPTZ DEFAULT NULL,
+  _tip_amount DECIMAL(10,2) DEFAULT 0,
+  _coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _healthy_total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+  _address public.addresses%ROWTYPE;
+  _charges RECORD;
+  _promotion_id UUID;
+  _coupon TEXT;
+  _discount DECIMAL(10,2) := 0;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF COALESCE(_tip_amount, 0) < 0 OR COALESCE(_tip_amount, 0) > public.max_tip_amount() THEN
+    RAISE EXCEPTION 'Tip must be between 0 and %', public.max_tip_amount()
+      USING ERRCODE = 'P0001', HINT = 'invalid_tip';
+  END IF;
+
+  IF _address_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  SELECT * INTO _address FROM public.addresses WHERE id = _address_id AND user_id = _customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That delivery address could not be found'
+      USING ERRCODE = 'P0001', HINT = 'address_not_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  IF _scheduled_for IS NULL THEN
+    IF NOT public.is_restaurant_open(_restaurant_id) THEN
+      RAISE EXCEPTION 'This restaurant is closed right now'
+        USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+    END IF;
+  ELSE
+    IF _scheduled_for < NOW() + public.schedule_lead_time() THEN
+      RAISE EXCEPTION 'Scheduled orders must be placed at least % minutes ahead', EXTRACT(EPOCH FROM public.schedule_lead_time()) / 60
+        USING ERRCODE = 'P0001', HINT = 'invalid_schedule';
+    END IF;
+
+    IF _scheduled_for > NOW() + public.schedule_horizon() THEN
+      RAISE EXCEPTION 'Orders can be scheduled at most % days ahead', EXTRACT(DAY FROM public.schedule_horizon())
+        USING ERRCODE = 'P0001', HINT = 'invalid_schedule';
+    END IF;
+
+    IF NOT public.is_restaurant_open(_restaurant_id, _scheduled_for) THEN
+      RAISE EXCEPTION 'This restaurant is closed at the selected time'
+        USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    customer_id, restaurant_id, address_id, delivery_address, delivery_address_snapshot,
+    delivery_instructions, scheduled_for, total_amount, status
+  )
+  VALUES (
+    _customer_id, _restaurant_id, _address.id, public.format_address(_address), public.address_snapshot(_address),
+    NULLIF(btrim(_delivery_instructions), ''), _scheduled_for, 0, 'pending'
+  )
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time,
+      protein_g_at_time, carbohydrates_g_at_time, fat_g_at_time, fibre_g_at_time, sugar_g_at_time, sodium_mg_at_time,
+      health_grade_at_time
+    )
+    VALUES (
+      _order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy,
+      _menu_item.protein_g, _menu_item.carbohydrates_g, _menu_item.fat_g, _menu_item.fibre_g, _menu_item.sugar_g, _menu_item.sodium_mg,
+      _menu_item.health_grade
+    );
+
+    _total := _total + _menu_item.price * _line.quantity;
+    IF _menu_item.is_healthy THEN
+      _healthy_total := _healthy_total + _menu_item.price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF NULLIF(btrim(_coupon_code), '') IS NOT NULL THEN
+    SELECT p.promotion_id, p.code, p.discount_amount INTO _promotion_id, _coupon, _discount
+    FROM public.evaluate_promotion(_coupon_code, _restaurant_id, _customer_id, _total, _healthy_total) p;
+  END IF;
+
+  SELECT * INTO _charges
+  FROM public.calculate_order_charges(_restaurant_id, _total, COALESCE(_tip_amount, 0), _discount);
+
+  UPDATE public.orders
+  SET subtotal_amount = _total,
+      promotion_id = _promotion_id,
+      coupon_code = _coupon,
+      discount_amount = _discount,
+      delivery_fee = _charges.delivery_fee,
+      packaging_charge = _charges.packaging_charge,
+      tax_amount = _charges.tax_amount,
+      tip_amount = _charges.tip_amount,
+      rounding_adjustment = _charges.rounding_adjustment,
+      total_amount = _charges.total_amount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ, DECIMAL, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ, DECIMAL, TEXT) TO authenticated;
@@ -0,0 +1,3 @@
+-- Card and UPI orders wait in this state until their payment is captured. Added
+-- on its own because a new enum value cannot be used in the same transaction.
+ALTER TYPE public.order_status ADD VALUE 'awaiting_payment' BEFORE 'pending';
@@ -0,0 +1,400 @@
+-- Simulated online payments. Cash orders go straight to the restaurant as
+-- before; card and UPI orders start as awaiting_payment and only become pending
+-- once a payment for them is captured. Each attempt is a row in payments, so a
+-- failed payment can be retried. The payment provider runs in the browser for
+-- now and reports each step through record_payment_event; a real gateway would
+-- call it from its webhook handler instead.
+CREATE TYPE public.payment_method AS ENUM ('cod', 'card', 'upi');
+CREATE TYPE public.payment_status AS ENUM ('initiated', 'authorised', 'captured', 'failed', 'refunded');
+
+ALTER TABLE public.orders ADD COLUMN payment_method public.payment_method NOT NULL DEFAULT 'cod';
+
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  method public.payment_method NOT NULL CHECK (method <> 'cod'),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  provider TEXT NOT NULL,
+  provider_reference TEXT,
+  status public.payment_status NOT NULL DEFAULT 'initiated',
+  failure_reason TEXT,
+  authorised_at TIMESTAMPTZ,
+  captured_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id);
+
+-- An order is paid at most once
+CREATE UNIQUE INDEX payments_one_captured_per_order ON public.payments(order_id) WHERE status IN ('captured', 'refunded');
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view payments for their orders" ON public.payments FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.orders WHERE id = payments.order_id AND customer_id = auth.uid())
+);
+CREATE POLICY "Restaurant owners can view payments for their orders" ON public.payments FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o JOIN public.restaurants r ON r.id = o.restaurant_id
+    WHERE o.id = payments.order_id AND r.owner_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON public.payments FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.order_status_transitions (from_status, to_status) VALUES
+  ('awaiting_payment', 'pending'),
+  ('awaiting_payment', 'cancelled');
+
+-- Unpaid orders are not counted towards nutrition
+CREATE OR REPLACE VIEW public.customer_order_lines
+WITH (security_invoker = true) AS
+SELECT
+  o.id AS order_id,
+  o.customer_id,
+  o.created_at,
+  o.status,
+  oi.quantity,
+  oi.calories_at_time * oi.quantity AS calories,
+  oi.price_at_time * oi.quantity AS amount,
+  COALESCE(oi.health_grade_at_time IN ('A', 'B'), oi.is_healthy_at_time) AS is_healthy
+FROM public.orders o
+JOIN public.order_items oi ON oi.order_id = o.id
+WHERE o.status <> 'awaiting_payment';
+
+-- Starts a new payment attempt for an unpaid order. Attempts that never
+-- finished, such as ones that timed out, are marked failed first.
+CREATE OR REPLACE FUNCTION public.start_payment(_order_id UUID, _provider TEXT)
+RETURNS TABLE (payment_id UUID, amount DECIMAL(10,2), method public.payment_method)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _payment_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to pay'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id AND customer_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'P0001', HINT = 'order_not_found';
+  END IF;
+
+  IF _order.status <> 'awaiting_payment' THEN
+    RAISE EXCEPTION 'This order does not need paying'
+      USING ERRCODE = 'P0001', HINT = 'order_not_awaiting_payment';
+  END IF;
+
+  UPDATE public.payments p
+  SET status = 'failed', failure_reason = COALESCE(p.failure_reason, 'Abandoned')
+  WHERE p.order_id = _order_id AND p.status IN ('initiated', 'authorised');
+
+  INSERT INTO public.payments (order_id, method, amount, provider)
+  VALUES (_order_id, _order.payment_method, _order.total_amount, _provider)
+  RETURNING id INTO _payment_id;
+
+  RETURN QUERY SELECT _payment_id, _order.total_amount, _order.payment_method;
+END;
+$$;
+
+-- Moves a payment along initiated -> authorised -> captured, or to failed from
+-- either of the first two. Capturing a payment sends the order to the
+-- restaurant.
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  _payment_id UUID,
+  _status public.payment_status,
+  _provider_reference TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _order public.orders%ROWTYPE;
+BEGIN
+  SELECT p.* INTO _payment
+  FROM public.payments p JOIN public.orders o ON o.id = p.order_id
+  WHERE p.id = _payment_id AND o.customer_id = auth.uid()
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found'
+      USING ERRCODE = 'P0001', HINT = 'payment_not_found';
+  END IF;
+
+  IF NOT (
+    (_payment.status = 'initiated' AND _status IN ('authorised', 'failed'))
+    OR (_payment.status = 'authorised' AND _status IN ('captured', 'failed'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change payment status from % to %', _payment.status, _status
+      USING ERRCODE = 'P0001', HINT = 'invalid_payment_transition';
+  END IF;
+
+  IF _status = 'captured' THEN
+    SELECT * INTO _order FROM public.orders WHERE id = _payment.order_id FOR UPDATE;
+
+    IF _order.status <> 'awaiting_payment' THEN
+      RAISE EXCEPTION 'This order does not need paying'
+        USING ERRCODE = 'P0001', HINT = 'order_not_awaiting_payment';
+    END IF;
+  END IF;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_reference = COALESCE(_provider_reference, provider_reference),
+      failure_reason = CASE WHEN _status = 'failed' THEN NULLIF(btrim(_failure_reason), '') END,
+      authorised_at = CASE WHEN _status = 'authorised' THEN NOW() ELSE authorised_at END,
+      captured_at = CASE WHEN _status = 'captured' THEN NOW() ELSE captured_at END
+  WHERE id = _payment_id;
+
+  IF _status = 'captured' THEN
+    UPDATE public.orders SET status = 'pending' WHERE id = _payment.order_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_payment(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_payment(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_payment_event(UUID, public.payment_status, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_payment_event(UUID, public.payment_status, TEXT, TEXT) TO authenticated;
+
+-- Unpaid orders can always be cancelled
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _grace INTERVAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to cancel an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please tell us why you are cancelling'
+      USING ERRCODE = 'P0001', HINT = 'missing_reason';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id AND customer_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'P0001', HINT = 'order_not_found';
+  END IF;
+
+  IF _order.status NOT IN ('awaiting_payment', 'pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This order can no longer be cancelled'
+      USING ERRCODE = 'P0001', HINT = 'not_cancellable';
+  END IF;
+
+  IF _order.status = 'awaiting_payment' THEN
+    NULL;
+  ELSIF _order.scheduled_for IS NOT NULL THEN
+    IF NOW() > _order.scheduled_for - public.scheduled_cancel_cutoff() THEN
+      RAISE EXCEPTION 'Scheduled orders can only be cancelled up to % minutes before delivery', EXTRACT(EPOCH FROM public.scheduled_cancel_cutoff()) / 60
+        USING ERRCODE = 'P0001', HINT = 'cancel_cutoff_passed';
+    END IF;
+  ELSIF _order.status <> 'pending' THEN
+    SELECT make_interval(mins => cancellation_grace_minutes) INTO _grace
+    FROM public.restaurants WHERE id = _order.restaurant_id;
+
+    IF NOW() > _order.created_at + _grace THEN
+      RAISE EXCEPTION 'The restaurant has accepted this order and it can no longer be cancelled'
+        USING ERRCODE = 'P0001', HINT = 'cancel_cutoff_passed';
+    END IF;
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'cancelled', cancelled_by = 'customer', cancellation_reason = btrim(_reason)
+  WHERE id = _order_id;
+END;
+$$;
+
+DROP FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ, DECIMAL, TEXT);
+
+CREATE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_instructions TEXT DEFAULT NULL,
+  _scheduled_for TIMESTAMPTZ DEFAULT NULL,
+  _tip_amount DECIMAL(10,2) DEFAULT 0,
+  _coupon_code TEXT DEFAULT NULL,
+  _payment_method public.payment_method DEFAULT 'cod'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID := auth.uid();
+  _order_id UUID;
+  _total DECIMAL(10,2) := 0;
+  _healthy_total DECIMAL(10,2) := 0;
+  _line RECORD;
+  _menu_item public.menu_items%ROWTYPE;
+  _address public.addresses%ROWTYPE;
+  _charges RECORD;
+  _promotion_id UUID;
+  _coupon TEXT;
+  _discount DECIMAL(10,2) := 0;
+BEGIN
+  IF _customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_customer_id, 'customer') THEN
+    RAISE EXCEPTION 'Only customers can place orders'
+      USING ERRCODE = 'P0001', HINT = 'not_customer';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty'
+      USING ERRCODE = 'P0001', HINT = 'empty_cart';
+  END IF;
+
+  IF COALESCE(_tip_amount, 0) < 0 OR COALESCE(_tip_amount, 0) > public.max_tip_amount() THEN
+    RAISE EXCEPTION 'Tip must be between 0 and %', public.max_tip_amount()
+      USING ERRCODE = 'P0001', HINT = 'invalid_tip';
+  END IF;
+
+  IF _address_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery address'
+      USING ERRCODE = 'P0001', HINT = 'missing_address';
+  END IF;
+
+  SELECT * INTO _address FROM public.addresses WHERE id = _address_id AND user_id = _customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That delivery address could not be found'
+      USING ERRCODE = 'P0001', HINT = 'address_not_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not accepting orders'
+      USING ERRCODE = 'P0001', HINT = 'restaurant_unavailable';
+  END IF;
+
+  IF _scheduled_for IS NULL THEN
+    IF NOT public.is_restaurant_open(_restaurant_id) THEN
+      RAISE EXCEPTION 'This restaurant is closed right now'
+        USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+    END IF;
+  ELSE
+    IF _scheduled_for < NOW() + public.schedule_lead_time() THEN
+      RAISE EXCEPTION 'Scheduled orders must be placed at least % minutes ahead', EXTRACT(EPOCH FROM public.schedule_lead_time()) / 60
+        USING ERRCODE = 'P0001', HINT = 'invalid_schedule';
+    END IF;
+
+    IF _scheduled_for > NOW() + public.schedule_horizon() THEN
+      RAISE EXCEPTION 'Orders can be scheduled at most % days ahead', EXTRACT(DAY FROM public.schedule_horizon())
+        USING ERRCODE = 'P0001', HINT = 'invalid_schedule';
+    END IF;
+
+    IF NOT public.is_restaurant_open(_restaurant_id, _scheduled_for) THEN
+      RAISE EXCEPTION 'This restaurant is closed at the selected time'
+        USING ERRCODE = 'P0001', HINT = 'restaurant_closed';
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    customer_id, restaurant_id, address_id, delivery_address, delivery_address_snapshot,
+    delivery_instructions, scheduled_for, total_amount, payment_method, status
+  )
+  VALUES (
+    _customer_id, _restaurant_id, _address.id, public.format_address(_address), public.address_snapshot(_address),
+    NULLIF(btrim(_delivery_instructions), ''), _scheduled_for, 0, COALESCE(_payment_method, 'cod'),
+    CASE WHEN COALESCE(_payment_method, 'cod') = 'cod' THEN 'pending' ELSE 'awaiting_payment' END::public.order_status
+  )
+  RETURNING id INTO _order_id;
+
+  -- Duplicate lines for the same item are merged before validation
+  FOR _line IN
+    SELECT (elem->>'menu_item_id')::UUID AS menu_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS elem
+    GROUP BY 1
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1'
+        USING ERRCODE = 'P0001', HINT = 'invalid_quantity', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists'
+        USING ERRCODE = 'P0001', HINT = 'item_not_found', DETAIL = _line.menu_item_id::TEXT;
+    END IF;
+
+    IF _menu_item.restaurant_id <> _restaurant_id THEN
+      RAISE EXCEPTION '% is from a different restaurant', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_wrong_restaurant', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.name
+        USING ERRCODE = 'P0001', HINT = 'item_unavailable', DETAIL = _menu_item.id::TEXT;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id, menu_item_id, quantity, price_at_time, calories_at_time, is_healthy_at_time,
+      protein_g_at_time, carbohydrates_g_at_time, fat_g_at_time, fibre_g_at_time, sugar_g_at_time, sodium_mg_at_time,
+      health_grade_at_time
+    )
+    VALUES (
+      _order_id, _menu_item.id, _line.quantity, _menu_item.price, _menu_item.calories, _menu_item.is_healthy,
+      _menu_item.protein_g, _menu_item.carbohydrates_g, _menu_item.fat_g, _menu_item.fibre_g, _menu_item.sugar_g, _menu_item.sodium_mg,
+      _menu_item.health_grade
+    );
+
+    _total := _total + _menu_item.price * _line.quantity;
+    IF _menu_item.is_healthy THEN
+      _healthy_total := _healthy_total + _menu_item.price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF NULLIF(btrim(_coupon_code), '') IS NOT NULL THEN
+    SELECT p.promotion_id, p.code, p.discount_amount INTO _promotion_id, _coupon, _discount
+    FROM public.evaluate_promotion(_coupon_code, _restaurant_id, _customer_id, _total, _healthy_total) p;
+  END IF;
+
+  SELECT * INTO _charges
+  FROM public.calculate_order_charges(_restaurant_id, _total, COALESCE(_tip_amount, 0), _discount);
+
+  UPDATE public.orders
+  SET subtotal_amount = _total,
+      promotion_id = _promotion_id,
+      coupon_code = _coupon,
+      discount_amount = _discount,
+      delivery_fee = _charges.delivery_fee,
+      packaging_charge = _charges.packaging_charge,
+      tax_amount = _charges.tax_amount,
+      tip_amount = _charges.tip_amount,
+      rounding_adjustment = _charges.rounding_adjustment,
+      total_amount = _charges.total_amount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ, DECIMAL, TEXT, public.payment_method) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TIMESTAMPTZ, DECIMAL, TEXT, public.payment_method) TO authenticated;
@@ -0,0 +1,3 @@
+-- Platform staff who can act on any order, e.g. to issue refunds. Added on its
+-- own because a new enum value cannot be used in the same transaction.
+ALTER TYPE public.app_role ADD VALUE 'admin';
@@ -0,0 +1,277 @@
+-- Refunds. Restaurant owners refund their own orders and admins any order,
+-- either in full or for some of the items. Refunds of card and UPI orders are
+-- sent back through the payment provider: create_refund records a pending
+-- refund and complete_refund reports the provider's answer. Cash orders are
+-- settled by hand, so their refunds are processed straight away.
+CREATE TYPE public.refund_status AS ENUM ('pending', 'processed', 'failed');
+
+CREATE TABLE public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- NULL for cash orders
+  payment_id UUID REFERENCES public.payments(id),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  is_full BOOLEAN NOT NULL,
+  status public.refund_status NOT NULL DEFAULT 'pending',
+  provider_reference TEXT,
+  failure_reason TEXT,
+  issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_refunds_order_id ON public.refunds(order_id);
+
+-- One refund is handled at a time per order
+CREATE UNIQUE INDEX refunds_one_pending_per_order ON public.refunds(order_id) WHERE status = 'pending';
+
+CREATE TABLE public.refund_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id UUID NOT NULL REFERENCES public.refunds(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  UNIQUE (refund_id, order_item_id)
+);
+
+-- Running totals of processed refunds, so readers do not have to add them up
+ALTER TABLE public.orders ADD COLUMN refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.order_items ADD COLUMN refunded_quantity INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.order_items ADD CONSTRAINT order_items_refunded_quantity_check CHECK (refunded_quantity BETWEEN 0 AND quantity);
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view refunds of their orders" ON public.refunds FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = refunds.order_id
+      AND (customer_id = auth.uid() OR restaurant_id IN (SELECT id FROM public.restaurants WHERE owner_id = auth.uid()))
+  )
+);
+CREATE POLICY "Admins can view all refunds" ON public.refunds FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view refunded items of their orders" ON public.refund_items FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.refunds WHERE id = refund_items.refund_id)
+);
+
+-- Admins look orders up to refund them
+CREATE POLICY "Admins can view all orders" ON public.orders FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can view all order items" ON public.order_items FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can view all menu items" ON public.menu_items FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can view all restaurants" ON public.restaurants FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can view all payments" ON public.payments FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Refunded items no longer count towards nutrition or spend
+CREATE OR REPLACE VIEW public.customer_order_lines
+WITH (security_invoker = true) AS
+SELECT
+  o.id AS order_id,
+  o.customer_id,
+  o.created_at,
+  o.status,
+  oi.quantity - oi.refunded_quantity AS quantity,
+  oi.calories_at_time * (oi.quantity - oi.refunded_quantity) AS calories,
+  oi.price_at_time * (oi.quantity - oi.refunded_quantity) AS amount,
+  COALESCE(oi.health_grade_at_time IN ('A', 'B'), oi.is_healthy_at_time) AS is_healthy
+FROM public.orders o
+JOIN public.order_items oi ON oi.order_id = o.id
+WHERE o.status <> 'awaiting_payment';
+
+-- Marks a refund processed and updates the order, its items and payment
+CREATE OR REPLACE FUNCTION public.apply_refund(_refund_id UUID, _provider_reference TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _refund public.refunds%ROWTYPE;
+  _order public.orders%ROWTYPE;
+BEGIN
+  UPDATE public.refunds
+  SET status = 'processed', processed_at = NOW(), provider_reference = _provider_reference
+  WHERE id = _refund_id
+  RETURNING * INTO _refund;
+
+  UPDATE public.order_items oi
+  SET refunded_quantity = oi.refunded_quantity + ri.quantity
+  FROM public.refund_items ri
+  WHERE ri.refund_id = _refund_id AND ri.order_item_id = oi.id;
+
+  UPDATE public.orders
+  SET refunded_amount = refunded_amount + _refund.amount
+  WHERE id = _refund.order_id
+  RETURNING * INTO _order;
+
+  IF _refund.payment_id IS NOT NULL AND _order.refunded_amount >= _order.total_amount THEN
+    UPDATE public.payments SET status = 'refunded' WHERE id = _refund.payment_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_refund(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Owners can refund orders placed with their restaurant, admins any order
+CREATE OR REPLACE FUNCTION public.can_refund_order(_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.orders o JOIN public.restaurants r ON r.id = o.restaurant_id
+    WHERE o.id = _order_id AND r.owner_id = auth.uid()
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_refund_order(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Starts a refund. _items lists {order_item_id, quantity} to refund; NULL
+-- refunds whatever is left of the order. Item refunds are worth the price
+-- paid for them, up to what is left of the order total.
+CREATE OR REPLACE FUNCTION public.create_refund(_order_id UUID, _reason TEXT, _items JSONB DEFAULT NULL)
+RETURNS TABLE (refund_id UUID, amount DECIMAL(10,2), status public.refund_status, payment_reference TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _payment public.payments%ROWTYPE;
+  _remaining DECIMAL(10,2);
+  _amount DECIMAL(10,2) := 0;
+  _refund_id UUID;
+  _line RECORD;
+  _item public.order_items%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.can_refund_order(_order_id) THEN
+    RAISE EXCEPTION 'You cannot refund this order'
+      USING ERRCODE = 'P0001', HINT = 'not_allowed';
+  END IF;
+
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the refund'
+      USING ERRCODE = 'P0001', HINT = 'missing_reason';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF _order.payment_method = 'cod' THEN
+    IF _order.status <> 'delivered' THEN
+      RAISE EXCEPTION 'Cash orders can only be refunded once they have been paid for on delivery'
+        USING ERRCODE = 'P0001', HINT = 'nothing_to_refund';
+    END IF;
+  ELSE
+    SELECT * INTO _payment FROM public.payments p
+    WHERE p.order_id = _order_id AND p.status IN ('captured', 'refunded');
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This order has not been paid for'
+        USING ERRCODE = 'P0001', HINT = 'nothing_to_refund';
+    END IF;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.refunds r WHERE r.order_id = _order_id AND r.status = 'pending') THEN
+    RAISE EXCEPTION 'A refund for this order is still being processed'
+      USING ERRCODE = 'P0001', HINT = 'refund_in_progress';
+  END IF;
+
+  _remaining := _order.total_amount - _order.refunded_amount;
+
+  IF _remaining <= 0 THEN
+    RAISE EXCEPTION 'This order has already been refunded in full'
+      USING ERRCODE = 'P0001', HINT = 'nothing_to_refund';
+  END IF;
+
+  INSERT INTO public.refunds (order_id, payment_id, amount, reason, is_full, issued_by)
+  VALUES (_order_id, _payment.id, _remaining, btrim(_reason), _items IS NULL, auth.uid())
+  RETURNING id INTO _refund_id;
+
+  IF _items IS NULL THEN
+    INSERT INTO public.refund_items (refund_id, order_item_id, quantity)
+    SELECT _refund_id, oi.id, oi.quantity - oi.refunded_quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id AND oi.quantity > oi.refunded_quantity;
+
+    _amount := _remaining;
+  ELSE
+    IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+      RAISE EXCEPTION 'Choose at least one item to refund'
+        USING ERRCODE = 'P0001', HINT = 'invalid_refund_items';
+    END IF;
+
+    FOR _line IN
+      SELECT (elem->>'order_item_id')::UUID AS order_item_id, SUM((elem->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(_items) AS elem
+      GROUP BY 1
+    LOOP
+      SELECT * INTO _item FROM public.order_items oi WHERE oi.id = _line.order_item_id AND oi.order_id = _order_id;
+
+      IF NOT FOUND OR _line.quantity IS NULL OR _line.quantity <= 0
+        OR _line.quantity > _item.quantity - _item.refunded_quantity THEN
+        RAISE EXCEPTION 'Choose how many of each item to refund, up to the number not yet refunded'
+          USING ERRCODE = 'P0001', HINT = 'invalid_refund_items', DETAIL = _line.order_item_id::TEXT;
+      END IF;
+
+      INSERT INTO public.refund_items (refund_id, order_item_id, quantity)
+      VALUES (_refund_id, _item.id, _line.quantity);
+
+      _amount := _amount + _item.price_at_time * _line.quantity;
+    END LOOP;
+
+    _amount := LEAST(_amount, _remaining);
+    UPDATE public.refunds r SET amount = _amount WHERE r.id = _refund_id;
+  END IF;
+
+  IF _payment.id IS NULL THEN
+    PERFORM public.apply_refund(_refund_id);
+    RETURN QUERY SELECT _refund_id, _amount, 'processed'::public.refund_status, NULL::TEXT;
+  ELSE
+    RETURN QUERY SELECT _refund_id, _amount, 'pending'::public.refund_status, _payment.provider_reference;
+  END IF;
+END;
+$$;
+
+-- Records the payment provider's answer to a pending refund
+CREATE OR REPLACE FUNCTION public.complete_refund(
+  _refund_id UUID,
+  _succeeded BOOLEAN,
+  _provider_reference TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _refund public.refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO _refund FROM public.refunds WHERE id = _refund_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() IS NULL OR NOT public.can_refund_order(_refund.order_id) THEN
+    RAISE EXCEPTION 'Refund not found'
+      USING ERRCODE = 'P0001', HINT = 'refund_not_found';
+  END IF;
+
+  IF _refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'This refund has already been completed'
+      USING ERRCODE = 'P0001', HINT = 'refund_not_pending';
+  END IF;
+
+  IF _succeeded THEN
+    PERFORM public.apply_refund(_refund_id, _provider_reference);
+  ELSE
+    UPDATE public.refunds
+    SET status = 'failed', failure_reason = NULLIF(btrim(_failure_reason), '')
+    WHERE id = _refund_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_refund(UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_refund(UUID, TEXT, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_refund(UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_refund(UUID, BOOLEAN, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,9 @@
+-- Seller details printed on customer invoices. Both are optional; invoices of
+-- restaurants without a GSTIN are issued as plain receipts.
+ALTER TABLE public.restaurants ADD COLUMN gstin TEXT;
+ALTER TABLE public.restaurants ADD COLUMN address TEXT;
+GRANT UPDATE (gstin, address) ON public.restaurants TO authenticated;
+
+-- 2-digit state code, 10-character PAN, entity number, 'Z' and a check character
+ALTER TABLE public.restaurants ADD CONSTRAINT restaurants_gstin_check
+  CHECK (gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$');
@@ -0,0 +1,154 @@
+-- Meals eaten outside FoodWise, logged by hand so nutrition totals reflect
+-- everything the user ate. Only calories are required.
+CREATE TABLE public.meal_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  calories INTEGER NOT NULL CHECK (calories BETWEEN 0 AND 10000),
+  protein_g DECIMAL(6,1) CHECK (protein_g >= 0),
+  carbohydrates_g DECIMAL(6,1) CHECK (carbohydrates_g >= 0),
+  fat_g DECIMAL(6,1) CHECK (fat_g >= 0),
+  is_healthy BOOLEAN NOT NULL DEFAULT false,
+  eaten_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_meal_logs_user_eaten_at ON public.meal_logs(user_id, eaten_at);
+
+CREATE TRIGGER update_meal_logs_updated_at BEFORE UPDATE ON public.meal_logs FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.meal_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own meal logs" ON public.meal_logs FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Logged meals count towards calories, reported separately as logged_calories.
+-- They have no price, so spend and order counts are unchanged.
+DROP FUNCTION public.nutrition_trends(DATE, DATE, TEXT, TEXT);
+DROP FUNCTION public.nutrition_totals(TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE FUNCTION public.nutrition_trends(
+  _from DATE,
+  _to DATE,
+  _bucket TEXT DEFAULT 'day',
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  period_start DATE,
+  order_count INTEGER,
+  calories BIGINT,
+  logged_calories BIGINT,
+  healthy_spend NUMERIC,
+  junk_spend NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in' USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unsupported period %', _bucket USING ERRCODE = 'P0001', HINT = 'invalid_bucket';
+  END IF;
+
+  IF _from IS NULL OR _to IS NULL OR _to < _from THEN
+    RAISE EXCEPTION 'The start date must be on or before the end date' USING ERRCODE = 'P0001', HINT = 'invalid_range';
+  END IF;
+
+  IF _to - _from > 366 THEN
+    RAISE EXCEPTION 'Choose a range of one year or less' USING ERRCODE = 'P0001', HINT = 'range_too_large';
+  END IF;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT generate_series(
+      date_trunc(_bucket, _from::TIMESTAMP),
+      date_trunc(_bucket, _to::TIMESTAMP),
+      ('1 ' || _bucket)::INTERVAL
+    )::DATE AS period_start
+  ),
+  lines AS (
+    SELECT
+      date_trunc(_bucket, l.created_at AT TIME ZONE _time_zone)::DATE AS period_start,
+      l.order_id,
+      l.calories,
+      l.amount,
+      l.is_healthy
+    FROM public.customer_order_lines l
+    WHERE l.customer_id = auth.uid()
+      AND l.status <> 'cancelled'
+      AND (l.created_at AT TIME ZONE _time_zone)::DATE BETWEEN _from AND _to
+  ),
+  order_periods AS (
+    SELECT
+      l.period_start,
+      COUNT(DISTINCT l.order_id)::INTEGER AS order_count,
+      SUM(l.calories) AS calories,
+      SUM(l.amount) FILTER (WHERE l.is_healthy) AS healthy_spend,
+      SUM(l.amount) FILTER (WHERE NOT l.is_healthy) AS junk_spend
+    FROM lines l
+    GROUP BY l.period_start
+  ),
+  logged_periods AS (
+    SELECT
+      date_trunc(_bucket, m.eaten_at AT TIME ZONE _time_zone)::DATE AS period_start,
+      SUM(m.calories) AS calories
+    FROM public.meal_logs m
+    WHERE m.user_id = auth.uid()
+      AND (m.eaten_at AT TIME ZONE _time_zone)::DATE BETWEEN _from AND _to
+    GROUP BY 1
+  )
+  SELECT
+    p.period_start,
+    COALESCE(o.order_count, 0),
+    (COALESCE(o.calories, 0) + COALESCE(m.calories, 0))::BIGINT,
+    COALESCE(m.calories, 0)::BIGINT,
+    COALESCE(o.healthy_spend, 0),
+    COALESCE(o.junk_spend, 0)
+  FROM periods p
+  LEFT JOIN order_periods o ON o.period_start = p.period_start
+  LEFT JOIN logged_periods m ON m.period_start = p.period_start
+  ORDER BY p.period_start;
+END;
+$$;
+
+CREATE FUNCTION public.nutrition_totals(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  order_count INTEGER,
+  calories BIGINT,
+  logged_calories BIGINT,
+  healthy_spend NUMERIC,
+  junk_spend NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH logged AS (
+    SELECT COALESCE(SUM(m.calories), 0) AS calories
+    FROM public.meal_logs m
+    WHERE m.user_id = auth.uid()
+      AND m.eaten_at >= _from
+      AND m.eaten_at < _to
+  )
+  SELECT
+    COUNT(DISTINCT l.order_id)::INTEGER,
+    (COALESCE(SUM(l.calories), 0) + (SELECT calories FROM logged))::BIGINT,
+    (SELECT calories FROM logged)::BIGINT,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.is_healthy), 0),
+    COALESCE(SUM(l.amount) FILTER (WHERE NOT l.is_healthy), 0)
+  FROM public.customer_order_lines l
+  WHERE l.customer_id = auth.uid()
+    AND l.status <> 'cancelled'
+    AND l.created_at >= _from
+    AND l.created_at < _to
+$$;
+
+GRANT EXECUTE ON FUNCTION public.nutrition_trends(DATE, DATE, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.nutrition_totals(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,44 @@
+-- Replaces a restaurant's weekly opening hours in one transaction. Deleting and
+-- re-inserting from the client left the restaurant with no hours in between,
+-- and is_restaurant_open treats that as always open.
+CREATE OR REPLACE FUNCTION public.set_opening_hours(_restaurant_id UUID, _slots JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Restaurant not found'
+      USING ERRCODE = 'P0001', HINT = 'not_owner';
+  END IF;
+
+  IF _slots IS NULL OR jsonb_typeof(_slots) <> 'array' THEN
+    RAISE EXCEPTION 'Opening hours must be a list of slots'
+      USING ERRCODE = 'P0001', HINT = 'invalid_slots';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_slots) AS elem
+    WHERE jsonb_typeof(elem) <> 'object'
+      OR (elem->>'day_of_week') !~ '^[0-6]$'
+      OR (elem->>'opens_at') !~ '^([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$'
+      OR (elem->>'closes_at') !~ '^([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$'
+  ) THEN
+    RAISE EXCEPTION 'Enter an opening and closing time for every slot'
+      USING ERRCODE = 'P0001', HINT = 'invalid_slots';
+  END IF;
+
+  DELETE FROM public.restaurant_opening_hours WHERE restaurant_id = _restaurant_id;
+
+  INSERT INTO public.restaurant_opening_hours (restaurant_id, day_of_week, opens_at, closes_at)
+  SELECT _restaurant_id, (elem->>'day_of_week')::SMALLINT, (elem->>'opens_at')::TIME, (elem->>'closes_at')::TIME
+  FROM jsonb_array_elements(_slots) AS elem;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_opening_hours(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_opening_hours(UUID, JSONB) TO authenticated;
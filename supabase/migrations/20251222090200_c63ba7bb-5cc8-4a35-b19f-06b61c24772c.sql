@@ -0,0 +1,138 @@
+-- Capturing a payment is what sends an order to the restaurant, so it must not
+-- be something a customer can report for themselves. Customers still record
+-- authorisations and failures; captures come from the capture-payment edge
+-- function, which runs with the service role and asks the gateway first.
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  _payment_id UUID,
+  _status public.payment_status,
+  _provider_reference TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+BEGIN
+  SELECT p.* INTO _payment
+  FROM public.payments p JOIN public.orders o ON o.id = p.order_id
+  WHERE p.id = _payment_id AND o.customer_id = auth.uid()
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found'
+      USING ERRCODE = 'P0001', HINT = 'payment_not_found';
+  END IF;
+
+  IF NOT (
+    (_payment.status = 'initiated' AND _status IN ('authorised', 'failed'))
+    OR (_payment.status = 'authorised' AND _status = 'failed')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change payment status from % to %', _payment.status, _status
+      USING ERRCODE = 'P0001', HINT = 'invalid_payment_transition';
+  END IF;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_reference = COALESCE(_provider_reference, provider_reference),
+      failure_reason = CASE WHEN _status = 'failed' THEN NULLIF(btrim(_failure_reason), '') END,
+      authorised_at = CASE WHEN _status = 'authorised' THEN NOW() ELSE authorised_at END
+  WHERE id = _payment_id;
+END;
+$$;
+
+-- Marks an authorised payment captured and sends its order to the restaurant
+CREATE OR REPLACE FUNCTION public.capture_payment(_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found'
+      USING ERRCODE = 'P0001', HINT = 'payment_not_found';
+  END IF;
+
+  IF _payment.status <> 'authorised' THEN
+    RAISE EXCEPTION 'Cannot change payment status from % to captured', _payment.status
+      USING ERRCODE = 'P0001', HINT = 'invalid_payment_transition';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _payment.order_id FOR UPDATE;
+
+  IF _order.status <> 'awaiting_payment' THEN
+    RAISE EXCEPTION 'This order does not need paying'
+      USING ERRCODE = 'P0001', HINT = 'order_not_awaiting_payment';
+  END IF;
+
+  UPDATE public.payments SET status = 'captured', captured_at = NOW() WHERE id = _payment_id;
+  UPDATE public.orders SET status = 'pending' WHERE id = _payment.order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.capture_payment(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.capture_payment(UUID) TO service_role;
+
+-- Cancelling an order that was paid online, by the customer or the restaurant,
+-- opens a full refund. It stays pending until the owner sends it back through
+-- the payment provider from their order history.
+CREATE OR REPLACE FUNCTION public.refund_cancelled_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _refund_id UUID;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE order_id = NEW.id AND status = 'captured';
+
+  IF NOT FOUND
+    OR NEW.total_amount - NEW.refunded_amount <= 0
+    OR EXISTS (SELECT 1 FROM public.refunds WHERE order_id = NEW.id AND status = 'pending') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.refunds (order_id, payment_id, amount, reason, is_full, issued_by)
+  VALUES (NEW.id, _payment.id, NEW.total_amount - NEW.refunded_amount, 'Order cancelled', true, auth.uid())
+  RETURNING id INTO _refund_id;
+
+  INSERT INTO public.refund_items (refund_id, order_item_id, quantity)
+  SELECT _refund_id, oi.id, oi.quantity - oi.refunded_quantity
+  FROM public.order_items oi
+  WHERE oi.order_id = NEW.id AND oi.quantity > oi.refunded_quantity;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refund_cancelled_order AFTER UPDATE OF status ON public.orders
+FOR EACH ROW WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+EXECUTE FUNCTION public.refund_cancelled_order();
+
+-- Orders cancelled before this change that were paid and never refunded
+INSERT INTO public.refunds (order_id, payment_id, amount, reason, is_full)
+SELECT o.id, p.id, o.total_amount - o.refunded_amount, 'Order cancelled', true
+FROM public.orders o
+JOIN public.payments p ON p.order_id = o.id AND p.status = 'captured'
+WHERE o.status = 'cancelled'
+  AND o.total_amount > o.refunded_amount
+  AND NOT EXISTS (SELECT 1 FROM public.refunds r WHERE r.order_id = o.id AND r.status = 'pending');
+
+INSERT INTO public.refund_items (refund_id, order_item_id, quantity)
+SELECT r.id, oi.id, oi.quantity - oi.refunded_quantity
+FROM public.refunds r
+JOIN public.order_items oi ON oi.order_id = r.order_id
+WHERE r.reason = 'Order cancelled'
+  AND r.status = 'pending'
+  AND oi.quantity > oi.refunded_quantity
+  AND NOT EXISTS (SELECT 1 FROM public.refund_items ri WHERE ri.refund_id = r.id);
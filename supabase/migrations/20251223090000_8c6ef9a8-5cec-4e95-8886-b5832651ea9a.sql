@@ -0,0 +1,6 @@
+-- Owners move their orders along the status board directly, but every other
+-- orders column (prices, refunded_amount, payment and cancellation details)
+-- is only written by the SECURITY DEFINER RPCs and triggers. Without this an
+-- owner could reset refunded_amount or raise total_amount and refund again.
+REVOKE INSERT, UPDATE ON public.orders FROM authenticated, anon;
+GRANT UPDATE (status) ON public.orders TO authenticated;
@@ -0,0 +1,80 @@
+-- Dishes missing sugar, sodium or fat are no longer scored as if those were
+-- zero, which graded them on calories alone and let a 600 kcal dish with
+-- nothing else filled in count as healthy. They are left ungraded and never
+-- count as healthy. Missing protein or fibre still scores no points, which can
+-- only make a grade worse. Keep in sync with src/lib/health-score.ts.
+ALTER TABLE public.menu_items
+  ALTER COLUMN health_score DROP NOT NULL,
+  ALTER COLUMN health_score DROP DEFAULT,
+  ALTER COLUMN health_grade DROP NOT NULL,
+  ALTER COLUMN health_grade DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION public.compute_health_score(
+  _calories INTEGER,
+  _sugar_g NUMERIC,
+  _sodium_mg NUMERIC,
+  _fat_g NUMERIC,
+  _protein_g NUMERIC,
+  _fibre_g NUMERIC
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _negative INTEGER;
+  _protein INTEGER;
+  _fibre INTEGER;
+BEGIN
+  IF _calories IS NULL OR _sugar_g IS NULL OR _sodium_mg IS NULL OR _fat_g IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _negative :=
+    public.health_points(_calories, ARRAY[200, 300, 400, 500, 600, 700, 800, 900, 1000, 1100])
+    + public.health_points(_sugar_g, ARRAY[5, 10, 15, 20, 25, 30, 35, 40, 45, 50])
+    + public.health_points(_sodium_mg, ARRAY[200, 400, 600, 800, 1000, 1200, 1400, 1600, 1800, 2000])
+    + public.health_points(_fat_g, ARRAY[5, 10, 15, 20, 25, 30, 35, 40, 45, 50]);
+  _protein := public.health_points(_protein_g, ARRAY[5, 10, 15, 20, 25]);
+  _fibre := public.health_points(_fibre_g, ARRAY[2, 4, 6, 8, 10]);
+
+  -- As in Nutri-Score, protein cannot offset a heavily penalised dish
+  IF _negative >= 11 THEN
+    _protein := 0;
+  END IF;
+
+  RETURN _negative - _protein - _fibre;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.health_grade_for_score(_score INTEGER)
+RETURNS public.health_grade
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT (CASE
+    WHEN _score IS NULL THEN NULL
+    WHEN _score <= 0 THEN 'A'
+    WHEN _score <= 5 THEN 'B'
+    WHEN _score <= 11 THEN 'C'
+    WHEN _score <= 17 THEN 'D'
+    ELSE 'E'
+  END)::public.health_grade
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_menu_item_health_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.health_score := public.compute_health_score(NEW.calories, NEW.sugar_g, NEW.sodium_mg, NEW.fat_g, NEW.protein_g, NEW.fibre_g);
+  NEW.health_grade := public.health_grade_for_score(NEW.health_score);
+  NEW.is_healthy := COALESCE(NEW.health_grade IN ('A', 'B'), false);
+  RETURN NEW;
+END;
+$$;
+
+-- Regrade existing menu items
+UPDATE public.menu_items SET health_score = NULL;
@@ -0,0 +1,76 @@
+-- Two place_order calls with the same coupon could both count no earlier uses
+-- and both get the discount. evaluate_promotion now takes a per-customer,
+-- per-promotion lock before counting. It is volatile so the count runs on a
+-- fresh snapshot taken after the lock, and sees an order the other call
+-- committed.
+CREATE OR REPLACE FUNCTION public.evaluate_promotion(
+  _code TEXT,
+  _restaurant_id UUID,
+  _customer_id UUID,
+  _subtotal DECIMAL(10,2),
+  _healthy_subtotal DECIMAL(10,2),
+  OUT promotion_id UUID,
+  OUT code TEXT,
+  OUT description TEXT,
+  OUT discount_amount DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions%ROWTYPE;
+  _eligible DECIMAL(10,2);
+  _times_used INTEGER;
+BEGIN
+  SELECT * INTO _promotion FROM public.promotions p
+  WHERE p.code = upper(btrim(_code)) AND p.is_active AND p.starts_at <= NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That coupon code is not valid'
+      USING ERRCODE = 'P0001', HINT = 'coupon_not_found';
+  END IF;
+
+  IF _promotion.ends_at IS NOT NULL AND _promotion.ends_at <= NOW() THEN
+    RAISE EXCEPTION 'That coupon has expired'
+      USING ERRCODE = 'P0001', HINT = 'coupon_expired';
+  END IF;
+
+  IF _promotion.restaurant_id IS NOT NULL AND _promotion.restaurant_id <> _restaurant_id THEN
+    RAISE EXCEPTION 'That coupon cannot be used at this restaurant'
+      USING ERRCODE = 'P0001', HINT = 'coupon_wrong_restaurant';
+  END IF;
+
+  IF _subtotal < _promotion.min_order_value THEN
+    RAISE EXCEPTION 'Add items worth ₹% to use this coupon', _promotion.min_order_value
+      USING ERRCODE = 'P0001', HINT = 'coupon_min_order';
+  END IF;
+
+  -- Held until the order is committed, so the count below sees it
+  PERFORM pg_advisory_xact_lock(hashtext(_promotion.id::text), hashtext(_customer_id::text));
+
+  SELECT COUNT(*) INTO _times_used FROM public.orders o
+  WHERE o.promotion_id = _promotion.id AND o.customer_id = _customer_id AND o.status <> 'cancelled';
+
+  IF _times_used >= _promotion.per_user_limit THEN
+    RAISE EXCEPTION 'You have already used this coupon'
+      USING ERRCODE = 'P0001', HINT = 'coupon_limit_reached';
+  END IF;
+
+  _eligible := CASE WHEN _promotion.healthy_only THEN _healthy_subtotal ELSE _subtotal END;
+
+  IF _eligible <= 0 THEN
+    RAISE EXCEPTION 'This coupon only applies to healthy items (grade A or B)'
+      USING ERRCODE = 'P0001', HINT = 'coupon_no_healthy_items';
+  END IF;
+
+  discount_amount := CASE _promotion.discount_type
+    WHEN 'percent' THEN LEAST(ROUND(_eligible * _promotion.discount_value / 100, 2), COALESCE(_promotion.max_discount, _eligible))
+    ELSE LEAST(_promotion.discount_value, _eligible)
+  END;
+  promotion_id := _promotion.id;
+  code := _promotion.code;
+  description := _promotion.description;
+END;
+$$;
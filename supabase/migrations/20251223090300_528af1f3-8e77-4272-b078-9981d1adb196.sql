@@ -0,0 +1,22 @@
+-- Owners can set their restaurant's time zone, and an unknown name made
+-- Intl.DateTimeFormat throw while listing restaurants and is_restaurant_open
+-- fail, so only names Postgres knows are accepted.
+CREATE OR REPLACE FUNCTION public.validate_restaurant_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.time_zone
+      USING ERRCODE = 'P0001', HINT = 'invalid_time_zone';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE public.restaurants SET time_zone = 'Asia/Kolkata'
+WHERE time_zone NOT IN (SELECT name FROM pg_timezone_names);
+
+CREATE TRIGGER validate_restaurants_time_zone BEFORE INSERT OR UPDATE OF time_zone ON public.restaurants FOR EACH ROW EXECUTE FUNCTION public.validate_restaurant_time_zone();
@@ -0,0 +1,51 @@
+-- The gateway a payment goes through is chosen here rather than by the
+-- browser, which could otherwise start a card or UPI payment with the
+-- simulated gateway and have it captured without paying. Each environment
+-- names its gateway with
+--   ALTER DATABASE postgres SET app.payment_provider = '<provider>';
+-- and falls back to the simulated one, which capture-payment only accepts
+-- where ALLOW_MOCK_PAYMENTS is set, i.e. in development.
+DROP FUNCTION public.start_payment(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.start_payment(_order_id UUID)
+RETURNS TABLE (payment_id UUID, amount DECIMAL(10,2), method public.payment_method, provider TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _provider TEXT := COALESCE(NULLIF(current_setting('app.payment_provider', true), ''), 'mock');
+  _payment_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to pay'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id AND customer_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'P0001', HINT = 'order_not_found';
+  END IF;
+
+  IF _order.status <> 'awaiting_payment' THEN
+    RAISE EXCEPTION 'This order does not need paying'
+      USING ERRCODE = 'P0001', HINT = 'order_not_awaiting_payment';
+  END IF;
+
+  UPDATE public.payments p
+  SET status = 'failed', failure_reason = COALESCE(p.failure_reason, 'Abandoned')
+  WHERE p.order_id = _order_id AND p.status IN ('initiated', 'authorised');
+
+  INSERT INTO public.payments (order_id, method, amount, provider)
+  VALUES (_order_id, _order.payment_method, _order.total_amount, _provider)
+  RETURNING id INTO _payment_id;
+
+  RETURN QUERY SELECT _payment_id, _order.total_amount, _order.payment_method, _provider;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_payment(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_payment(UUID) TO authenticated;
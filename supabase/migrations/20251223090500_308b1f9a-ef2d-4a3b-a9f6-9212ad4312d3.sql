@@ -0,0 +1,10 @@
+-- An empty allergen list used to mean both "contains none" and "never filled
+-- in", so every dish from before allergens were tracked passed every allergen
+-- filter. NULL now means not declared; saving a dish in the menu editor
+-- declares its allergens. Existing empty lists cannot be told apart and are
+-- treated as not declared until the owner saves the dish again.
+ALTER TABLE public.menu_items
+  ALTER COLUMN allergens DROP NOT NULL,
+  ALTER COLUMN allergens DROP DEFAULT;
+
+UPDATE public.menu_items SET allergens = NULL WHERE allergens = '{}';
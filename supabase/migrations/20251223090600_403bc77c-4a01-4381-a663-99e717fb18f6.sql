@@ -0,0 +1,39 @@
+-- Invoice numbers were made up from the order month and the start of the
+-- order id, so they were neither sequential nor guaranteed unique. Each order
+-- now draws the next number from a sequence when it becomes billable: on
+-- placement for cash on delivery, once paid for online orders. Orders
+-- cancelled before they were paid for never get one.
+CREATE SEQUENCE public.invoice_number_seq;
+
+ALTER TABLE public.orders ADD COLUMN invoice_number BIGINT UNIQUE;
+
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_number IS NULL AND NEW.status NOT IN ('awaiting_payment', 'cancelled') THEN
+    NEW.invoice_number := nextval('public.invoice_number_seq');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Number the orders already billed in the order they were placed
+WITH billed AS (
+  SELECT id, row_number() OVER (ORDER BY created_at, id) AS invoice_number
+  FROM public.orders
+  WHERE status NOT IN ('awaiting_payment', 'cancelled')
+     OR (status = 'cancelled' AND (payment_method = 'cod' OR EXISTS (
+       SELECT 1 FROM public.payments p WHERE p.order_id = orders.id AND p.status IN ('captured', 'refunded')
+     )))
+)
+UPDATE public.orders o SET invoice_number = billed.invoice_number
+FROM billed WHERE o.id = billed.id;
+
+SELECT setval('public.invoice_number_seq', COALESCE(MAX(invoice_number), 0) + 1, false) FROM public.orders;
+
+CREATE TRIGGER assign_orders_invoice_number BEFORE INSERT OR UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.assign_invoice_number();
@@ -0,0 +1,31 @@
+-- Every review was readable by anyone, signed in or not, together with the
+-- customer_id and order_id behind it. Reviews are now public only through
+-- restaurant_reviews, which shows the reviewer's name but neither id; the
+-- table itself is limited to the customer who wrote a review and the owner
+-- of the restaurant it is about.
+DROP POLICY "Anyone can view reviews" ON public.reviews;
+
+CREATE POLICY "Customers can view own reviews" ON public.reviews FOR SELECT USING (auth.uid() = customer_id);
+
+CREATE POLICY "Owners can view reviews of their restaurants" ON public.reviews FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.restaurants
+    WHERE restaurants.id = reviews.restaurant_id AND restaurants.owner_id = auth.uid()
+  )
+);
+
+-- Runs as its owner so it can read every review past the policies above
+CREATE VIEW public.restaurant_reviews AS
+SELECT
+  reviews.id,
+  reviews.restaurant_id,
+  profiles.full_name AS reviewer_name,
+  reviews.rating,
+  reviews.comment,
+  reviews.owner_reply,
+  reviews.owner_replied_at,
+  reviews.created_at
+FROM public.reviews
+LEFT JOIN public.profiles ON profiles.id = reviews.customer_id;
+
+GRANT SELECT ON public.restaurant_reviews TO anon, authenticated;
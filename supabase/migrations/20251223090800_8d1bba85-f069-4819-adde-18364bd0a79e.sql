@@ -0,0 +1,62 @@
+-- A reason over the 500 characters orders.cancellation_reason allows failed
+-- the final UPDATE with a bare check-constraint violation, which the app could
+-- only show as a generic error. cancel_order now rejects it up front.
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _grace INTERVAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to cancel an order'
+      USING ERRCODE = 'P0001', HINT = 'not_authenticated';
+  END IF;
+
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please tell us why you are cancelling'
+      USING ERRCODE = 'P0001', HINT = 'missing_reason';
+  END IF;
+
+  IF char_length(btrim(_reason)) > 500 THEN
+    RAISE EXCEPTION 'Please keep the reason to 500 characters or fewer'
+      USING ERRCODE = 'P0001', HINT = 'reason_too_long';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id AND customer_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'P0001', HINT = 'order_not_found';
+  END IF;
+
+  IF _order.status NOT IN ('awaiting_payment', 'pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This order can no longer be cancelled'
+      USING ERRCODE = 'P0001', HINT = 'not_cancellable';
+  END IF;
+
+  IF _order.status = 'awaiting_payment' THEN
+    NULL;
+  ELSIF _order.scheduled_for IS NOT NULL THEN
+    IF NOW() > _order.scheduled_for - public.scheduled_cancel_cutoff() THEN
+      RAISE EXCEPTION 'Scheduled orders can only be cancelled up to % minutes before delivery', EXTRACT(EPOCH FROM public.scheduled_cancel_cutoff()) / 60
+        USING ERRCODE = 'P0001', HINT = 'cancel_cutoff_passed';
+    END IF;
+  ELSIF _order.status <> 'pending' THEN
+    SELECT make_interval(mins => cancellation_grace_minutes) INTO _grace
+    FROM public.restaurants WHERE id = _order.restaurant_id;
+
+    IF NOW() > _order.created_at + _grace THEN
+      RAISE EXCEPTION 'The restaurant has accepted this order and it can no longer be cancelled'
+        USING ERRCODE = 'P0001', HINT = 'cancel_cutoff_passed';
+    END IF;
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'cancelled', cancelled_by = 'customer', cancellation_reason = btrim(_reason)
+  WHERE id = _order_id;
+END;
+$$;